@@ -1,12 +1,36 @@
 import React, { useState, useEffect, createContext, useContext, useCallback, useMemo, useRef } from 'react';
-import { Task, TaskStatus, AppState, INITIAL_APP_STATE, Attachment, ActivityLog, Project, User, USERS } from './types';
+import { Task, TaskStatus, DEFAULT_WORKFLOW, WorkflowStatus, StatusColor, AppState, INITIAL_APP_STATE, Attachment, ActivityLog, AIPersona, ChatMessage, Project, ProjectMember, ProjectRole, ProjectViewMode, CostLine, Currency, RecurrenceFrequency, RecurrenceRule, RollupStrategy, SavedView, TagDefinition, TaskSort, TimeEntry, TrashItem, User, SEED_USERS, AVATAR_COLORS, CredentialKind, UserCredential } from './types';
 import { Icons } from './components/Icons';
-import { getStrategicAdvice, generateTaskSuggestions } from './services/geminiService';
+import { getChatReply, generateTaskSuggestions } from './services/geminiService';
+import { HISTORY_TOKEN_BUDGET, PERSONAS, appendChatMessages, buildProjectContext, buildSystemInstruction, clearChat, createChatMessage, estimateTokens, getPersona, selectHistory } from './services/assistantService';
+import { generateId } from './services/idService';
+import { loadAppState, loadUsers, serializeUsers } from './services/migrationService';
+import { ProjectAction, ROLE_LABELS, canPerform, describeDenied } from './services/permissionService';
+import { createCredential, generateInviteCode, matchesInviteCode, toPublicUser, validateSecret, verifyCredential } from './services/authService';
+import { ConflictPolicy, ExportBundle, ImportAction, createExportBundle, downloadBundle, importBundleBlobs, parseBundle, planProjectImport, rekeyBlobIds } from './services/transferService';
+import { HistoryEntry, HistoryState, PROJECT_LIST_SCOPE, getScope, getStack, pushEntry, rebaseSnapshot, restoreProject, shiftEntry } from './services/historyService';
+import { TRASH_RETENTION_OPTIONS, daysUntilPurge, describeTrashItem, isTrashItemLive, purgeExpiredTrash, restoreIntoProject, trashAttachment, trashProject, trashTask } from './services/trashService';
+import { DueState, REMINDER_OPTIONS, SentReminders, markRemindersSent, WEEKDAY_LABELS, addDays, daysBetween, getMonthGrid, listDays, parseDateKey, shiftTaskDates, startOfWeek, toDateKey, collectDueReminders, describeReminder, formatDateKey, getDueState, getTaskSchedule, isTaskDone, requestNotificationPermission, showNotification } from './services/scheduleService';
+import { ParsedQuery, QueryEnv, describeHiddenMatches, filterTasksByQuery, matchesQuery, parseQuery, splitHighlights } from './services/queryService';
+import { SMART_FILTERS, SORT_OPTIONS, ViewMatch, collectViewMatches, createSavedView, getSavedViews, isSmartFilter, isViewActive, listDashboardViews, projectQueryEnv, sortTaskTree } from './services/viewService';
+import { BULK_LABELS, BulkAction, applyBulkAction, bulkTrash } from './services/bulkService';
+import { addDependency, dropInvalidDependencies, findDependencyError, getBlockedTasks, getBlockers, getOpenBlockers, removeDependency } from './services/dependencyService';
+import { Command, rankCommands } from './services/commandService';
+import { PlaceholderReplacement, countOccurrences, countTemplateTasks, createTemplate, fillPlaceholders, instantiateTemplate, listPlaceholders, normalizePlaceholderName, templateHasDates } from './services/templateService';
+import { AnalyticsFilter, STALE_DAY_OPTIONS, averageLeadDays, buildTimelines, burnSeries, filterTimelines, findStaleTasks, summarizeProjects, topContributors, weeklyThroughput } from './services/analyticsService';
+import { MAX_TASK_WEIGHT, ProgressRules, ROLLUP_OPTIONS, getProgressRules, getProjectProgress, getTaskProgress, getTaskWeight, normalizeWeight, syncParentStatuses } from './services/progressService';
+import { BASE_CURRENCY, COST_KIND_LABELS, CURRENCIES, addCostLine, formatMoney, getProjectCosts, getProjectCurrency, getTaskCosts, hasCosts, removeCostLine, setExchangeRate } from './services/costService';
+import { MAX_ENTRY_MINUTES, findRunningTimer, formatMinutes, getEstimatedHours, getTrackedMinutes, hasRunningTimer, parseDuration, startTimer, stopTimer, addTimeEntry, removeTimeEntry, weeklyTimeReport } from './services/timeService';
+import { RECURRENCE_OPTIONS, advanceRecurringTasks, describeRecurrence, nextOccurrence, normalizeRecurrence } from './services/recurrenceService';
+import { MAX_OUTLINE_TASKS, OutlineNode, countOutline, outlineToTasks, parseOutline, tasksToMarkdown } from './services/outlineService';
+import { countTagUsage, deleteTag, filterTasksByTags, findTag, getProjectTags, mergeTagDefinitions, normalizeTagName, renameTag, sameTag, setTagColor, setTaskTags, suggestTags, syncTagDefinitions } from './services/tagService';
+import { STATUS_COLORS, applyTaskStatus, createStatus, doneStatus, findStatus, getWorkflow, initialStatus, isDoneStatus, remapStatuses, validateWorkflow } from './services/workflowService';
+import { createStorageAdapter, describeStorageError, migrateLegacyStorage, pruneOrphanBlobs, REMINDERS_KEY, SESSION_KEY, STATE_KEY, USERS_KEY, VIEW_PREFS_KEY } from './services/storageService';
 
-// --- HELPERS ---
-const generateId = () => Math.random().toString(36).substring(2, 10);
+const storage = createStorageAdapter();
 
-// Improved fileToBase64 with compression to fit localStorage
+// --- HELPERS ---
+// Compressed inline images for avatars and project covers (attachments go to the blob store)
 const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -37,31 +61,33 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-const getTaskProgress = (task: Task): number => {
-  if (task.subtasks.length === 0) {
-    return task.status === TaskStatus.COMPLETED ? 100 : 0;
-  }
-  const totalProgress = task.subtasks.reduce((acc, sub) => acc + getTaskProgress(sub), 0);
-  return Math.round(totalProgress / task.subtasks.length);
+const getAttachmentType = (mimeType: string): Attachment['type'] => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'document';
 };
 
-const getProjectProgress = (project: Project): number => {
-    if (project.tasks.length === 0) return 0;
-    const total = project.tasks.reduce((acc, t) => acc + getTaskProgress(t), 0);
-    return Math.round(total / project.tasks.length);
-};
+// Resolves blob-backed attachments to an object URL for the lifetime of the component
+const useAttachmentUrl = (attachment: Attachment): string => {
+  const [url, setUrl] = useState(attachment.blobId ? '' : attachment.url);
 
-// Recursive search
-const searchTasks = (tasks: Task[], query: string): Task[] => {
-  return tasks.reduce((acc: Task[], task) => {
-    const match = task.title.toLowerCase().includes(query.toLowerCase()) || 
-                  task.description?.toLowerCase().includes(query.toLowerCase());
-    const childMatches = searchTasks(task.subtasks, query);
-    if (match || childMatches.length > 0) {
-      acc.push({ ...task, subtasks: childMatches, expanded: true });
-    }
-    return acc;
-  }, []);
+  useEffect(() => {
+    if (!attachment.blobId) { setUrl(attachment.url); return; }
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    storage.getBlob(attachment.blobId).then(blob => {
+      if (cancelled || !blob) return;
+      objectUrl = URL.createObjectURL(blob);
+      setUrl(objectUrl);
+    }).catch(e => console.warn(e));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.blobId, attachment.url]);
+
+  return url;
 };
 
 // State Updates
@@ -73,6 +99,24 @@ const findTaskAndUpdate = (tasks: Task[], targetId: string, updater: (t: Task) =
   });
 };
 
+const flattenTasks = (tasks: Task[]): Task[] => tasks.flatMap(t => [t, ...flattenTasks(t.subtasks)]);
+
+// Rows of the tree as drawn: children only appear under expanded parents
+const flattenTaskRows = (tasks: Task[], depth = 0): { task: Task; depth: number }[] => {
+  return tasks.flatMap(task => [{ task, depth }, ...(task.expanded ? flattenTaskRows(task.subtasks, depth + 1) : [])]);
+};
+
+// Where a task sits in the tree, for keyboard moves
+const findTaskPlace = (tasks: Task[], taskId: string, parent: Task | null = null): { parent: Task | null; siblings: Task[]; index: number } | null => {
+  const index = tasks.findIndex(t => t.id === taskId);
+  if (index !== -1) return { parent, siblings: tasks, index };
+  for (const task of tasks) {
+    const found = findTaskPlace(task.subtasks, taskId, task);
+    if (found) return found;
+  }
+  return null;
+};
+
 const findTaskAndAddSubtask = (tasks: Task[], parentId: string, newTask: Task): Task[] => {
   return tasks.map(task => {
     if (task.id === parentId) return { ...task, subtasks: [...task.subtasks, newTask], expanded: true };
@@ -81,12 +125,6 @@ const findTaskAndAddSubtask = (tasks: Task[], parentId: string, newTask: Task):
   });
 };
 
-const findTaskAndDelete = (tasks: Task[], targetId: string): Task[] => {
-  return tasks.filter(t => t.id !== targetId).map(task => ({
-    ...task,
-    subtasks: findTaskAndDelete(task.subtasks, targetId)
-  }));
-};
 
 // --- COLOR THEMES ---
 const TASK_THEMES = [
@@ -106,6 +144,9 @@ const PROJECT_THEMES = [
 ];
 
 // --- CONTEXT ---
+// Where a template's tasks go: a new project, or the active one under a task (null for its root)
+type TemplateTarget = { kind: 'project' } | { kind: 'task'; parentId: string | null };
+
 interface AppContextType {
   state: AppState;
   currentUser: User;
@@ -114,30 +155,132 @@ interface AppContextType {
   draggedTaskId: string | null;
   setDraggedTaskId: (id: string | null) => void;
   setActiveProjectId: (id: string | null) => void;
-  addProject: (title: string, subtitle: string) => void;
+  addProject: (title: string, subtitle: string, initial?: Partial<Project>) => void;
   updateProject: (id: string, updates: Partial<Project>) => void; 
+  importProject: (id: string, project: Project) => void; // Replaces the project wholesale, keeping its id and members
+  updateProjectMembers: (id: string, members: ProjectMember[]) => void;
   deleteProject: (id: string) => void;
+  can: (action: ProjectAction, projectId?: string | null) => boolean;
   updateCurrentUser: (updates: Partial<User>) => void; 
+  addUser: (name: string, invite: boolean) => void;
+  updateUser: (id: string, updates: Partial<User>) => void;
+  removeUser: (id: string) => void;
+  mergeUsers: (incoming: User[]) => void;
   logout: () => void;
   toggleTaskStatus: (taskId: string) => void;
+  setTaskStatus: (taskId: string, statusId: string) => void;
+  addTaskDependency: (taskId: string, blockerId: string) => void; // taskId waits for blockerId
+  removeTaskDependency: (taskId: string, blockerId: string) => void;
+  startTaskTimer: (taskId: string) => void;
+  stopTaskTimer: (taskId: string) => void;
+  addTimeEntry: (taskId: string, entry: Pick<TimeEntry, 'userId' | 'date' | 'minutes' | 'note'>) => void;
+  removeTimeEntry: (taskId: string, entryId: string) => void;
+  addCostLine: (taskId: string, line: Pick<CostLine, 'kind' | 'label' | 'amount' | 'currency'>) => void;
+  removeCostLine: (taskId: string, lineId: string) => void;
+  setExchangeRate: (currency: Currency, rate: number) => void; // Admins only; 0 clears the rate
+  setAssignees: (taskId: string, assignees: string[]) => void;
+  updateWorkflow: (projectId: string, workflow: WorkflowStatus[]) => void;
+  updateProgressRules: (projectId: string, rules: Pick<Project, 'rollup' | 'autoCompleteParents'>) => void;
+  updateTaskTags: (taskId: string, tags: string[]) => void;
+  renameProjectTag: (from: string, to: string) => void;
+  deleteProjectTag: (name: string) => void;
+  setProjectTagColor: (name: string, color: StatusColor) => void;
+  openTagManager: () => void;
   addTask: (parentId: string | null, title: string) => void;
+  addTaskTree: (parentId: string | null, nodes: OutlineNode[]) => void;
+  openOutlineImport: (parentId: string | null) => void;
+  copyTasksAsMarkdown: (taskId: string | null) => Promise<void>; // null copies the whole project
+  saveTemplate: (name: string, taskId: string | null, replacements: PlaceholderReplacement[]) => void; // null saves the whole active project
+  deleteTemplate: (templateId: string) => void;
+  createProjectFromTemplate: (title: string, subtitle: string, templateId: string | null, values: Record<string, string>, startDate: string) => void;
+  insertTemplate: (templateId: string, parentId: string | null, values: Record<string, string>, startDate: string) => void;
+  openSaveTemplate: (taskId: string | null) => void;
+  openTemplatePicker: (target: TemplateTarget) => void;
   updateTask: (taskId: string, updates: Partial<Task>) => void; 
   deleteTask: (taskId: string) => void;
+  removeAttachment: (taskId: string, attachmentId: string) => void;
+  restoreFromTrash: (itemId: string) => void;
+  purgeFromTrash: (itemIds: string[]) => void;
+  setTrashRetention: (days: number) => void;
+  openTrash: () => void;
+  openWorkflowModal: () => void;
+  projectViews: Record<string, ProjectViewMode>;
+  setProjectView: (projectId: string, mode: ProjectViewMode) => void;
   moveTask: (draggedId: string, targetId: string, position: 'before' | 'after' | 'inside') => void;
   addActivity: (taskId: string, content: string, type: ActivityLog['type']) => void;
   addAttachment: (taskId: string, type: Attachment['type'], name: string, url: string) => void;
+  uploadAttachment: (taskId: string, type: Attachment['type'], name: string, blob: Blob) => Promise<void>;
   toggleExpand: (taskId: string) => void;
   openTaskDetail: (task: Task) => void;
+  focusedTaskId: string | null; // Task under the keyboard cursor in the tree
+  selectedTaskIds: string[];
+  setSelectedTaskIds: (ids: string[]) => void;
+  runBulkAction: (action: BulkAction) => void; // One commit and one undo step for the whole selection
+  setFocusedTaskId: (id: string | null) => void;
+  modalOpen: boolean; // A dialog is on top, so page shortcuts stand down
+  openCommandPalette: () => void;
   searchQuery: string;
   setSearchQuery: (q: string) => void;
+  parsedQuery: ParsedQuery; // searchQuery in the query language, parsed once per change
+  tagFilter: string[]; // Tags a task must all carry to show; cleared when switching projects
+  setTagFilter: (tags: string[]) => void;
+  taskSort: TaskSort;
+  setTaskSort: (sort: TaskSort) => void;
+  applyView: (view: SavedView | null) => void; // null clears every filter
+  saveView: (name: string) => void; // Saves the current query, tags and sort in the open project
+  deleteView: (viewId: string) => void;
   requestInput: (title: string, callback: (val: string) => void) => void;
   openAIModal: () => void;
+  addChatMessages: (projectId: string, messages: ChatMessage[]) => void; // Outside the undo history
+  clearChat: (projectId: string) => void;
   openStatsModal: () => void;
-  openProfileModal: () => void;
+  openBudgetModal: () => void;
+  openUserManagement: () => void;
+  openMembersModal: () => void;
+  exportProjects: (projectId: string | null) => Promise<void>;
+  openImportModal: (bundle: ExportBundle) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 const AppContext = createContext<AppContextType | null>(null);
 
+// Workflow of the open project; outside a project the default one applies
+const useActiveWorkflow = (): WorkflowStatus[] => {
+  const ctx = useContext(AppContext);
+  return getWorkflow(ctx?.state.projects.find(p => p.id === ctx.activeProjectId));
+};
+
+const useActiveProgressRules = (): ProgressRules => {
+  const ctx = useContext(AppContext);
+  return getProgressRules(ctx?.state.projects.find(p => p.id === ctx.activeProjectId));
+};
+
+// What the query language needs to evaluate fields against the open project
+const useQueryEnv = (): QueryEnv => {
+  const ctx = useContext(AppContext);
+  const workflow = useActiveWorkflow();
+  return { workflow, users: ctx?.users || [], currentUserId: ctx?.currentUser.id || '' };
+};
+
+// Tag definitions of the open project
+const useActiveTags = (): TagDefinition[] => {
+  const ctx = useContext(AppContext);
+  return getProjectTags(ctx?.state.projects.find(p => p.id === ctx.activeProjectId));
+};
+
+interface CommitOptions {
+  coalesceKey?: string;
+  destructive?: boolean;
+  updateTrash?: (trash: TrashItem[]) => TrashItem[];
+  insertAt?: number; // Position for a project that does not exist yet
+}
+
+// Profile fields anyone may change on their own account; everything else needs an admin
+const SELF_EDITABLE_FIELDS: (keyof User)[] = ['name', 'avatarUrl', 'avatarColor', 'credential'];
+
 // --- COMPONENTS ---
 
 const Avatar: React.FC<{ user?: User, size?: string }> = ({ user, size = "w-8 h-8" }) => {
@@ -154,7 +297,63 @@ const Avatar: React.FC<{ user?: User, size?: string }> = ({ user, size = "w-8 h-
   );
 };
 
-const IntroScreen: React.FC<{ onSelectUser: (u: User) => void; users: User[] }> = ({ onSelectUser, users }) => {
+const MAX_LOGIN_ATTEMPTS = 5;
+const LOCKOUT_MS = 30_000;
+
+const IntroScreen: React.FC<{ users: User[]; onLogin: (userId: string) => void; onAcceptInvite: (userId: string, credential: UserCredential | null) => void }> = ({ users, onLogin, onAcceptInvite }) => {
+  const [selected, setSelected] = useState<User | null>(null);
+  const [secret, setSecret] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [newKind, setNewKind] = useState<CredentialKind>('pin');
+  const [error, setError] = useState('');
+  const [attempts, setAttempts] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState(0);
+  const [busy, setBusy] = useState(false);
+
+  const visibleUsers = users.filter(u => u.status !== 'removed');
+
+  const selectUser = (user: User) => {
+    setError(''); setSecret(''); setInviteCode('');
+    if (user.status === 'active' && !user.credential) { onLogin(user.id); return; }
+    setSelected(user);
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || busy) return;
+    if (Date.now() < lockedUntil) { setError("Demasiados intentos. Espera unos segundos."); return; }
+    setBusy(true);
+    const ok = await verifyCredential(selected, secret);
+    setBusy(false);
+    if (ok) { setAttempts(0); onLogin(selected.id); return; }
+    const failed = attempts + 1;
+    setAttempts(failed);
+    setSecret('');
+    if (failed >= MAX_LOGIN_ATTEMPTS) {
+      setAttempts(0);
+      setLockedUntil(Date.now() + LOCKOUT_MS);
+      setError("Demasiados intentos. Espera 30 segundos.");
+    } else {
+      setError(selected.credential?.kind === 'passphrase' ? "Frase incorrecta." : "PIN incorrecto.");
+    }
+  };
+
+  const handleAcceptInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || busy) return;
+    if (!matchesInviteCode(selected, inviteCode)) { setError("El código de invitación no es válido."); return; }
+    if (secret) {
+      const invalid = validateSecret(secret, newKind);
+      if (invalid) { setError(invalid); return; }
+    }
+    setBusy(true);
+    const credential = secret ? await createCredential(secret, newKind) : null;
+    setBusy(false);
+    onAcceptInvite(selected.id, credential);
+  };
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white text-center placeholder:text-gray-600 focus:outline-none focus:border-indigo-500/50";
+
   return (
     <div className="fixed inset-0 z-50 bg-[#050505] flex flex-col items-center justify-center p-4 overflow-hidden">
       {/* Background decoration */}
@@ -174,22 +373,83 @@ const IntroScreen: React.FC<{ onSelectUser: (u: User) => void; users: User[] }>
          </p>
       </div>
 
-      <div className="flex gap-6 animate-slide-up relative z-10" style={{ animationDelay: '1.2s' }}>
-        {users.map(user => (
-          <button
-            key={user.id}
-            onClick={() => onSelectUser(user)}
-            className="group relative flex flex-col items-center gap-3 p-6 rounded-2xl bg-white/5 border border-white/10 hover:border-primary/50 hover:bg-white/10 transition-all duration-300 w-32 backdrop-blur-sm"
-          >
-            <Avatar user={user} size="w-16 h-16" />
-            <span className="text-gray-300 font-medium group-hover:text-white">{user.name}</span>
-          </button>
-        ))}
-      </div>
+      {selected ? (
+        <form onSubmit={selected.status === 'invited' ? handleAcceptInvite : handleUnlock} className="relative z-10 w-full max-w-xs flex flex-col items-center gap-4 animate-slide-up">
+          <Avatar user={selected} size="w-16 h-16" />
+          <span className="text-gray-300 font-medium">{selected.name}</span>
+          {selected.status === 'invited' ? (
+            <>
+              <input autoFocus value={inviteCode} onChange={e => setInviteCode(e.target.value)} placeholder="Código de invitación" className={`${inputClass} uppercase tracking-[0.3em]`} />
+              <div className="flex bg-white/5 rounded-lg p-1 border border-white/10 text-xs">
+                {(['pin', 'passphrase'] as CredentialKind[]).map(kind => (
+                  <button type="button" key={kind} onClick={() => setNewKind(kind)} className={`px-3 py-1.5 rounded-md transition-colors ${newKind === kind ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}>
+                    {kind === 'pin' ? 'PIN' : 'Frase'}
+                  </button>
+                ))}
+              </div>
+              <input type="password" inputMode={newKind === 'pin' ? 'numeric' : 'text'} value={secret} onChange={e => setSecret(e.target.value)} placeholder={newKind === 'pin' ? 'Nuevo PIN (opcional)' : 'Nueva frase (opcional)'} className={inputClass} />
+            </>
+          ) : (
+            <input autoFocus type="password" inputMode={selected.credential?.kind === 'pin' ? 'numeric' : 'text'} value={secret} onChange={e => setSecret(e.target.value)} placeholder={selected.credential?.kind === 'passphrase' ? 'Frase de acceso' : 'PIN'} className={`${inputClass} tracking-[0.3em]`} />
+          )}
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+          <div className="flex w-full gap-3">
+            <button type="button" onClick={() => setSelected(null)} className="flex-1 py-2 text-gray-400 hover:text-white text-sm font-medium transition-colors">Volver</button>
+            <button type="submit" disabled={busy} className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-bold transition-colors disabled:opacity-50">
+              {selected.status === 'invited' ? 'Unirme' : 'Entrar'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap justify-center gap-6 animate-slide-up relative z-10 max-w-3xl" style={{ animationDelay: '1.2s' }}>
+          {visibleUsers.map(user => (
+            <button
+              key={user.id}
+              onClick={() => selectUser(user)}
+              className="group relative flex flex-col items-center gap-3 p-6 rounded-2xl bg-white/5 border border-white/10 hover:border-primary/50 hover:bg-white/10 transition-all duration-300 w-32 backdrop-blur-sm"
+            >
+              {user.credential && <Icons.Lock size={12} className="absolute top-3 right-3 text-gray-500" />}
+              <Avatar user={user} size="w-16 h-16" />
+              <span className="text-gray-300 font-medium group-hover:text-white">{user.name}</span>
+              {user.status === 'invited' && <span className="text-[10px] uppercase tracking-widest text-indigo-400">Invitado</span>}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
 
+interface Notice {
+  tone: 'error' | 'info';
+  message: string;
+}
+
+const NoticeBanner: React.FC<{ notice: Notice; onClose: () => void }> = ({ notice, onClose }) => {
+    const palette = notice.tone === 'error'
+        ? { box: 'bg-rose-950/90 border-rose-500/40', icon: 'text-rose-400', text: 'text-rose-100', close: 'text-rose-300' }
+        : { box: 'bg-indigo-950/90 border-indigo-500/40', icon: 'text-indigo-400', text: 'text-indigo-100', close: 'text-indigo-300' };
+
+    return (
+        <div className={`fixed bottom-4 left-1/2 -translate-x-1/2 z-[200] w-[calc(100%-2rem)] max-w-lg border rounded-xl px-4 py-3 shadow-2xl backdrop-blur-md flex items-start gap-3 animate-slide-up ${palette.box}`}>
+            <Icons.Alert size={18} className={`${palette.icon} shrink-0 mt-0.5`} />
+            <p className={`flex-1 text-sm ${palette.text}`}>{notice.message}</p>
+            <button onClick={onClose} className={`p-1 hover:bg-white/10 rounded-full ${palette.close}`}><Icons.Close size={16} /></button>
+        </div>
+    );
+};
+
+const UNDO_TOAST_MS = 6000;
+const REMINDER_CHECK_MS = 60_000;
+
+const UndoToast: React.FC<{ label: string; onUndo: () => void; onClose: () => void }> = ({ label, onUndo, onClose }) => (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[200] w-[calc(100%-2rem)] max-w-sm bg-[#16161c]/95 border border-white/10 rounded-xl px-4 py-3 shadow-2xl backdrop-blur-md flex items-center gap-3 animate-slide-up">
+        <p className="flex-1 text-sm text-gray-200">{label}</p>
+        <button onClick={onUndo} className="flex items-center gap-1.5 text-sm font-medium text-indigo-400 hover:text-indigo-300"><Icons.Undo size={16} /> Deshacer</button>
+        <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full text-gray-500"><Icons.Close size={16} /></button>
+    </div>
+);
+
 const InputModal: React.FC<{ title: string; onClose: () => void; onSubmit: (val: string) => void }> = ({ title, onClose, onSubmit }) => {
     const [value, setValue] = useState('');
     const inputRef = useRef<HTMLInputElement>(null);
@@ -229,13 +489,82 @@ const InputModal: React.FC<{ title: string; onClose: () => void; onSubmit: (val:
     )
 }
 
-const ProfileModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+const CredentialEditor: React.FC<{ user: User; onSave: (credential: UserCredential | null) => void }> = ({ user, onSave }) => {
+    const [kind, setKind] = useState<CredentialKind>(user.credential?.kind || 'pin');
+    const [current, setCurrent] = useState('');
+    const [secret, setSecret] = useState('');
+    const [confirm, setConfirm] = useState('');
+    const [error, setError] = useState('');
+    const [busy, setBusy] = useState(false);
+
+    // Changing or removing an existing secret requires the current one
+    const checkCurrent = async (): Promise<boolean> => {
+        if (!user.credential) return true;
+        if (await verifyCredential(user, current)) return true;
+        setError("La clave actual no es correcta.");
+        return false;
+    };
+
+    const handleSave = async () => {
+        setError('');
+        const invalid = validateSecret(secret, kind);
+        if (invalid) { setError(invalid); return; }
+        if (secret !== confirm) { setError("Las claves no coinciden."); return; }
+        setBusy(true);
+        if (await checkCurrent()) {
+            onSave(await createCredential(secret, kind));
+            setCurrent(''); setSecret(''); setConfirm('');
+        }
+        setBusy(false);
+    };
+
+    const handleRemove = async () => {
+        setError('');
+        setBusy(true);
+        if (await checkCurrent()) { onSave(null); setCurrent(''); }
+        setBusy(false);
+    };
+
+    const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder:text-gray-600 focus:outline-none focus:border-indigo-500/50";
+
+    return (
+        <div className="w-full bg-white/5 border border-white/5 rounded-xl p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-bold uppercase tracking-widest text-gray-500 flex items-center gap-2"><Icons.Lock size={12} /> Acceso</span>
+                <span className="text-xs text-gray-400">{user.credential ? (user.credential.kind === 'pin' ? 'PIN activo' : 'Frase activa') : 'Sin clave'}</span>
+            </div>
+            <div className="flex bg-black/30 rounded-lg p-1 border border-white/10 text-xs w-fit">
+                {(['pin', 'passphrase'] as CredentialKind[]).map(option => (
+                    <button key={option} onClick={() => setKind(option)} className={`px-3 py-1 rounded-md transition-colors ${kind === option ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}>
+                        {option === 'pin' ? 'PIN' : 'Frase'}
+                    </button>
+                ))}
+            </div>
+            {user.credential && <input type="password" value={current} onChange={e => setCurrent(e.target.value)} placeholder="Clave actual" className={inputClass} />}
+            <input type="password" inputMode={kind === 'pin' ? 'numeric' : 'text'} value={secret} onChange={e => setSecret(e.target.value)} placeholder={kind === 'pin' ? 'Nuevo PIN (4-8 dígitos)' : 'Nueva frase (8+ caracteres)'} className={inputClass} />
+            <input type="password" inputMode={kind === 'pin' ? 'numeric' : 'text'} value={confirm} onChange={e => setConfirm(e.target.value)} placeholder="Repetir" className={inputClass} />
+            {error && <p className="text-xs text-rose-400">{error}</p>}
+            <div className="flex justify-end gap-2">
+                {user.credential && <button onClick={handleRemove} disabled={busy} className="px-3 py-1.5 text-xs text-gray-400 hover:text-rose-400 transition-colors disabled:opacity-50">Quitar clave</button>}
+                <button onClick={handleSave} disabled={busy || !secret} className="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold transition-colors disabled:opacity-50">Guardar clave</button>
+            </div>
+        </div>
+    );
+};
+
+const UserManagementModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     const ctx = useContext(AppContext);
+    const [tab, setTab] = useState<'profile' | 'team'>('profile');
     const [name, setName] = useState(ctx?.currentUser.name || '');
     const [uploading, setUploading] = useState(false);
+    const [newUserName, setNewUserName] = useState('');
+    const [inviteNewUser, setInviteNewUser] = useState(true);
     
     if (!ctx) return null;
 
+    const isAdmin = ctx.currentUser.accountRole === 'admin';
+    const teamMembers = ctx.users.filter(u => u.status !== 'removed');
+
     const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             setUploading(true);
@@ -254,77 +583,352 @@ const ProfileModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         onClose();
     };
 
+    const handleAddUser = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newUserName.trim()) return;
+        ctx.addUser(newUserName.trim(), inviteNewUser);
+        setNewUserName('');
+    };
+
+    const handleToggleAdmin = (user: User) => {
+        ctx.updateUser(user.id, { accountRole: user.accountRole === 'admin' ? 'member' : 'admin' });
+    };
+
+    const handleRemove = (user: User) => {
+        if (confirm(`¿Eliminar a ${user.name} del equipo? Su historial se conserva.`)) ctx.removeUser(user.id);
+    };
+
     return (
         <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
-            <div className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-md p-8 shadow-2xl animate-slide-up flex flex-col items-center" onClick={e => e.stopPropagation()}>
-                <h3 className="text-xl font-display font-normal text-white mb-6 tracking-wide">Editar Perfil</h3>
-                
-                <div className="relative group cursor-pointer mb-6">
-                    <Avatar user={ctx.currentUser} size="w-24 h-24" />
-                    <label className="absolute inset-0 bg-black/50 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                        {uploading ? <div className="animate-spin w-6 h-6 border-2 border-white/30 border-t-white rounded-full"></div> : <Icons.Camera className="text-white" size={24} />}
-                        <input type="file" className="hidden" accept="image/*" onChange={handleFileChange} />
-                    </label>
+            <div className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-lg p-8 shadow-2xl animate-slide-up flex flex-col items-center max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex w-full items-center border-b border-white/5 mb-6">
+                    <button onClick={() => setTab('profile')} className={`py-3 mr-6 text-sm font-medium border-b-2 transition-colors ${tab === 'profile' ? 'border-indigo-500 text-white' : 'border-transparent text-gray-500 hover:text-gray-300'}`}>Mi Perfil</button>
+                    <button onClick={() => setTab('team')} className={`py-3 text-sm font-medium border-b-2 transition-colors ${tab === 'team' ? 'border-indigo-500 text-white' : 'border-transparent text-gray-500 hover:text-gray-300'}`}>Equipo ({teamMembers.length})</button>
+                    <button onClick={onClose} className="ml-auto p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close size={18} /></button>
                 </div>
 
-                <input 
-                    type="text" 
-                    value={name}
-                    onChange={(e) => setName(e.target.value)}
-                    className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white text-center placeholder:text-gray-600 focus:outline-none focus:border-indigo-500/50 mb-6"
-                />
+                {tab === 'profile' ? (
+                    <div className="w-full flex flex-col items-center overflow-y-auto custom-scrollbar">
+                        <div className="relative group cursor-pointer mb-6">
+                            <Avatar user={ctx.currentUser} size="w-24 h-24" />
+                            <label className="absolute inset-0 bg-black/50 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                                {uploading ? <div className="animate-spin w-6 h-6 border-2 border-white/30 border-t-white rounded-full"></div> : <Icons.Camera className="text-white" size={24} />}
+                                <input type="file" className="hidden" accept="image/*" onChange={handleFileChange} />
+                            </label>
+                        </div>
+
+                        <input 
+                            type="text" 
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white text-center placeholder:text-gray-600 focus:outline-none focus:border-indigo-500/50 mb-4"
+                        />
+
+                        <div className="flex gap-2 mb-6">
+                            {AVATAR_COLORS.map(color => (
+                                <button key={color} onClick={() => ctx.updateCurrentUser({ avatarColor: color })} className={`w-6 h-6 rounded-full ${color} ${ctx.currentUser.avatarColor === color ? 'ring-2 ring-white ring-offset-2 ring-offset-[#111115]' : 'opacity-60 hover:opacity-100'}`} />
+                            ))}
+                        </div>
+
+                        <CredentialEditor user={ctx.currentUser} onSave={(credential) => ctx.updateCurrentUser({ credential: credential || undefined })} />
+
+                        <div className="flex w-full gap-3 mt-6">
+                            <button onClick={onClose} className="flex-1 py-2 text-gray-400 hover:text-white text-sm font-medium transition-colors">Cancelar</button>
+                            <button onClick={handleSave} className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-bold transition-colors">Guardar Cambios</button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="w-full flex flex-col overflow-hidden">
+                        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2 mb-4">
+                            {teamMembers.map(user => (
+                                <div key={user.id} className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/5">
+                                    <Avatar user={user} size="w-9 h-9" />
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-sm text-gray-200 truncate">{user.name}</span>
+                                            {user.accountRole === 'admin' && <span className="text-[9px] uppercase tracking-widest text-amber-400 border border-amber-500/30 rounded px-1">Admin</span>}
+                                            {user.credential && <Icons.Lock size={10} className="text-gray-500" />}
+                                        </div>
+                                        {user.status === 'invited' && <div className="text-[10px] text-indigo-400">Invitado · código <span className="font-mono tracking-widest">{user.inviteCode}</span></div>}
+                                    </div>
+                                    {isAdmin && user.id !== ctx.currentUser.id && (
+                                        <div className="flex items-center gap-1">
+                                            <button onClick={() => ctx.requestInput(`Renombrar a ${user.name}`, (val) => ctx.updateUser(user.id, { name: val }))} title="Renombrar" className="p-1.5 hover:bg-white/10 rounded-lg text-gray-500 hover:text-white"><Icons.Settings size={14} /></button>
+                                            <button onClick={() => handleToggleAdmin(user)} title={user.accountRole === 'admin' ? 'Quitar admin' : 'Hacer admin'} className="p-1.5 hover:bg-white/10 rounded-lg text-gray-500 hover:text-amber-400"><Icons.User size={14} /></button>
+                                            {user.credential && <button onClick={() => ctx.updateUser(user.id, { credential: undefined })} title="Restablecer clave" className="p-1.5 hover:bg-white/10 rounded-lg text-gray-500 hover:text-indigo-400"><Icons.Lock size={14} /></button>}
+                                            <button onClick={() => handleRemove(user)} title="Eliminar" className="p-1.5 hover:bg-rose-500/10 rounded-lg text-gray-500 hover:text-rose-500"><Icons.Delete size={14} /></button>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+
+                        {isAdmin ? (
+                            <form onSubmit={handleAddUser} className="space-y-2">
+                                <div className="flex gap-2">
+                                    <input value={newUserName} onChange={e => setNewUserName(e.target.value)} placeholder="Nombre del nuevo integrante" className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder:text-gray-600 focus:outline-none focus:border-indigo-500/50" />
+                                    <button type="submit" disabled={!newUserName.trim()} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold transition-colors disabled:opacity-50">{inviteNewUser ? 'Invitar' : 'Crear'}</button>
+                                </div>
+                                <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                                    <input type="checkbox" checked={inviteNewUser} onChange={e => setInviteNewUser(e.target.checked)} />
+                                    Enviar como invitación (la persona entra con un código y define su clave)
+                                </label>
+                            </form>
+                        ) : (
+                            <p className="text-xs text-gray-500 text-center">Solo un administrador puede gestionar el equipo.</p>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const ProjectMembersModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const ctx = useContext(AppContext);
+    const [newUserId, setNewUserId] = useState('');
+    const [newRole, setNewRole] = useState<ProjectRole>('editor');
+
+    if (!ctx) return null;
+    const project = ctx.state.projects.find(p => p.id === ctx.activeProjectId);
+    if (!project) return null;
+
+    const canManage = ctx.can('manage', project.id);
+    const ownerCount = project.members.filter(m => m.role === 'owner').length;
+    const candidates = ctx.users.filter(u => u.status !== 'removed' && !project.members.some(m => m.userId === u.id));
+
+    const changeRole = (member: ProjectMember, role: ProjectRole) => {
+        if (member.role === 'owner' && role !== 'owner' && ownerCount <= 1) { alert("El proyecto debe tener al menos un propietario."); return; }
+        ctx.updateProjectMembers(project.id, project.members.map(m => m.userId === member.userId ? { ...m, role } : m));
+    };
+
+    const removeMember = (member: ProjectMember) => {
+        if (member.role === 'owner' && ownerCount <= 1) { alert("El proyecto debe tener al menos un propietario."); return; }
+        ctx.updateProjectMembers(project.id, project.members.filter(m => m.userId !== member.userId));
+    };
+
+    const addMember = () => {
+        const userId = newUserId || candidates[0]?.id;
+        if (!userId) return;
+        ctx.updateProjectMembers(project.id, [...project.members, { userId, role: newRole, addedAt: Date.now() }]);
+        setNewUserId('');
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-lg p-6 shadow-2xl animate-slide-up flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className="text-xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
+                        <Icons.Users className="text-indigo-400" />
+                        Miembros de {project.title}
+                    </h3>
+                    <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2 mb-4">
+                    {project.members.map(member => {
+                        const user = ctx.users.find(u => u.id === member.userId);
+                        return (
+                            <div key={member.userId} className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/5">
+                                <Avatar user={user} size="w-9 h-9" />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm text-gray-200 truncate">{user?.name || 'Usuario desconocido'}</div>
+                                    {user?.status === 'removed' && <div className="text-[10px] text-gray-500">Eliminado del equipo</div>}
+                                </div>
+                                {canManage ? (
+                                    <>
+                                        <select value={member.role} onChange={e => changeRole(member, e.target.value as ProjectRole)} className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-white">
+                                            {(Object.keys(ROLE_LABELS) as ProjectRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                                        </select>
+                                        <button onClick={() => removeMember(member)} className="p-1.5 hover:bg-rose-500/10 rounded-lg text-gray-500 hover:text-rose-500"><Icons.Delete size={14} /></button>
+                                    </>
+                                ) : (
+                                    <span className="text-xs text-gray-400">{ROLE_LABELS[member.role]}</span>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {canManage && candidates.length > 0 && (
+                    <div className="flex gap-2">
+                        <select value={newUserId || candidates[0].id} onChange={e => setNewUserId(e.target.value)} className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white">
+                            {candidates.map(u => <option key={u.id} value={u.id}>{u.name}{u.status === 'invited' ? ' (invitado)' : ''}</option>)}
+                        </select>
+                        <select value={newRole} onChange={e => setNewRole(e.target.value as ProjectRole)} className="bg-white/5 border border-white/10 rounded-lg px-2 py-2 text-sm text-white">
+                            {(Object.keys(ROLE_LABELS) as ProjectRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                        </select>
+                        <button onClick={addMember} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold transition-colors">Agregar</button>
+                    </div>
+                )}
+                {!canManage && <p className="text-xs text-gray-500 text-center">Solo un propietario puede gestionar los miembros.</p>}
+            </div>
+        </div>
+    );
+};
+
+const TRASH_KIND_LABELS: Record<TrashItem['kind'], string> = { project: 'Proyecto', task: 'Tarea', attachment: 'Adjunto' };
+
+const TrashModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const ctx = useContext(AppContext);
+    if (!ctx) return null;
+    const { state, currentUser } = ctx;
+
+    // Access is checked against the live project, or the trashed snapshot when the project itself was deleted
+    const projectFor = (projectId: string): Project | undefined => state.projects.find(p => p.id === projectId)
+        || state.trash.reduce<Project | undefined>((found, item) => found || (item.kind === 'project' && item.projectId === projectId ? item.project : undefined), undefined);
+    const visible = state.trash
+        .filter(item => !isTrashItemLive(item, state.projects))
+        .filter(item => !ctx.activeProjectId || item.projectId === ctx.activeProjectId)
+        .filter(item => {
+            const project = item.kind === 'project' ? item.project : projectFor(item.projectId);
+            return !!project && canPerform(project, currentUser.id, 'view');
+        })
+        .sort((a, b) => b.deletedAt - a.deletedAt);
+
+    const handlePurge = (item: TrashItem) => {
+        if (confirm(`¿Eliminar "${describeTrashItem(item)}" definitivamente? No se puede deshacer.`)) ctx.purgeFromTrash([item.id]);
+    };
+
+    const handleEmpty = () => {
+        if (confirm(`¿Eliminar definitivamente ${visible.length} elemento(s)? No se puede deshacer.`)) ctx.purgeFromTrash(visible.map(item => item.id));
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-lg p-6 shadow-2xl animate-slide-up flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className="text-xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
+                        <Icons.Delete className="text-rose-400" />
+                        Papelera
+                    </h3>
+                    <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2 mb-4">
+                    {visible.map(item => {
+                        const deletedBy = ctx.users.find(u => u.id === item.deletedBy);
+                        const projectTitle = item.kind === 'project' ? null : projectFor(item.projectId)?.title;
+                        return (
+                            <div key={item.id} className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/5">
+                                <div className="w-9 h-9 rounded-lg bg-white/5 flex items-center justify-center text-gray-400 shrink-0">
+                                    {item.kind === 'project' ? <Icons.Rocket size={16} /> : item.kind === 'task' ? <Icons.Check size={16} /> : <Icons.File size={16} />}
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm text-gray-200 truncate">{describeTrashItem(item)}</div>
+                                    <div className="text-[10px] text-gray-500 truncate">
+                                        {TRASH_KIND_LABELS[item.kind]}{projectTitle ? ` en ${projectTitle}` : ''} · {deletedBy?.name || 'Alguien'}, {new Date(item.deletedAt).toLocaleDateString()} · se purga en {daysUntilPurge(item, state.trashRetentionDays)} días
+                                    </div>
+                                </div>
+                                <button onClick={() => ctx.restoreFromTrash(item.id)} title="Restaurar" className="p-1.5 hover:bg-indigo-500/10 rounded-lg text-gray-400 hover:text-indigo-400"><Icons.Undo size={14} /></button>
+                                <button onClick={() => handlePurge(item)} title="Eliminar definitivamente" className="p-1.5 hover:bg-rose-500/10 rounded-lg text-gray-500 hover:text-rose-500"><Icons.Close size={14} /></button>
+                            </div>
+                        );
+                    })}
+                    {visible.length === 0 && <div className="text-center py-8 border border-dashed border-white/10 rounded-xl text-gray-600 text-xs">La papelera está vacía</div>}
+                </div>
 
-                <div className="flex w-full gap-3">
-                    <button onClick={onClose} className="flex-1 py-2 text-gray-400 hover:text-white text-sm font-medium transition-colors">Cancelar</button>
-                    <button onClick={handleSave} className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-bold transition-colors">Guardar Cambios</button>
+                <div className="flex items-center justify-between gap-2">
+                    <label className="flex items-center gap-2 text-xs text-gray-500">
+                        Conservar
+                        <select value={state.trashRetentionDays} disabled={currentUser.accountRole !== 'admin'} onChange={e => ctx.setTrashRetention(Number(e.target.value))} className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white disabled:opacity-50">
+                            {[...new Set([...TRASH_RETENTION_OPTIONS, state.trashRetentionDays])].sort((a, b) => a - b).map(days => <option key={days} value={days}>{days} días</option>)}
+                        </select>
+                    </label>
+                    {visible.length > 0 && <button onClick={handleEmpty} className="px-4 py-2 bg-rose-600/80 hover:bg-rose-500 text-white rounded-lg text-xs font-bold transition-colors">Vaciar papelera</button>}
                 </div>
             </div>
         </div>
     );
 };
 
+// Multi-turn chat stored with each project; every member sees the same conversation
 const AIModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const ctx = useContext(AppContext);
+    const [projectId, setProjectId] = useState(() => ctx?.activeProjectId || ctx?.state.projects.find(p => ctx.can('view', p.id))?.id || '');
+    const [persona, setPersona] = useState<AIPersona>('consultant');
     const [query, setQuery] = useState('');
-    const [response, setResponse] = useState('');
     const [loading, setLoading] = useState(false);
-    const ctx = useContext(AppContext);
-    
-    const activeProject = ctx?.state.projects.find(p => p.id === ctx.activeProjectId);
-    const contextStr = activeProject 
-        ? `Proyecto Activo: ${activeProject.title} (${activeProject.subtitle}). Tareas actuales: ${activeProject.tasks.map(t => t.title).join(', ')}.` 
-        : "Sin proyecto activo seleccionado en el dashboard.";
+    const endRef = useRef<HTMLDivElement>(null);
+
+    const project = ctx?.state.projects.find(p => p.id === projectId);
+    const chat = project?.chat || [];
+    const context = useMemo(() => project && ctx ? buildProjectContext(project, ctx.state.exchangeRates, ctx.users) : '', [project, ctx?.state.exchangeRates, ctx?.users]);
+
+    useEffect(() => { endRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [chat.length, loading]);
+
+    if (!ctx) return null;
+    const projects = ctx.state.projects.filter(p => ctx.can('view', p.id));
+    const canAsk = !!project && ctx.can('comment', project.id);
+    const nameOf = (id: string) => ctx.users.find(u => u.id === id)?.name || 'Usuario desconocido';
 
     const handleAsk = async () => {
-        if(!query.trim()) return;
+        const question = query.trim();
+        if (!question || !project || loading) return;
+        const history = selectHistory(chat);
+        ctx.addChatMessages(project.id, [createChatMessage('user', question, persona, ctx.currentUser.id)]);
+        setQuery('');
         setLoading(true);
-        const res = await getStrategicAdvice(contextStr, query);
-        setResponse(res);
+        const reply = await getChatReply(buildSystemInstruction(persona, context), history, question);
+        ctx.addChatMessages(project.id, [createChatMessage('assistant', reply.text, persona, ctx.currentUser.id, reply.failed)]);
         setLoading(false);
     };
 
+    const handleClear = () => {
+        if (project && confirm(`¿Borrar la conversación de "${project.title}" para todos sus miembros?`)) ctx.clearChat(project.id);
+    };
+
     return (
         <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
-            <div className="bg-[#111115] border border-indigo-500/30 rounded-2xl w-full max-w-2xl p-6 shadow-2xl shadow-indigo-900/20 animate-slide-up flex flex-col max-h-[80vh]" onClick={e => e.stopPropagation()}>
-                <div className="flex justify-between items-center mb-6">
+            <div className="bg-[#111115] border border-indigo-500/30 rounded-2xl w-full max-w-3xl p-6 shadow-2xl shadow-indigo-900/20 animate-slide-up flex flex-col h-[85vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4 gap-4">
                     <h3 className="text-2xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
                         <Icons.Bot className="text-indigo-400" />
                         Consultor Estratégico
                     </h3>
-                    <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
+                    <div className="flex items-center gap-2">
+                        <select value={projectId} onChange={e => setProjectId(e.target.value)} disabled={loading} className="bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-300 max-w-[200px]">
+                            {projects.length === 0 && <option value="">Sin proyectos</option>}
+                            {projects.map(p => <option key={p.id} value={p.id} className="bg-[#111115]">{p.title}</option>)}
+                        </select>
+                        {project && chat.length > 0 && ctx.can('manage', project.id) && (
+                            <button onClick={handleClear} disabled={loading} title="Borrar conversación" className="p-2 hover:bg-white/10 rounded-full text-gray-500 hover:text-rose-400 disabled:opacity-50"><Icons.Delete size={16} /></button>
+                        )}
+                        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
+                    </div>
                 </div>
 
-                <div className="flex-1 overflow-y-auto mb-6 pr-2">
-                    {response ? (
-                         <div className="prose prose-invert prose-sm max-w-none bg-white/5 p-4 rounded-xl border border-white/5">
-                            {response.split('\n').map((line, i) => <p key={i} className="mb-2 last:mb-0">{line}</p>)}
-                         </div>
-                    ) : (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+                    {PERSONAS.map(p => (
+                        <button key={p.id} onClick={() => setPersona(p.id)} title={p.description} className={`text-left px-3 py-2 rounded-lg border text-xs transition-colors ${persona === p.id ? 'bg-indigo-500/20 border-indigo-500/50 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}>
+                            <div className="font-bold">{p.label}</div>
+                            <div className="text-[10px] text-gray-500 mt-0.5 line-clamp-2">{p.description}</div>
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex-1 overflow-y-auto mb-4 pr-2 space-y-3">
+                    {chat.length === 0 && !loading ? (
                         <div className="text-center py-12 text-gray-500">
                             <Icons.Bot className="w-12 h-12 mx-auto mb-3 opacity-20" />
-                            <p>Modos: Inversor Escéptico, Analista Técnico (MSP/Niza) o Calculadora PYME.</p>
-                            <p className="text-sm mt-2">"¿En qué proyecto trabajamos hoy: TAOASIS o GUTEN?"</p>
+                            <p>{project ? `Conversación sobre ${project.title}. Elige un modo y pregunta.` : 'Elige un proyecto para conversar.'}</p>
+                            <p className="text-sm mt-2">El asistente ve todas las tareas, sus estados, descripciones, contexto y comentarios recientes.</p>
                         </div>
-                    )}
+                    ) : chat.map(message => message.role === 'user' ? (
+                        <div key={message.id} className="flex flex-col items-end">
+                            <span className="text-[10px] text-gray-500 mb-1">{nameOf(message.createdBy)} · {getPersona(message.persona).label}</span>
+                            <div className="bg-indigo-600/30 border border-indigo-500/30 rounded-xl px-4 py-2 text-sm text-white max-w-[85%] whitespace-pre-wrap">{message.content}</div>
+                        </div>
+                    ) : (
+                        <div key={message.id} className="flex flex-col items-start">
+                            <span className="text-[10px] text-gray-500 mb-1">{getPersona(message.persona).label} · {new Date(message.createdAt).toLocaleString('es-UY', { dateStyle: 'short', timeStyle: 'short' })}</span>
+                            <div className={`prose prose-invert prose-sm max-w-[85%] p-4 rounded-xl border ${message.failed ? 'bg-rose-500/10 border-rose-500/30 text-rose-300' : 'bg-white/5 border-white/5'}`}>
+                                {message.content.split('\n').map((line, i) => <p key={i} className="mb-2 last:mb-0">{line}</p>)}
+                            </div>
+                        </div>
+                    ))}
+                    {loading && <div className="flex items-center gap-2 text-xs text-gray-500"><div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> {getPersona(persona).label} está pensando…</div>}
+                    <div ref={endRef} />
                 </div>
 
                 <div className="relative">
@@ -333,118 +937,768 @@ const AIModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                         value={query}
                         onChange={(e) => setQuery(e.target.value)}
                         onKeyDown={(e) => e.key === 'Enter' && handleAsk()}
-                        placeholder="Ej: ¿Cuál es el Landed Cost de este producto?"
+                        placeholder={canAsk ? 'Ej: ¿Cuál es el Landed Cost de este producto?' : 'Solo lectura: necesitas poder comentar en el proyecto'}
                         className="w-full bg-black/30 border border-white/10 rounded-xl py-4 pl-4 pr-12 text-white focus:outline-none focus:border-indigo-500/50"
-                        disabled={loading}
+                        disabled={loading || !canAsk}
                     />
                     <button 
                         onClick={handleAsk}
-                        disabled={loading || !query.trim()}
+                        disabled={loading || !canAsk || !query.trim()}
                         className="absolute right-2 top-2 p-2 bg-indigo-600 rounded-lg text-white disabled:opacity-50 hover:bg-indigo-500 transition-colors"
                     >
                         {loading ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : <Icons.ArrowRight size={20} />}
                     </button>
                 </div>
+                {project && <p className="text-[10px] text-gray-600 mt-2">Contexto enviado: ≈ {estimateTokens(context)} tokens del proyecto y hasta {HISTORY_TOKEN_BUDGET} de la conversación previa.</p>}
             </div>
         </div>
     )
 }
 
-const StatsModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+// Hours per person and day for one week, across the projects the current user can see
+const WeeklyTimeReport: React.FC = () => {
     const ctx = useContext(AppContext);
+    const [weekStart, setWeekStart] = useState(() => startOfWeek(toDateKey(new Date())));
+    const [openUserId, setOpenUserId] = useState<string | null>(null);
     if (!ctx) return null;
 
-    const totalProjects = ctx.state.projects.length;
-    let totalTasks = 0;
-    let completedTasks = 0;
-
-    ctx.state.projects.forEach(p => {
-        const countTasks = (tasks: Task[]) => {
-            tasks.forEach(t => {
-                totalTasks++;
-                if (t.status === TaskStatus.COMPLETED) completedTasks++;
-                countTasks(t.subtasks);
-            });
-        };
-        countTasks(p.tasks);
-    });
+    const projects = ctx.state.projects.filter(p => ctx.can('view', p.id));
+    const rows = weeklyTimeReport(projects, weekStart);
+    const days = listDays(weekStart, 7);
+    const dayTotals = days.map((_, i) => rows.reduce((sum, row) => sum + row.days[i], 0));
+    const total = dayTotals.reduce((sum, minutes) => sum + minutes, 0);
+    const nameOf = (id: string) => ctx.users.find(u => u.id === id)?.name || 'Usuario desconocido';
+    const cell = (minutes: number) => minutes > 0 ? formatMinutes(minutes) : '—';
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-4 text-sm text-gray-300">
+                <button onClick={() => setWeekStart(addDays(weekStart, -7))} className="p-1.5 rounded-lg hover:bg-white/10 text-gray-400 rotate-180"><Icons.Expand size={16} /></button>
+                <span>Semana del {formatDateKey(weekStart)} al {formatDateKey(days[6])}</span>
+                <button onClick={() => setWeekStart(addDays(weekStart, 7))} className="p-1.5 rounded-lg hover:bg-white/10 text-gray-400"><Icons.Expand size={16} /></button>
+            </div>
+            {rows.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">Nadie registró tiempo esta semana.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs text-gray-300">
+                        <thead>
+                            <tr className="text-[10px] uppercase tracking-wider text-gray-500">
+                                <th className="text-left font-normal py-2">Persona</th>
+                                {WEEKDAY_LABELS.map(label => <th key={label} className="text-right font-normal py-2 px-1">{label}</th>)}
+                                <th className="text-right font-normal py-2 pl-2">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => (
+                                <React.Fragment key={row.userId}>
+                                    <tr onClick={() => setOpenUserId(openUserId === row.userId ? null : row.userId)} className="border-t border-white/5 cursor-pointer hover:bg-white/5">
+                                        <td className="py-2 truncate max-w-[120px]">{nameOf(row.userId)}</td>
+                                        {row.days.map((minutes, i) => <td key={i} className={`text-right py-2 px-1 font-mono ${minutes > 0 ? '' : 'text-gray-600'}`}>{cell(minutes)}</td>)}
+                                        <td className="text-right py-2 pl-2 font-mono text-emerald-400">{formatMinutes(row.total)}</td>
+                                    </tr>
+                                    {openUserId === row.userId && row.projects.map(p => (
+                                        <tr key={p.projectId} className="text-gray-500">
+                                            <td colSpan={8} className="pl-4 py-1 truncate">{p.title}</td>
+                                            <td className="text-right py-1 pl-2 font-mono">{formatMinutes(p.minutes)}</td>
+                                        </tr>
+                                    ))}
+                                </React.Fragment>
+                            ))}
+                            <tr className="border-t border-white/10 text-gray-400">
+                                <td className="py-2">Total</td>
+                                {dayTotals.map((minutes, i) => <td key={i} className="text-right py-2 px-1 font-mono">{cell(minutes)}</td>)}
+                                <td className="text-right py-2 pl-2 font-mono text-white">{formatMinutes(total)}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Budget against actual spend for the open project, per top-level task, plus the shared rate table
+const BudgetModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const ctx = useContext(AppContext);
+    const [rateDrafts, setRateDrafts] = useState<Partial<Record<Currency, string>>>({});
+    if (!ctx) return null;
+
+    const project = ctx.state.projects.find(p => p.id === ctx.activeProjectId);
+    if (!project) return null;
+
+    const rates = ctx.state.exchangeRates;
+    const currency = getProjectCurrency(project);
+    const totals = getProjectCosts(project, rates, currency);
+    const rows = project.tasks.filter(hasCosts).map(task => ({ task, totals: getTaskCosts(task, currency, rates) }));
+    const ratio = totals.planned > 0 ? totals.actual / totals.planned : 0;
+    const isAdmin = ctx.currentUser.accountRole === 'admin';
+    const nameOf = (id: string) => ctx.users.find(u => u.id === id)?.name || 'Usuario desconocido';
 
-    const completionRate = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+    const commitRate = (code: Currency) => {
+        const draft = rateDrafts[code];
+        if (draft === undefined) return;
+        const rate = draft.trim() ? Number(draft.replace(',', '.')) : 0;
+        if (!Number.isFinite(rate) || rate < 0) { alert('El tipo de cambio debe ser un número positivo.'); return; }
+        ctx.setExchangeRate(code, rate);
+        setRateDrafts(prev => { const next = { ...prev }; delete next[code]; return next; });
+    };
 
     return (
-        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
-            <div className="bg-[#111115] border border-emerald-500/30 rounded-2xl w-full max-w-lg p-8 shadow-2xl shadow-emerald-900/20 animate-slide-up" onClick={e => e.stopPropagation()}>
-                <div className="flex justify-between items-center mb-8">
-                    <h3 className="text-2xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
-                        <Icons.Chart className="text-emerald-400" />
-                        Estadísticas Globales
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-2xl p-6 shadow-2xl animate-slide-up max-h-[85vh] overflow-y-auto custom-scrollbar" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className="text-xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
+                        <Icons.Budget className="text-indigo-400" />
+                        Presupuesto de {project.title}
                     </h3>
                     <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
-                    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 flex flex-col items-center justify-center">
-                        <span className="text-4xl font-display font-bold text-white mb-2">{totalProjects}</span>
-                        <span className="text-xs text-gray-400 uppercase tracking-widest">Proyectos</span>
+                <div className="flex items-center justify-between mb-3 text-xs text-gray-400">
+                    <span>Importes en</span>
+                    <select value={currency} disabled={!ctx.can('edit', project.id)} onChange={e => ctx.updateProject(project.id, { currency: e.target.value as Currency })} className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white disabled:opacity-50">
+                        {CURRENCIES.map(c => <option key={c.code} value={c.code} className="bg-[#111115]">{c.code} · {c.label}</option>)}
+                    </select>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3 mb-3">
+                    <div className="bg-white/5 p-4 rounded-xl border border-white/5">
+                        <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Presupuesto</p>
+                        <p className="font-mono text-white">{formatMoney(totals.planned, currency)}</p>
                     </div>
-                    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 flex flex-col items-center justify-center">
-                        <span className="text-4xl font-display font-bold text-emerald-400 mb-2">{completionRate}%</span>
-                        <span className="text-xs text-gray-400 uppercase tracking-widest">Progreso Total</span>
+                    <div className="bg-white/5 p-4 rounded-xl border border-white/5">
+                        <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Gasto real</p>
+                        <p className={`font-mono ${ratio > 1 ? 'text-rose-300' : 'text-white'}`}>{formatMoney(totals.actual, currency)}</p>
                     </div>
-                    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 flex flex-col items-center justify-center col-span-2">
-                        <div className="flex justify-between w-full mb-2 text-sm text-gray-300">
-                            <span>Tareas Completadas</span>
-                            <span className="font-mono">{completedTasks}/{totalTasks}</span>
-                        </div>
-                        <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
-                            <div className="h-full bg-emerald-500 transition-all duration-1000" style={{ width: `${completionRate}%` }}></div>
-                        </div>
+                    <div className="bg-white/5 p-4 rounded-xl border border-white/5">
+                        <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Disponible</p>
+                        <p className={`font-mono ${totals.planned - totals.actual < 0 ? 'text-rose-300' : 'text-emerald-300'}`}>{formatMoney(totals.planned - totals.actual, currency)}</p>
+                    </div>
+                </div>
+                {totals.planned > 0 && (
+                    <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden mb-3">
+                        <div className={`h-full ${ratio > 1 ? 'bg-rose-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(ratio, 1) * 100}%` }}></div>
+                    </div>
+                )}
+                {totals.missingRates.length > 0 && <p className="text-xs text-amber-300/80 mb-3">Hay importes en {totals.missingRates.join(', ')} sin tipo de cambio; no se incluyen en los totales.</p>}
+
+                {rows.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-6">Todavía no hay costos. Añádelos desde el detalle de cada tarea.</p>
+                ) : (
+                    <table className="w-full text-xs text-gray-300 mb-6">
+                        <thead>
+                            <tr className="text-[10px] uppercase tracking-wider text-gray-500">
+                                <th className="text-left font-normal py-2">Tarea</th>
+                                <th className="text-right font-normal py-2">Presupuesto</th>
+                                <th className="text-right font-normal py-2">Real</th>
+                                <th className="text-right font-normal py-2">Diferencia</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(({ task, totals: t }) => (
+                                <tr key={task.id} onClick={() => { onClose(); ctx.openTaskDetail(task); }} className="border-t border-white/5 cursor-pointer hover:bg-white/5">
+                                    <td className="py-2 truncate max-w-[220px]">{task.title}</td>
+                                    <td className="text-right py-2 font-mono">{formatMoney(t.planned, currency)}</td>
+                                    <td className="text-right py-2 font-mono">{formatMoney(t.actual, currency)}</td>
+                                    <td className={`text-right py-2 font-mono ${t.planned - t.actual < 0 ? 'text-rose-300' : 'text-gray-400'}`}>{formatMoney(t.planned - t.actual, currency)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                <div className="border-t border-white/10 pt-4">
+                    <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-2">Tipos de cambio (compartidos por todos los proyectos)</p>
+                    <div className="space-y-1.5">
+                        {CURRENCIES.filter(c => c.code !== BASE_CURRENCY).map(c => {
+                            const stored = rates.find(r => r.currency === c.code);
+                            return (
+                                <div key={c.code} className="flex items-center gap-2 text-xs text-gray-400">
+                                    <span className="w-24">1 {c.code} =</span>
+                                    <input
+                                        value={rateDrafts[c.code] ?? (stored ? String(stored.rate) : '')}
+                                        readOnly={!isAdmin}
+                                        inputMode="decimal"
+                                        placeholder="Sin definir"
+                                        onChange={e => setRateDrafts(prev => ({ ...prev, [c.code]: e.target.value }))}
+                                        onBlur={() => commitRate(c.code)}
+                                        onKeyDown={e => e.key === 'Enter' && commitRate(c.code)}
+                                        className="w-28 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white text-right"
+                                    />
+                                    <span>{BASE_CURRENCY}</span>
+                                    {stored && <span className="text-[10px] text-gray-600">· {nameOf(stored.updatedBy)}, {new Date(stored.updatedAt).toLocaleDateString()}</span>}
+                                </div>
+                            );
+                        })}
                     </div>
+                    {!isAdmin && <p className="text-[10px] text-gray-600 mt-2">Solo un administrador puede cambiar los tipos de cambio.</p>}
                 </div>
             </div>
         </div>
-    )
-}
-
-const ProgressRing: React.FC<{ progress: number; size?: number; stroke?: number; colorClass?: string }> = ({ progress, size = 32, stroke = 4, colorClass = 'text-primary' }) => {
-  const radius = (size - stroke) / 2;
-  const circumference = radius * 2 * Math.PI;
-  const offset = circumference - (progress / 100) * circumference;
-  
-  return (
-    <div className="relative flex items-center justify-center" style={{ width: size, height: size }}>
-      <svg className="transform -rotate-90 w-full h-full">
-        <circle cx={size/2} cy={size/2} r={radius} stroke="currentColor" strokeWidth={stroke} fill="transparent" className="text-white/10" />
-        <circle 
-          cx={size/2} cy={size/2} r={radius} 
-          stroke="currentColor" strokeWidth={stroke} fill="transparent" 
-          strokeDasharray={circumference} strokeDashoffset={offset} 
-          className={`transition-all duration-500 ease-out ${progress === 100 ? 'text-green-400' : colorClass}`}
-          strokeLinecap="round"
-        />
-      </svg>
-      {progress > 0 && progress < 100 && (
-         <span className="absolute text-[10px] font-bold text-white">{progress}</span>
-      )}
-      {progress === 100 && <Icons.Check size={size/1.5} className="absolute text-green-400" />}
-    </div>
-  );
+    );
 };
 
-// ... TaskCard (keep as is) ...
-const TaskCard: React.FC<{ task: Task; depth: number; themeIndex: number }> = ({ task, depth, themeIndex }) => {
-  const ctx = useContext(AppContext);
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+// Lightweight SVG line chart in the spirit of ProgressRing; series share one y scale starting at 0
+const LineChart: React.FC<{ labels: string[]; series: { name: string; values: number[]; colorClass: string }[] }> = ({ labels, series }) => {
+    const max = Math.max(1, ...series.flatMap(s => s.values));
+    const x = (i: number) => labels.length > 1 ? (i / (labels.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2;
+    const y = (value: number) => CHART_HEIGHT - (value / max) * (CHART_HEIGHT - 8);
+    return (
+        <div>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-40">
+                {[0.25, 0.5, 0.75, 1].map(f => <line key={f} x1={0} x2={CHART_WIDTH} y1={y(max * f)} y2={y(max * f)} stroke="currentColor" className="text-white/5" vectorEffect="non-scaling-stroke" />)}
+                {series.map(s => (
+                    <polyline key={s.name} points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(' ')} fill="none" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" className={s.colorClass} />
+                ))}
+            </svg>
+            <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+                <span>{labels[0] && formatDateKey(labels[0])}</span>
+                <span className="flex gap-3">{series.map(s => <span key={s.name} className={`flex items-center gap-1 ${s.colorClass}`}><span className="w-2 h-0.5 bg-current inline-block"></span>{s.name} {s.values[s.values.length - 1] ?? 0}</span>)}</span>
+                <span>{labels.length > 1 && formatDateKey(labels[labels.length - 1])}</span>
+            </div>
+        </div>
+    );
+};
+
+const BarChart: React.FC<{ bars: { label: string; value: number }[]; colorClass: string }> = ({ bars, colorClass }) => {
+    const max = Math.max(1, ...bars.map(b => b.value));
+    const slot = CHART_WIDTH / Math.max(bars.length, 1);
+    return (
+        <div>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-32">
+                {bars.map((b, i) => {
+                    const height = (b.value / max) * (CHART_HEIGHT - 8);
+                    return (
+                        <rect key={b.label} x={i * slot + slot * 0.15} width={slot * 0.7} y={CHART_HEIGHT - height} height={height} rx={2} fill="currentColor" className={colorClass}>
+                            <title>{`Semana del ${formatDateKey(b.label)}: ${b.value}`}</title>
+                        </rect>
+                    );
+                })}
+            </svg>
+            <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+                <span>{bars[0] && formatDateKey(bars[0].label)}</span>
+                <span>{bars.length > 1 && formatDateKey(bars[bars.length - 1].label)}</span>
+            </div>
+        </div>
+    );
+};
+
+const ANALYTICS_RANGES = [30, 90, 180, 365];
+
+// Burn-up/down, throughput, lead time, contributors and stale work for the projects the user can see
+const AnalyticsDashboard: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const ctx = useContext(AppContext);
+    const today = toDateKey(new Date());
+    const [filter, setFilter] = useState<AnalyticsFilter>(() => ({ from: addDays(today, -29), to: today, projectIds: [] }));
+    const [burn, setBurn] = useState<'up' | 'down'>('up');
+    const [staleDays, setStaleDays] = useState(STALE_DAY_OPTIONS[1]);
+
+    const projects = useMemo(() => ctx ? ctx.state.projects.filter(p => ctx.can('view', p.id)) : [], [ctx?.state.projects, ctx?.can]);
+    const timelines = useMemo(() => buildTimelines(projects), [projects]);
+    const report = useMemo(() => {
+        const range = filter.from <= filter.to ? filter : { ...filter, from: filter.to, to: filter.from };
+        const scoped = filterTimelines(timelines, range);
+        const scopedProjects = range.projectIds.length === 0 ? projects : projects.filter(p => range.projectIds.includes(p.id));
+        return {
+            burn: burnSeries(scoped, range),
+            throughput: weeklyThroughput(scoped, range),
+            leadDays: averageLeadDays(scoped, range),
+            contributors: topContributors(scopedProjects, scoped, range),
+            perProject: summarizeProjects(scoped, range),
+            scope: scoped.length,
+            done: scoped.filter(t => t.doneAt !== undefined).length,
+        };
+    }, [timelines, projects, filter]);
+    const stale = useMemo(() => findStaleTasks(filterTimelines(timelines, filter), staleDays), [timelines, filter, staleDays]);
+    if (!ctx) return null;
+
+    const nameOf = (id: string) => ctx.users.find(u => u.id === id)?.name || 'Usuario desconocido';
+    const completedInRange = report.throughput.reduce((sum, w) => sum + w.count, 0);
+    const progress = report.scope > 0 ? Math.round((report.done / report.scope) * 100) : 0;
+    const update = (changes: Partial<AnalyticsFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+    const openTask = (project: Project, task: Task) => {
+        onClose();
+        ctx.setActiveProjectId(project.id);
+        ctx.openTaskDetail(task);
+    };
+    const selectClass = "bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white";
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                {ANALYTICS_RANGES.map(days => (
+                    <button key={days} onClick={() => update({ from: addDays(today, -(days - 1)), to: today })} className={`px-2 py-1 rounded-lg border transition-colors ${filter.to === today && filter.from === addDays(today, -(days - 1)) ? 'bg-emerald-500/20 border-emerald-500/30 text-emerald-300' : 'border-white/10 hover:text-white'}`}>{days} días</button>
+                ))}
+                <input type="date" value={filter.from} max={filter.to} onChange={e => e.target.value && update({ from: e.target.value })} className={selectClass} />
+                <span>→</span>
+                <input type="date" value={filter.to} min={filter.from} onChange={e => e.target.value && update({ to: e.target.value })} className={selectClass} />
+                <select value={filter.projectIds[0] || ''} onChange={e => update({ projectIds: e.target.value ? [e.target.value] : [] })} className={selectClass}>
+                    <option value="" className="bg-[#111115]">Todos los proyectos</option>
+                    {projects.map(p => <option key={p.id} value={p.id} className="bg-[#111115]">{p.title}</option>)}
+                </select>
+                <select value={filter.assigneeId || ''} onChange={e => update({ assigneeId: e.target.value || undefined })} className={selectClass}>
+                    <option value="" className="bg-[#111115]">Todas las personas</option>
+                    {ctx.users.map(u => <option key={u.id} value={u.id} className="bg-[#111115]">{u.name}</option>)}
+                </select>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="bg-white/5 p-4 rounded-2xl border border-white/5 flex items-center gap-3">
+                    <ProgressRing progress={progress} size={44} stroke={5} colorClass="text-emerald-400" />
+                    <div>
+                        <p className="font-mono text-white">{report.done}/{report.scope}</p>
+                        <p className="text-[10px] text-gray-500 uppercase tracking-widest">Completadas</p>
+                    </div>
+                </div>
+                <div className="bg-white/5 p-4 rounded-2xl border border-white/5">
+                    <p className="text-2xl font-display font-bold text-emerald-400">{completedInRange}</p>
+                    <p className="text-[10px] text-gray-500 uppercase tracking-widest">En el período</p>
+                </div>
+                <div className="bg-white/5 p-4 rounded-2xl border border-white/5">
+                    <p className="text-2xl font-display font-bold text-white">{report.leadDays === null ? '—' : `${report.leadDays.toFixed(1)} d`}</p>
+                    <p className="text-[10px] text-gray-500 uppercase tracking-widest">Creación → cierre</p>
+                </div>
+                <div className="bg-white/5 p-4 rounded-2xl border border-white/5">
+                    <p className={`text-2xl font-display font-bold ${stale.length > 0 ? 'text-amber-300' : 'text-white'}`}>{stale.length}</p>
+                    <p className="text-[10px] text-gray-500 uppercase tracking-widest">Sin actividad</p>
+                </div>
+            </div>
+
+            <section>
+                <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-xs font-bold uppercase tracking-widest text-gray-500">{burn === 'up' ? 'Burn-up' : 'Burn-down'}</h4>
+                    <div className="flex gap-1 text-[10px]">
+                        {(['up', 'down'] as const).map(mode => <button key={mode} onClick={() => setBurn(mode)} className={`px-2 py-0.5 rounded ${burn === mode ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-white'}`}>{mode === 'up' ? 'Burn-up' : 'Burn-down'}</button>)}
+                    </div>
+                </div>
+                <LineChart
+                    labels={report.burn.map(p => p.date)}
+                    series={burn === 'up'
+                        ? [{ name: 'Alcance', values: report.burn.map(p => p.scope), colorClass: 'text-gray-500' }, { name: 'Hechas', values: report.burn.map(p => p.done), colorClass: 'text-emerald-400' }]
+                        : [{ name: 'Pendientes', values: report.burn.map(p => p.scope - p.done), colorClass: 'text-indigo-400' }]}
+                />
+            </section>
+
+            <section>
+                <h4 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-2">Completadas por semana</h4>
+                <BarChart bars={report.throughput.map(w => ({ label: w.weekStart, value: w.count }))} colorClass="text-emerald-500/70" />
+            </section>
+
+            <div className="grid md:grid-cols-2 gap-6">
+                <section>
+                    <h4 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-2">Quién más aporta</h4>
+                    {report.contributors.length === 0 ? <p className="text-xs text-gray-600">Sin actividad en el período.</p> : (
+                        <div className="space-y-1.5">
+                            {report.contributors.map(c => (
+                                <div key={c.userId} className="flex items-center gap-2 text-xs text-gray-300">
+                                    <Avatar user={ctx.users.find(u => u.id === c.userId)} size="w-5 h-5" />
+                                    <span className="flex-1 truncate">{nameOf(c.userId)}</span>
+                                    <span className="text-gray-500">{c.completed} completadas · {c.comments} comentarios · {c.total} acciones</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </section>
+                <section>
+                    <h4 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-2">Por proyecto</h4>
+                    <div className="space-y-2">
+                        {report.perProject.map(row => (
+                            <div key={row.project.id} className="text-xs text-gray-300">
+                                <div className="flex justify-between mb-1">
+                                    <span className="truncate">{row.project.title}</span>
+                                    <span className="text-gray-500 font-mono">{row.done}/{row.scope} · +{row.completedInRange}</span>
+                                </div>
+                                <div className="w-full h-1.5 bg-white/10 rounded-full overflow-hidden">
+                                    <div className="h-full bg-emerald-500" style={{ width: `${row.scope > 0 ? (row.done / row.scope) * 100 : 0}%` }}></div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            </div>
+
+            <section>
+                <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-xs font-bold uppercase tracking-widest text-gray-500">Tareas estancadas</h4>
+                    <select value={staleDays} onChange={e => setStaleDays(Number(e.target.value))} className={selectClass}>
+                        {STALE_DAY_OPTIONS.map(days => <option key={days} value={days} className="bg-[#111115]">{days}+ días sin actividad</option>)}
+                    </select>
+                </div>
+                {stale.length === 0 ? <p className="text-xs text-gray-600">Nada estancado.</p> : (
+                    <div className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                        {stale.map(({ task, project, idleDays }) => (
+                            <button key={task.id} onClick={() => openTask(project, task)} className="w-full flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/5 text-xs text-gray-300 hover:bg-white/10 text-left">
+                                <span className="flex-1 truncate">{task.title}</span>
+                                <span className="text-gray-500 truncate max-w-[140px]">{project.title}</span>
+                                <span className="text-amber-300/80 font-mono shrink-0">{idleDays} d</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </section>
+        </div>
+    );
+};
+
+const StatsModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const [tab, setTab] = useState<'analytics' | 'time'>('analytics');
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-[#111115] border border-emerald-500/30 rounded-2xl w-full max-w-4xl p-8 shadow-2xl shadow-emerald-900/20 animate-slide-up max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className="text-2xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
+                        <Icons.Chart className="text-emerald-400" />
+                        Estadísticas Globales
+                    </h3>
+                    <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
+                </div>
+
+                <div className="flex gap-1 p-1 bg-white/5 rounded-xl mb-6 w-fit">
+                    {([['analytics', 'Análisis'], ['time', 'Horas']] as const).map(([id, label]) => (
+                        <button key={id} onClick={() => setTab(id)} className={`px-4 py-1.5 rounded-lg text-xs transition-colors ${tab === id ? 'bg-emerald-500/20 text-emerald-300' : 'text-gray-400 hover:text-white'}`}>{label}</button>
+                    ))}
+                </div>
+
+                {tab === 'time' ? <WeeklyTimeReport /> : <AnalyticsDashboard onClose={onClose} />}
+            </div>
+        </div>
+    )
+}
+
+const IMPORT_ACTION_LABELS: Record<ImportAction, string> = {
+    create: 'Crear nuevo',
+    replace: 'Reemplazar',
+    merge: 'Combinar',
+    skip: 'Omitir',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+    title: 'título',
+    description: 'descripción',
+    status: 'estado',
+    tags: 'etiquetas',
+    aiContext: 'contexto IA',
+    suggestedSteps: 'sugerencias',
+    createdBy: 'creador',
+    assignees: 'responsables',
+    blockedBy: 'dependencias',
+    recurrence: 'recurrencia',
+    cycles: 'ciclos',
+    startDate: 'inicio',
+    dueDate: 'vencimiento',
+    reminderDaysBefore: 'recordatorio',
+    estimateHours: 'estimación',
+    weight: 'peso',
+    manualProgress: 'progreso manual',
+    runningTimers: 'cronómetros',
+};
+
+const ImportModal: React.FC<{ bundle: ExportBundle; onClose: () => void }> = ({ bundle, onClose }) => {
+    const ctx = useContext(AppContext);
+    const [policy, setPolicy] = useState<ConflictPolicy>('incoming');
+    // Only projects the user can edit are offered as targets; the rest are not even listed
+    const [rows, setRows] = useState<{ action: ImportAction; targetId: string }[]>(() => bundle.projects.map(incoming => {
+        const target = ctx?.state.projects.find(p => p.id === incoming.id && ctx.can('edit', p.id));
+        return { action: target ? 'merge' : 'create', targetId: target?.id || '' };
+    }));
+    const [openRow, setOpenRow] = useState<number | null>(null);
+    const [importing, setImporting] = useState(false);
+
+    const allProjects: Project[] = ctx?.state.projects || [];
+    const localProjects = allProjects.filter(p => !!ctx && ctx.can('edit', p.id));
+    const planImports = (incomingProjects: Project[]) => {
+        // New copies must not reuse the id of any local project, editable or not
+        const existingIds = new Set<string>(allProjects.map(p => p.id));
+        return incomingProjects.map((incoming, i) => {
+            const { action, targetId } = rows[i];
+            if (action === 'skip') return null;
+            return planProjectImport(action, incoming, localProjects.find(p => p.id === targetId), existingIds, policy);
+        });
+    };
+    const plans = useMemo(() => planImports(bundle.projects), [bundle, rows, policy, allProjects]);
+
+    if (!ctx) return null;
+
+    const updateRow = (index: number, updates: Partial<{ action: ImportAction; targetId: string }>) => {
+        setRows(prev => prev.map((row, i) => {
+            if (i !== index) return row;
+            const next = { ...row, ...updates };
+            // Replace and merge need a target; default to the first local project
+            if (next.action !== 'create' && next.action !== 'skip' && !next.targetId) next.targetId = localProjects[0]?.id || '';
+            if (next.action !== 'create' && next.action !== 'skip' && !next.targetId) next.action = 'create';
+            return next;
+        }));
+    };
+
+    const handleImport = async () => {
+        // Blobs and users are written first, so every target is checked before anything is stored
+        if (rows.some(row => (row.action === 'replace' || row.action === 'merge') && !ctx.can('edit', row.targetId))) {
+            alert(`${describeDenied('edit')} No se importó nada.`);
+            return;
+        }
+        setImporting(true);
+        let rekeyed: Record<string, string>;
+        try {
+            rekeyed = await importBundleBlobs(bundle, storage);
+        } catch (e) {
+            console.warn(e);
+            alert(describeStorageError(e));
+            setImporting(false);
+            return;
+        }
+        ctx.mergeUsers(bundle.users);
+        // Blobs that collided with local ones were stored under new ids; plan again with those
+        const finalPlans = Object.keys(rekeyed).length > 0 ? planImports(bundle.projects.map(p => rekeyBlobIds(p, rekeyed))) : plans;
+        finalPlans.forEach((plan, i) => {
+            if (!plan) return;
+            const target = localProjects.find(p => p.id === rows[i].targetId);
+            if (rows[i].action === 'create' || !target) ctx.addProject(plan.project.title, plan.project.subtitle, plan.project);
+            else ctx.importProject(target.id, plan.project);
+        });
+        onClose();
+    };
+
+    const exporter = ctx.users.find(u => u.id === bundle.exportedBy) || bundle.users.find(u => u.id === bundle.exportedBy);
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-2xl p-6 shadow-2xl animate-slide-up flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start mb-6">
+                    <div>
+                        <h3 className="text-2xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
+                            <Icons.Upload className="text-indigo-400" />
+                            Importar Proyectos
+                        </h3>
+                        <p className="text-xs text-gray-500 mt-1">
+                            Exportado el {new Date(bundle.exportedAt).toLocaleString()}{exporter ? ` por ${exporter.name}` : ''} · {bundle.projects.length} proyecto(s)
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
+                </div>
+
+                <div className="flex items-center justify-between gap-4 mb-4 text-xs">
+                    <span className="text-gray-400 uppercase tracking-widest font-bold">En conflictos conservar</span>
+                    <div className="flex bg-white/5 rounded-lg p-1 border border-white/10">
+                        {(['incoming', 'local'] as ConflictPolicy[]).map(option => (
+                            <button key={option} onClick={() => setPolicy(option)} className={`px-3 py-1.5 rounded-md transition-colors ${policy === option ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}>
+                                {option === 'incoming' ? 'Lo importado' : 'Lo local'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar space-y-3 mb-6 pr-1">
+                    {bundle.projects.map((incoming, i) => {
+                        const row = rows[i];
+                        const plan = plans[i];
+                        return (
+                            <div key={`${incoming.id}-${i}`} className="bg-white/5 border border-white/5 rounded-xl p-4">
+                                <div className="flex flex-col md:flex-row md:items-center gap-3">
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-white font-medium truncate">{incoming.title}</div>
+                                        <div className="text-xs text-gray-500 truncate">{incoming.subtitle}</div>
+                                    </div>
+                                    <select value={row.action} onChange={e => updateRow(i, { action: e.target.value as ImportAction })} className="bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white">
+                                        {(Object.keys(IMPORT_ACTION_LABELS) as ImportAction[])
+                                            .filter(action => action === 'create' || action === 'skip' || localProjects.length > 0)
+                                            .map(action => <option key={action} value={action}>{IMPORT_ACTION_LABELS[action]}</option>)}
+                                    </select>
+                                    {(row.action === 'replace' || row.action === 'merge') && (
+                                        <select value={row.targetId} onChange={e => updateRow(i, { targetId: e.target.value })} className="bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white max-w-[180px]">
+                                            {localProjects.map(p => <option key={p.id} value={p.id}>{p.title}</option>)}
+                                        </select>
+                                    )}
+                                </div>
+
+                                {plan && (
+                                    <button onClick={() => setOpenRow(openRow === i ? null : i)} className="flex flex-wrap items-center gap-2 mt-3 text-[11px]">
+                                        <span className="px-2 py-0.5 rounded bg-emerald-500/10 text-emerald-400 border border-emerald-500/20">+{plan.preview.added.length} nuevas</span>
+                                        <span className="px-2 py-0.5 rounded bg-amber-500/10 text-amber-400 border border-amber-500/20">{plan.preview.changed.length} con cambios</span>
+                                        {row.action === 'replace' && <span className="px-2 py-0.5 rounded bg-rose-500/10 text-rose-400 border border-rose-500/20">-{plan.preview.removed.length} eliminadas</span>}
+                                        <span className="px-2 py-0.5 rounded bg-white/5 text-gray-400 border border-white/10">{plan.preview.unchanged} sin cambios</span>
+                                        {openRow === i ? <Icons.Collapse size={14} className="text-gray-500" /> : <Icons.Expand size={14} className="text-gray-500" />}
+                                    </button>
+                                )}
+
+                                {plan && openRow === i && (
+                                    <div className="mt-3 space-y-1 text-xs max-h-48 overflow-y-auto custom-scrollbar">
+                                        {plan.preview.added.map(c => <div key={`a-${c.id}`} className="text-emerald-400">+ {c.title}</div>)}
+                                        {plan.preview.changed.map(c => (
+                                            <div key={`c-${c.id}`} className="text-amber-400">
+                                                ~ {c.title} <span className="text-gray-500">({c.fields.map(f => FIELD_LABELS[f] || f).join(', ')}) · se conserva {policy === 'incoming' || row.action === 'replace' ? 'lo importado' : 'lo local'}</span>
+                                            </div>
+                                        ))}
+                                        {row.action === 'replace' && plan.preview.removed.map(c => <div key={`r-${c.id}`} className="text-rose-400">- {c.title}</div>)}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 text-gray-400 hover:text-white text-sm font-medium transition-colors">Cancelar</button>
+                    <button onClick={handleImport} disabled={importing || plans.every(p => !p)} className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                        {importing ? 'Importando...' : 'Importar'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ProgressRing: React.FC<{ progress: number; size?: number; stroke?: number; colorClass?: string }> = ({ progress, size = 32, stroke = 4, colorClass = 'text-primary' }) => {
+  const radius = (size - stroke) / 2;
+  const circumference = radius * 2 * Math.PI;
+  const offset = circumference - (progress / 100) * circumference;
+  
+  return (
+    <div className="relative flex items-center justify-center" style={{ width: size, height: size }}>
+      <svg className="transform -rotate-90 w-full h-full">
+        <circle cx={size/2} cy={size/2} r={radius} stroke="currentColor" strokeWidth={stroke} fill="transparent" className="text-white/10" />
+        <circle 
+          cx={size/2} cy={size/2} r={radius} 
+          stroke="currentColor" strokeWidth={stroke} fill="transparent" 
+          strokeDasharray={circumference} strokeDashoffset={offset} 
+          className={`transition-all duration-500 ease-out ${progress === 100 ? 'text-green-400' : colorClass}`}
+          strokeLinecap="round"
+        />
+      </svg>
+      {progress > 0 && progress < 100 && (
+         <span className="absolute text-[10px] font-bold text-white">{progress}</span>
+      )}
+      {progress === 100 && <Icons.Check size={size/1.5} className="absolute text-green-400" />}
+    </div>
+  );
+};
+
+// ... TaskCard (keep as is) ...
+const STATUS_STYLES: Record<StatusColor, string> = {
+    slate: 'bg-slate-500/10 border-slate-500/30 text-slate-300',
+    indigo: 'bg-indigo-500/10 border-indigo-500/30 text-indigo-300',
+    violet: 'bg-violet-500/10 border-violet-500/30 text-violet-300',
+    amber: 'bg-amber-500/10 border-amber-500/30 text-amber-300',
+    rose: 'bg-rose-500/10 border-rose-500/30 text-rose-300',
+    emerald: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300',
+    cyan: 'bg-cyan-500/10 border-cyan-500/30 text-cyan-300',
+};
+
+const DUE_STYLES: Record<Exclude<DueState, 'none'>, string> = {
+    overdue: 'bg-rose-500/10 border-rose-500/30 text-rose-400',
+    due_soon: 'bg-amber-500/10 border-amber-500/30 text-amber-400',
+    upcoming: 'bg-white/5 border-white/5 text-gray-400',
+};
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {splitHighlights(text, terms).map((segment, i) => segment.match
+      ? <mark key={i} className="bg-amber-400/30 text-inherit rounded-sm">{segment.text}</mark>
+      : <React.Fragment key={i}>{segment.text}</React.Fragment>)}
+  </>
+);
+
+const TagChip: React.FC<{ name: string; color?: StatusColor; onRemove?: () => void }> = ({ name, color = 'slate', onRemove }) => (
+  <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] border ${STATUS_STYLES[color]}`}>
+    #{name}
+    {onRemove && <button onClick={onRemove} className="pointer-events-auto opacity-60 hover:opacity-100"><Icons.Close size={10} /></button>}
+  </span>
+);
+
+// Chips plus an input that suggests the project's tags; a name that matches none creates a new tag
+const TagEditor: React.FC<{ tags: string[]; canEdit: boolean; onChange: (tags: string[]) => void }> = ({ tags, canEdit, onChange }) => {
+  const projectTags = useActiveTags();
+  const [query, setQuery] = useState('');
+  const [highlight, setHighlight] = useState(0);
+
+  const typed = normalizeTagName(query);
+  const options = typed ? [
+    ...suggestTags(projectTags, typed, tags).map(t => ({ name: t.name, isNew: false })),
+    ...(findTag(projectTags, typed) ? [] : [{ name: typed, isNew: true }]),
+  ] : [];
+
+  const add = (name: string) => {
+    if (!tags.some(tag => sameTag(tag, name))) onChange([...tags, name]);
+    setQuery('');
+    setHighlight(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') { e.preventDefault(); setHighlight(h => Math.min(h + 1, options.length - 1)); }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); setHighlight(h => Math.max(h - 1, 0)); }
+    else if ((e.key === 'Enter' || e.key === ',') && options.length > 0) { e.preventDefault(); add(options[Math.min(highlight, options.length - 1)].name); }
+    else if (e.key === 'Backspace' && !query && tags.length > 0) onChange(tags.slice(0, -1));
+    else if (e.key === 'Escape') setQuery('');
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2">
+        {tags.map(tag => <TagChip key={tag} name={tag} color={findTag(projectTags, tag)?.color} onRemove={canEdit ? () => onChange(tags.filter(t => t !== tag)) : undefined} />)}
+        {tags.length === 0 && !canEdit && <span className="text-xs text-gray-600">Sin etiquetas</span>}
+        {canEdit && (
+          <input value={query} onChange={e => { setQuery(e.target.value); setHighlight(0); }} onKeyDown={handleKeyDown} placeholder="Añadir etiqueta..." className="flex-1 min-w-[120px] bg-transparent text-xs text-white placeholder:text-gray-600 focus:outline-none py-1" />
+        )}
+      </div>
+      {options.length > 0 && (
+        <div className="absolute z-20 mt-2 w-64 bg-[#18181c] border border-white/10 rounded-xl shadow-2xl py-1">
+          {options.map((option, index) => (
+            <button key={option.name} onMouseDown={e => { e.preventDefault(); add(option.name); }} onMouseEnter={() => setHighlight(index)} className={`w-full text-left px-3 py-1.5 text-xs flex items-center gap-2 ${index === highlight ? 'bg-white/10 text-white' : 'text-gray-400'}`}>
+              {option.isNew ? <><Icons.Add size={12} /> Crear «{option.name}»</> : <TagChip name={option.name} color={findTag(projectTags, option.name)?.color} />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LONG_PRESS_MS = 500;
+
+const TaskCard: React.FC<{ task: Task; depth: number; themeIndex: number; onSelect?: (taskId: string, range: boolean) => void }> = ({ task, depth, themeIndex, onSelect }) => {
+  const ctx = useContext(AppContext);
   const [dropPosition, setDropPosition] = useState<'before' | 'after' | 'inside' | null>(null);
+  const workflow = useActiveWorkflow();
+  const progressRules = useActiveProgressRules();
+  const projectTags = useActiveTags();
+  const queryEnv = useQueryEnv();
+  const cardRef = useRef<HTMLDivElement>(null);
+  const pressTimerRef = useRef<number | null>(null);
+  const suppressClickRef = useRef(false);
+  const isFocused = ctx?.focusedTaskId === task.id;
+
+  useEffect(() => {
+      if (isFocused) cardRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isFocused]);
 
   if (!ctx) return null;
 
   const isDragging = ctx.draggedTaskId === task.id;
-  const progress = getTaskProgress(task);
+  // Ancestors shown only to reach a match are not matches themselves
+  const isSearchMatch = !!ctx.parsedQuery.root && matchesQuery(task, ctx.parsedQuery.root, queryEnv);
+  const hiddenMatches = isSearchMatch ? describeHiddenMatches(task, ctx.parsedQuery.terms) : [];
+  const progress = getTaskProgress(task, progressRules);
   const isLeaf = task.subtasks.length === 0;
+  const status = findStatus(workflow, task.status);
+  const isDone = status.progress >= 100;
   const hasAttachments = task.attachments.length > 0;
   const hasComments = task.activity.length > 1;
-  const isOwner = task.createdBy === ctx.currentUser.id;
-  const owner = ctx.users.find(u => u.id === task.createdBy); 
+  const canEdit = ctx.can('edit');
+  const canSelect = canEdit && !!onSelect;
+  const isSelected = ctx.selectedTaskIds.includes(task.id);
+  const selecting = ctx.selectedTaskIds.length > 0;
+  const assignees = task.assignees.map(id => ctx.users.find(u => u.id === id)).filter((u): u is User => !!u);
+  const schedule = getTaskSchedule(task);
+  const dueState = getDueState(task, workflow);
+  const project = ctx.state.projects.find(p => p.id === ctx.activeProjectId);
+  const openBlockers = project && !isDone ? getOpenBlockers(project, task, workflow) : [];
+  const trackedMinutes = getTrackedMinutes(task);
+  const estimateHours = getEstimatedHours(task);
+  const timing = hasRunningTimer(task);
   const theme = TASK_THEMES[themeIndex % TASK_THEMES.length];
   
   const cardStyle = depth === 0 
@@ -477,7 +1731,7 @@ const TaskCard: React.FC<{ task: Task; depth: number; themeIndex: number }> = ({
   const handleDragOver = (e: React.DragEvent) => {
       e.preventDefault(); 
       e.stopPropagation();
-      if (!ctx.draggedTaskId || ctx.draggedTaskId === task.id) return;
+      if (!canEdit || !ctx.draggedTaskId || ctx.draggedTaskId === task.id) return;
       e.dataTransfer.dropEffect = 'move';
       const pos = getDropPositionFromEvent(e);
       if (dropPosition !== pos) {
@@ -499,11 +1753,42 @@ const TaskCard: React.FC<{ task: Task; depth: number; themeIndex: number }> = ({
 
   const handleStatusClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!isOwner) {
-        alert(`Solo ${owner?.name} puede completar esta tarea.`);
+    if (canEdit && isLeaf) ctx.toggleTaskStatus(task.id);
+  };
+
+  // While a selection exists a plain click keeps selecting instead of opening the task
+  const handleCardClick = (e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+        suppressClickRef.current = false;
         return;
     }
-    if (isLeaf) ctx.toggleTaskStatus(task.id);
+    if (canSelect && (e.shiftKey || e.ctrlKey || e.metaKey || selecting)) {
+        onSelect!(task.id, e.shiftKey);
+        return;
+    }
+    ctx.setFocusedTaskId(task.id);
+    ctx.openTaskDetail(task);
+  };
+
+  const cancelLongPress = () => {
+    if (pressTimerRef.current !== null) window.clearTimeout(pressTimerRef.current);
+    pressTimerRef.current = null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!canSelect || e.pointerType !== 'touch') return;
+    e.stopPropagation();
+    cancelLongPress();
+    pressTimerRef.current = window.setTimeout(() => {
+        pressTimerRef.current = null;
+        suppressClickRef.current = true;
+        onSelect!(task.id, false);
+    }, LONG_PRESS_MS);
+  };
+
+  const handleSelectClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelect?.(task.id, e.shiftKey);
   };
 
   const handleAddSubtask = (e: React.MouseEvent) => {
@@ -518,26 +1803,36 @@ const TaskCard: React.FC<{ task: Task; depth: number; themeIndex: number }> = ({
       {depth > 0 && <div className="absolute top-8 left-0 w-6 h-[1px] bg-white/5"></div>}
 
       <div 
-        draggable
+        draggable={canEdit}
         onDragStart={handleDragStart}
         onDragEnd={handleDragEnd}
         onDragOver={handleDragOver}
         onDrop={handleDrop}
-        onClick={() => ctx.openTaskDetail(task)}
-        className={`relative rounded-xl p-5 transition-all duration-300 cursor-pointer border backdrop-blur-sm ${cardStyle} ${task.status === TaskStatus.COMPLETED && isLeaf ? 'opacity-50 grayscale' : 'opacity-100'} ${isDragging ? 'opacity-30 scale-95' : ''}`}
+        onClick={handleCardClick}
+        onPointerDown={handlePointerDown}
+        onPointerUp={cancelLongPress}
+        onPointerCancel={cancelLongPress}
+        onPointerLeave={cancelLongPress}
+        ref={cardRef}
+        className={`group/card relative rounded-xl p-5 transition-all duration-300 cursor-pointer border backdrop-blur-sm select-none md:select-auto ${cardStyle} ${isDone && isLeaf && !isSelected ? 'opacity-50 grayscale' : 'opacity-100'} ${isDragging ? 'opacity-30 scale-95' : ''} ${isSelected ? 'ring-2 ring-indigo-500 bg-indigo-500/10' : isSearchMatch ? 'ring-1 ring-amber-400/40' : ''} ${isFocused ? 'outline outline-2 outline-indigo-400/70 outline-offset-2' : ''}`}
       >
+        {canSelect && (
+            <button onClick={handleSelectClick} title="Seleccionar (Shift+clic para un rango)" className={`absolute -left-2 -top-2 z-10 w-5 h-5 rounded-md border flex items-center justify-center transition-opacity ${isSelected ? 'bg-indigo-600 border-indigo-400 text-white opacity-100' : `bg-[#111115] border-white/20 text-transparent hover:border-white/50 ${selecting ? 'opacity-100' : 'opacity-0 group-hover/card:opacity-100'}`}`}>
+                <Icons.Check size={12} />
+            </button>
+        )}
         {!isDragging && dropPosition === 'before' && <div className="absolute -top-2 left-0 right-0 h-1 bg-cyan-400 shadow-[0_0_15px_rgba(34,211,238,0.8)] z-50 rounded-full pointer-events-none"></div>}
         {!isDragging && dropPosition === 'after' && <div className="absolute -bottom-2 left-0 right-0 h-1 bg-cyan-400 shadow-[0_0_15px_rgba(34,211,238,0.8)] z-50 rounded-full pointer-events-none"></div>}
         {!isDragging && dropPosition === 'inside' && <div className="absolute inset-0 border-2 border-indigo-500 rounded-xl pointer-events-none bg-indigo-500/10 z-50 animate-pulse"></div>}
 
         <div className="flex items-start justify-between gap-4 pointer-events-none">
             <div className="flex items-start gap-4 flex-1">
-                <div onClick={handleStatusClick} className={`pointer-events-auto cursor-pointer transition-transform mt-1 ${isOwner ? 'hover:scale-110' : 'cursor-not-allowed opacity-50'}`}>
+                <div onClick={handleStatusClick} className={`pointer-events-auto cursor-pointer transition-transform mt-1 ${canEdit ? 'hover:scale-110' : 'cursor-not-allowed opacity-50'}`}>
                 {isLeaf ? (
-                    task.status === TaskStatus.COMPLETED ? 
+                    isDone ? 
                     <div className="w-8 h-8 rounded-full bg-green-500/20 border border-green-500 flex items-center justify-center text-green-500"><Icons.Check size={20} /></div> :
-                    <div className={`w-8 h-8 rounded-full border border-white/30 ${isOwner ? 'hover:border-white' : ''} flex items-center justify-center`}>
-                        {!isOwner && <Icons.Lock size={12} className="text-gray-500" />}
+                    <div className={`w-8 h-8 rounded-full border border-white/30 ${canEdit ? 'hover:border-white' : ''} flex items-center justify-center`}>
+                        {!canEdit && <Icons.Lock size={12} className="text-gray-500" />}
                     </div>
                 ) : (
                     <ProgressRing progress={progress} size={32} stroke={4} colorClass={theme.text} />
@@ -546,22 +1841,55 @@ const TaskCard: React.FC<{ task: Task; depth: number; themeIndex: number }> = ({
 
                 <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1">
-                        <h3 className={`font-display font-medium text-xl leading-snug pb-1 truncate ${task.status === TaskStatus.COMPLETED ? 'line-through text-gray-500' : 'text-gray-100'}`}>
-                        {task.title}
+                        <h3 className={`font-display font-medium text-xl leading-snug pb-1 truncate ${isDone ? 'line-through text-gray-500' : 'text-gray-100'}`}>
+                        <Highlighted text={task.title} terms={ctx.parsedQuery.terms} />
                         </h3>
                         {hasAttachments && <Icons.Link size={12} className={theme.text} />}
                         {hasComments && <div className={`w-1.5 h-1.5 rounded-full ${theme.bg.replace('/5','')} ${theme.text}`}></div>}
                     </div>
-                    {task.description && <p className="text-sm text-gray-400 truncate mb-3">{task.description}</p>}
+                    {task.description && <p className="text-sm text-gray-400 truncate mb-3"><Highlighted text={task.description} terms={ctx.parsedQuery.terms} /></p>}
+                    {hiddenMatches.length > 0 && <p className="text-[10px] text-amber-300/80 mb-3">También coincide en {hiddenMatches.join(', ')}</p>}
+                    {task.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5 mb-3">
+                            {task.tags.map(tag => <TagChip key={tag} name={tag} color={findTag(projectTags, tag)?.color} />)}
+                        </div>
+                    )}
                     
                     <div className="flex items-center gap-3">
-                        <div className="flex items-center gap-1.5 bg-white/5 px-2 py-1 rounded text-[10px] text-gray-400 border border-white/5">
-                            <Avatar user={owner} size="w-4 h-4" />
-                            {owner?.name}
-                        </div>
-                        <button onClick={handleAddSubtask} className="pointer-events-auto flex items-center gap-1.5 text-xs font-semibold px-3 py-1 rounded-lg transition-colors duration-200 bg-white/5 text-gray-400 hover:bg-white/10 hover:text-gray-200">
-                            <Icons.Add size={12} /> Agregar
-                        </button>
+                        {assignees.length > 0 ? (
+                            <div className="flex items-center gap-1.5 bg-white/5 px-2 py-1 rounded text-[10px] text-gray-400 border border-white/5" title={assignees.map(u => u.name).join(', ')}>
+                                <div className="flex -space-x-1.5">{assignees.slice(0, 3).map(u => <Avatar key={u.id} user={u} size="w-4 h-4 ring-1 ring-[#050505]" />)}</div>
+                                {assignees.length === 1 ? assignees[0].name : `${assignees.length} personas`}
+                            </div>
+                        ) : (
+                            isLeaf && <div className="px-2 py-1 rounded text-[10px] text-gray-600 border border-dashed border-white/10">Sin asignar</div>
+                        )}
+                        {isLeaf && !isDone && <span className={`px-2 py-1 rounded text-[10px] border ${STATUS_STYLES[status.color]}`}>{status.label}</span>}
+                        {task.recurrence && (
+                            <div title={describeRecurrence(task.recurrence)} className="flex items-center gap-1 px-2 py-1 rounded text-[10px] border border-white/10 text-gray-400">
+                                <Icons.Repeat size={10} />{(task.cycles?.length || 0) > 0 && ` ${task.cycles!.length}`}
+                            </div>
+                        )}
+                        {(trackedMinutes > 0 || estimateHours > 0 || timing) && (
+                            <div title={timing ? 'Cronómetro en marcha' : 'Tiempo registrado / estimado'} className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] border ${estimateHours > 0 && trackedMinutes > estimateHours * 60 ? 'border-amber-500/30 bg-amber-500/10 text-amber-300' : 'border-white/10 text-gray-400'}`}>
+                                <Icons.Clock size={10} className={timing ? 'text-emerald-400 animate-pulse' : ''} /> {formatMinutes(trackedMinutes)}{estimateHours > 0 && ` / ${formatMinutes(estimateHours * 60)}`}
+                            </div>
+                        )}
+                        {openBlockers.length > 0 && (
+                            <div title={`Esperando a: ${openBlockers.map(b => b.title).join(', ')}`} className="flex items-center gap-1 px-2 py-1 rounded text-[10px] border border-rose-500/30 bg-rose-500/10 text-rose-300">
+                                <Icons.Blocked size={10} /> Bloqueada{openBlockers.length > 1 ? ` (${openBlockers.length})` : ''}
+                            </div>
+                        )}
+                        {dueState !== 'none' && schedule.dueDate && (
+                            <div title={describeReminder({ ...task, dueDate: schedule.dueDate })} className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] border ${DUE_STYLES[dueState]}`}>
+                                <Icons.Calendar size={10} /> {formatDateKey(schedule.dueDate)}
+                            </div>
+                        )}
+                        {canEdit && (
+                            <button onClick={handleAddSubtask} className="pointer-events-auto flex items-center gap-1.5 text-xs font-semibold px-3 py-1 rounded-lg transition-colors duration-200 bg-white/5 text-gray-400 hover:bg-white/10 hover:text-gray-200">
+                                <Icons.Add size={12} /> Agregar
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
@@ -572,79 +1900,428 @@ const TaskCard: React.FC<{ task: Task; depth: number; themeIndex: number }> = ({
             )}
         </div>
       </div>
-      {task.expanded && <div className="mt-3">{task.subtasks.map(sub => <TaskCard key={sub.id} task={sub} depth={depth + 1} themeIndex={themeIndex} />)}</div>}
+      {task.expanded && <div className="mt-3">{task.subtasks.map(sub => <TaskCard key={sub.id} task={sub} depth={depth + 1} themeIndex={themeIndex} onSelect={onSelect} />)}</div>}
     </div>
   );
 };
 
-const TaskDetailModal: React.FC<{ task: Task; onClose: () => void }> = ({ task, onClose }) => {
-    const ctx = useContext(AppContext);
-    const [newComment, setNewComment] = useState('');
-    const [activeTab, setActiveTab] = useState<'info' | 'ai'>('info');
-    const [isGeneratingAI, setIsGeneratingAI] = useState(false);
-    const [linkUrl, setLinkUrl] = useState('');
-    const [showLinkInput, setShowLinkInput] = useState(false);
-    
-    const [isRecording, setIsRecording] = useState(false);
-    const mediaRecorder = useRef<MediaRecorder | null>(null);
-    const audioChunks = useRef<Blob[]>([]);
+const AttachmentItem: React.FC<{ attachment: Attachment; onRemove?: () => void }> = ({ attachment: att, onRemove }) => {
+    const url = useAttachmentUrl(att);
 
-    const commentsRef = useRef<HTMLDivElement>(null);
+    return (
+        <div className="group relative flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/5 hover:border-white/20 transition-all hover:bg-white/10">
+            <div className="w-10 h-10 rounded-lg bg-indigo-500/20 flex items-center justify-center text-indigo-400 shrink-0 overflow-hidden">
+                {att.type === 'image' && url ? <img src={url} alt={att.name} className="w-full h-full object-cover" /> :
+                 att.type === 'link' ? <Icons.Link size={20} /> : att.type === 'audio' ? <Icons.Audio size={20} /> : att.type === 'video' ? <Icons.Video size={20} /> : <Icons.File size={20} />}
+            </div>
+            <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-200 truncate">{att.name}</div>
+                <div className="text-[10px] text-gray-500">{new Date(att.createdAt).toLocaleDateString()}</div>
+            </div>
+            {att.type === 'audio' && url && (
+                <audio controls src={url} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+            )}
+            {att.type === 'link' && <a href={att.url} target="_blank" rel="noreferrer" className="absolute inset-0" />}
+            {att.type !== 'link' && att.type !== 'audio' && url && <a href={url} download={att.name} target="_blank" rel="noreferrer" className="absolute inset-0" />}
+            {onRemove && (
+                <button onClick={onRemove} title="Mover a la papelera" className="relative z-10 p-1.5 rounded-lg text-gray-500 hover:text-rose-500 hover:bg-rose-500/10 opacity-0 group-hover:opacity-100 transition-opacity"><Icons.Delete size={14} /></button>
+            )}
+        </div>
+    );
+};
 
-    useEffect(() => {
-        if (commentsRef.current) commentsRef.current.scrollTop = commentsRef.current.scrollHeight;
-    }, [task.activity]);
+const VISIBLE_CYCLES = 3;
 
+// The rule plus the closed cycles, newest first; a checklist's items show who ticked them off
+const RecurrenceEditor: React.FC<{ task: Task; canEdit: boolean }> = ({ task, canEdit }) => {
+    const ctx = useContext(AppContext);
+    const [showAllCycles, setShowAllCycles] = useState(false);
     if (!ctx) return null;
-    const project = ctx.state.projects.find(p => p.id === ctx.activeProjectId);
 
-    const handleAddComment = (e: React.FormEvent) => {
-        e.preventDefault();
-        if (newComment.trim()) {
-            ctx.addActivity(task.id, newComment, 'comment');
-            setNewComment('');
-        }
-    };
+    const rule = task.recurrence;
+    const cycles = [...(task.cycles || [])].reverse();
+    const visibleCycles = showAllCycles ? cycles : cycles.slice(0, VISIBLE_CYCLES);
+    const nameOf = (id?: string) => ctx.users.find(u => u.id === id)?.name || 'Usuario desconocido';
 
-    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            try {
-                const base64 = await fileToBase64(file);
-                ctx.addAttachment(task.id, 'document', file.name, base64);
-            } catch (err) {
-                alert("Error al subir archivo. Intenta con uno más pequeño.");
-            }
-        }
+    const update = (changes: Partial<RecurrenceRule>) => ctx.updateTask(task.id, { recurrence: normalizeRecurrence({ interval: 1, ...rule, ...changes }) });
+
+    const handleFrequencyChange = (value: string) => {
+        if (!value) ctx.updateTask(task.id, { recurrence: undefined });
+        else update({ frequency: value as RecurrenceFrequency });
     };
 
-    const handleAddLink = () => {
-        if(linkUrl.trim()) {
-            ctx.addAttachment(task.id, 'link', linkUrl, linkUrl);
-            setLinkUrl('');
-            setShowLinkInput(false);
-        }
-    }
+    const toggleWeekday = (day: number) => {
+        const weekdays = rule?.weekdays || [];
+        update({ weekdays: weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day] });
+    };
 
-    const startRecording = async () => {
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            mediaRecorder.current = new MediaRecorder(stream);
-            audioChunks.current = [];
-            
-            mediaRecorder.current.ondataavailable = (e) => {
-                if (e.data.size > 0) audioChunks.current.push(e.data);
-            };
-            
-            mediaRecorder.current.onstop = () => {
-                const audioBlob = new Blob(audioChunks.current, { type: 'audio/webm' });
-                const reader = new FileReader();
-                reader.readAsDataURL(audioBlob);
-                reader.onloadend = () => {
-                    const base64 = reader.result as string;
-                    ctx.addAttachment(task.id, 'audio', `Nota de voz ${new Date().toLocaleTimeString()}`, base64);
-                };
-                stream.getTracks().forEach(track => track.stop());
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                <select value={rule?.frequency || ''} disabled={!canEdit} onChange={e => handleFrequencyChange(e.target.value)} className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white disabled:opacity-50">
+                    <option value="">No se repite</option>
+                    {RECURRENCE_OPTIONS.map(option => <option key={option.frequency} value={option.frequency}>{option.label}</option>)}
+                </select>
+                {rule && (
+                    <label className="flex items-center gap-2">
+                        {rule.frequency === 'after_completion' ? 'a los' : 'cada'}
+                        <input type="number" min={1} value={rule.interval} disabled={!canEdit} onChange={e => update({ interval: Number(e.target.value) })} className="w-16 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white disabled:opacity-50" />
+                        {{ daily: 'día(s)', weekly: 'semana(s)', monthly: 'mes(es)', after_completion: 'día(s) de completarla' }[rule.frequency]}
+                    </label>
+                )}
+            </div>
+            {rule?.frequency === 'weekly' && (
+                <div className="flex gap-1">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                        <button key={label} disabled={!canEdit} onClick={() => toggleWeekday(day)} className={`w-9 py-1 rounded-lg text-[10px] border transition-colors ${rule.weekdays?.includes(day) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}>{label}</button>
+                    ))}
+                </div>
+            )}
+            {rule && (
+                <p className="text-xs text-gray-500">
+                    {describeRecurrence(rule)}. Al completarla vuelve a empezar el {formatDateKey(nextOccurrence(rule, getTaskSchedule(task).dueDate))}{task.subtasks.length > 0 ? ' con sus subtareas pendientes' : ''}.
+                </p>
+            )}
+            {cycles.length > 0 && (
+                <div className="space-y-1.5">
+                    <p className="text-[10px] uppercase tracking-wider text-gray-500">Ciclos cerrados ({cycles.length})</p>
+                    {visibleCycles.map(cycle => (
+                        <details key={cycle.id} className="rounded-lg bg-white/5 border border-white/5 px-3 py-2 text-xs text-gray-300">
+                            <summary className={cycle.checklist.length > 0 ? 'cursor-pointer' : 'list-none'}>
+                                {cycle.dueDate ? formatDateKey(cycle.dueDate) : 'Sin fecha'} · cerrado el {new Date(cycle.completedAt).toLocaleDateString()} por {nameOf(cycle.completedBy)}
+                                {cycle.checklist.length > 0 && <span className="text-gray-500"> · {cycle.checklist.length} puntos</span>}
+                            </summary>
+                            {cycle.checklist.length > 0 && (
+                                <ul className="mt-2 space-y-1">
+                                    {cycle.checklist.map((item, i) => (
+                                        <li key={i} className="flex items-center gap-2 text-gray-400">
+                                            <Icons.Check size={12} className="text-green-500 shrink-0" />
+                                            <span className="truncate flex-1">{item.title}</span>
+                                            {item.doneAt && <span className="text-[10px] text-gray-600 whitespace-nowrap">{nameOf(item.doneBy)} · {new Date(item.doneAt).toLocaleDateString()}</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </details>
+                    ))}
+                    {cycles.length > VISIBLE_CYCLES && (
+                        <button onClick={() => setShowAllCycles(!showAllCycles)} className="text-[10px] text-indigo-400 hover:text-indigo-300">
+                            {showAllCycles ? 'Ver menos' : `Ver los ${cycles.length}`}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const formatElapsed = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
+// Estimate, the current user's timer and the entries logged on this task; totals include subtasks
+const TimeTracker: React.FC<{ project: Project; task: Task; canEdit: boolean }> = ({ project, task, canEdit }) => {
+    const ctx = useContext(AppContext);
+    const [now, setNow] = useState(Date.now());
+    const [duration, setDuration] = useState('');
+    const [date, setDate] = useState(() => toDateKey(new Date()));
+    const [userId, setUserId] = useState(ctx?.currentUser?.id || '');
+    const [note, setNote] = useState('');
+    const timer = ctx?.currentUser ? findRunningTimer(task, ctx.currentUser.id) : undefined;
+
+    useEffect(() => {
+        if (!timer) return;
+        setNow(Date.now());
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [timer]);
+
+    if (!ctx || !ctx.currentUser) return null;
+
+    const tracked = getTrackedMinutes(task);
+    const estimate = getEstimatedHours(task);
+    const fromSubtasks = tracked - (task.timeEntries || []).reduce((sum, e) => sum + e.minutes, 0);
+    const ratio = estimate > 0 ? tracked / (estimate * 60) : 0;
+    const members = project.members.map(m => ctx.users.find(u => u.id === m.userId)).filter((u): u is User => !!u);
+    const others = (task.runningTimers || []).filter(t => t.userId !== ctx.currentUser!.id);
+    const entries = [...(task.timeEntries || [])].sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt);
+    const nameOf = (id: string) => ctx.users.find(u => u.id === id)?.name || 'Usuario desconocido';
+
+    const handleEstimateChange = (value: string) => {
+        const hours = Number(value.replace(',', '.'));
+        ctx.updateTask(task.id, { estimateHours: value && Number.isFinite(hours) && hours > 0 ? hours : undefined });
+    };
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const minutes = parseDuration(duration);
+        if (!minutes) { alert('Escribe una duración como 1:30, 1,5 h o 45m.'); return; }
+        if (minutes > MAX_ENTRY_MINUTES) { alert(`Una entrada no puede superar ${formatMinutes(MAX_ENTRY_MINUTES)}.`); return; }
+        ctx.addTimeEntry(task.id, { userId: userId || ctx.currentUser!.id, date, minutes, note: note.trim() || undefined });
+        setDuration('');
+        setNote('');
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+                <label className="flex items-center gap-2">
+                    Estimación
+                    <input type="number" min={0} step={0.25} value={task.estimateHours ?? ''} readOnly={!canEdit} onChange={e => handleEstimateChange(e.target.value)} placeholder="—" className="w-20 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white" />
+                    h
+                </label>
+                {task.subtasks.length > 0 && estimate > 0 && <span className="text-gray-500">Subtareas: {formatMinutes(estimate * 60)}</span>}
+                {canEdit && (timer ? (
+                    <button onClick={() => ctx.stopTaskTimer(task.id)} className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg bg-rose-500/10 border border-rose-500/30 text-rose-300 hover:bg-rose-500/20 font-mono">
+                        <Icons.Stop size={12} /> {formatElapsed(now - timer.startedAt)}
+                    </button>
+                ) : (
+                    <button onClick={() => ctx.startTaskTimer(task.id)} className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg bg-emerald-500/10 border border-emerald-500/30 text-emerald-300 hover:bg-emerald-500/20">
+                        <Icons.Play size={12} /> Iniciar cronómetro
+                    </button>
+                ))}
+            </div>
+            <div>
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                    <span>{formatMinutes(tracked)} registrados{fromSubtasks > 0 ? ` (${formatMinutes(fromSubtasks)} en subtareas)` : ''}</span>
+                    {estimate > 0 && <span className={ratio > 1 ? 'text-amber-300' : ''}>{Math.round(ratio * 100)}% de {formatMinutes(estimate * 60)}</span>}
+                </div>
+                {estimate > 0 && (
+                    <div className="w-full h-1.5 bg-white/10 rounded-full overflow-hidden">
+                        <div className={`h-full ${ratio > 1 ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${Math.min(ratio, 1) * 100}%` }}></div>
+                    </div>
+                )}
+            </div>
+            {others.length > 0 && <p className="text-[10px] text-emerald-400/80">Cronómetro en marcha: {others.map(t => nameOf(t.userId)).join(', ')}</p>}
+            {canEdit && (
+                <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+                    <input value={duration} onChange={e => setDuration(e.target.value)} placeholder="1:30" className="w-20 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white" />
+                    <input type="date" value={date} onChange={e => e.target.value && setDate(e.target.value)} className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white" />
+                    <select value={userId} onChange={e => setUserId(e.target.value)} className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white">
+                        {members.map(u => <option key={u.id} value={u.id} className="bg-[#111115]">{u.name}</option>)}
+                    </select>
+                    <input value={note} onChange={e => setNote(e.target.value)} placeholder="Nota (opcional)" className="flex-1 min-w-[120px] bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white" />
+                    <button type="submit" disabled={!duration.trim()} className="px-3 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-xs text-white disabled:opacity-50">Registrar</button>
+                </form>
+            )}
+            {entries.length > 0 && (
+                <div className="space-y-1">
+                    {entries.map(entry => (
+                        <div key={entry.id} className="group flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/5 text-xs text-gray-300">
+                            <span className="font-mono w-20 shrink-0">{formatMinutes(entry.minutes)}</span>
+                            <span className="text-gray-500 shrink-0">{formatDateKey(entry.date)}</span>
+                            <span className="shrink-0">{nameOf(entry.userId)}</span>
+                            {entry.source === 'timer' && <Icons.Clock size={10} className="text-gray-500 shrink-0" />}
+                            <span className="truncate flex-1 text-gray-500">{entry.note}</span>
+                            {canEdit && <button onClick={() => ctx.removeTimeEntry(task.id, entry.id)} title="Quitar" className="text-gray-500 hover:text-rose-400 opacity-0 group-hover:opacity-100"><Icons.Close size={12} /></button>}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Cost lines of this task; the totals also count its subtasks, in the project's currency
+const CostEditor: React.FC<{ project: Project; task: Task; canEdit: boolean }> = ({ project, task, canEdit }) => {
+    const ctx = useContext(AppContext);
+    const [kind, setKind] = useState<CostLine['kind']>('planned');
+    const [label, setLabel] = useState('');
+    const [amount, setAmount] = useState('');
+    const [currency, setCurrency] = useState<Currency>(() => getProjectCurrency(project));
+    if (!ctx) return null;
+
+    const projectCurrency = getProjectCurrency(project);
+    const totals = getTaskCosts(task, projectCurrency, ctx.state.exchangeRates);
+    const lines = task.costs || [];
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const value = Number(amount.replace(',', '.'));
+        if (!label.trim() || !Number.isFinite(value) || value <= 0) { alert('Indica un concepto y un importe mayor que cero.'); return; }
+        ctx.addCostLine(task.id, { kind, label: label.trim(), amount: value, currency });
+        setLabel('');
+        setAmount('');
+    };
+
+    return (
+        <div className="space-y-3">
+            {(lines.length > 0 || hasCosts(task)) && (
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                    <div className="rounded-lg bg-white/5 border border-white/5 px-3 py-2">
+                        <p className="text-[10px] uppercase tracking-wider text-gray-500">Presupuesto</p>
+                        <p className="font-mono text-gray-200">{formatMoney(totals.planned, projectCurrency)}</p>
+                    </div>
+                    <div className="rounded-lg bg-white/5 border border-white/5 px-3 py-2">
+                        <p className="text-[10px] uppercase tracking-wider text-gray-500">Gasto real</p>
+                        <p className={`font-mono ${totals.planned > 0 && totals.actual > totals.planned ? 'text-rose-300' : 'text-gray-200'}`}>{formatMoney(totals.actual, projectCurrency)}</p>
+                    </div>
+                </div>
+            )}
+            {totals.missingRates.length > 0 && <p className="text-[10px] text-amber-300/80">Sin tipo de cambio para {totals.missingRates.join(', ')}; esos importes no se suman.</p>}
+            {lines.length > 0 && (
+                <div className="space-y-1">
+                    {lines.map(line => (
+                        <div key={line.id} className="group flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/5 text-xs text-gray-300">
+                            <span className={`px-1.5 py-0.5 rounded text-[10px] border shrink-0 ${line.kind === 'actual' ? 'border-emerald-500/30 text-emerald-300' : 'border-indigo-500/30 text-indigo-300'}`}>{COST_KIND_LABELS[line.kind]}</span>
+                            <span className="truncate flex-1">{line.label}</span>
+                            <span className="font-mono shrink-0">{formatMoney(line.amount, line.currency)}</span>
+                            {canEdit && <button onClick={() => ctx.removeCostLine(task.id, line.id)} title="Quitar" className="text-gray-500 hover:text-rose-400 opacity-0 group-hover:opacity-100"><Icons.Close size={12} /></button>}
+                        </div>
+                    ))}
+                </div>
+            )}
+            {canEdit && (
+                <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+                    <select value={kind} onChange={e => setKind(e.target.value as CostLine['kind'])} className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white">
+                        {(Object.keys(COST_KIND_LABELS) as CostLine['kind'][]).map(k => <option key={k} value={k} className="bg-[#111115]">{COST_KIND_LABELS[k]}</option>)}
+                    </select>
+                    <input value={label} onChange={e => setLabel(e.target.value)} placeholder="Concepto" className="flex-1 min-w-[120px] bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white" />
+                    <input value={amount} onChange={e => setAmount(e.target.value)} inputMode="decimal" placeholder="0,00" className="w-24 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white text-right" />
+                    <select value={currency} onChange={e => setCurrency(e.target.value as Currency)} className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white">
+                        {CURRENCIES.map(c => <option key={c.code} value={c.code} className="bg-[#111115]">{c.code}</option>)}
+                    </select>
+                    <button type="submit" disabled={!label.trim() || !amount.trim()} className="px-3 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-xs text-white disabled:opacity-50">Añadir</button>
+                </form>
+            )}
+        </div>
+    );
+};
+
+// Both directions of a link, each with a picker limited to tasks that would not close a cycle
+const DependencyEditor: React.FC<{ project: Project; task: Task; canEdit: boolean }> = ({ project, task, canEdit }) => {
+    const ctx = useContext(AppContext);
+    const workflow = useActiveWorkflow();
+    if (!ctx) return null;
+
+    const blockers = getBlockers(project, task);
+    const blocked = getBlockedTasks(project, task.id);
+    const others = flattenTasks(project.tasks).filter(t => t.id !== task.id);
+    const blockerOptions = others.filter(t => !findDependencyError(project, task.id, t.id));
+    const blockedOptions = others.filter(t => !findDependencyError(project, t.id, task.id));
+
+    const renderLink = (other: Task, onRemove: () => void) => {
+        const done = isTaskDone(other, workflow);
+        return (
+            <div key={other.id} className="flex items-center gap-2 pl-2 pr-1 py-1 rounded-full bg-white/5 border border-white/10 text-xs">
+                {done ? <Icons.Check size={12} className="text-green-500" /> : <Icons.Circle size={12} className="text-gray-500" />}
+                <button onClick={() => ctx.openTaskDetail(other)} className={`truncate max-w-[200px] hover:text-indigo-300 ${done ? 'text-gray-500 line-through' : 'text-gray-200'}`}>{other.title}</button>
+                {canEdit && <button onClick={onRemove} className="text-gray-500 hover:text-rose-400"><Icons.Close size={12} /></button>}
+            </div>
+        );
+    };
+
+    const renderPicker = (options: Task[], label: string, onPick: (id: string) => void) => canEdit && options.length > 0 && (
+        <select value="" onChange={e => e.target.value && onPick(e.target.value)} className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-xs text-indigo-300 max-w-[200px]">
+            <option value="">{label}</option>
+            {options.map(t => <option key={t.id} value={t.id} className="bg-[#111115] text-white">{t.title}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-2">Bloqueada por</p>
+                <div className="flex flex-wrap items-center gap-2">
+                    {blockers.map(b => renderLink(b, () => ctx.removeTaskDependency(task.id, b.id)))}
+                    {blockers.length === 0 && <span className="text-xs text-gray-600">Nada</span>}
+                    {renderPicker(blockerOptions, '+ Bloqueada por', id => ctx.addTaskDependency(task.id, id))}
+                </div>
+            </div>
+            <div>
+                <p className="text-[10px] uppercase tracking-wider text-gray-500 mb-2">Bloquea a</p>
+                <div className="flex flex-wrap items-center gap-2">
+                    {blocked.map(t => renderLink(t, () => ctx.removeTaskDependency(t.id, task.id)))}
+                    {blocked.length === 0 && <span className="text-xs text-gray-600">Nada</span>}
+                    {renderPicker(blockedOptions, '+ Bloquea a', id => ctx.addTaskDependency(id, task.id))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const TaskDetailModal: React.FC<{ task: Task; onClose: () => void }> = ({ task, onClose }) => {
+    const ctx = useContext(AppContext);
+    const [newComment, setNewComment] = useState('');
+    const [activeTab, setActiveTab] = useState<'info' | 'ai'>('info');
+    const [isGeneratingAI, setIsGeneratingAI] = useState(false);
+    const [linkUrl, setLinkUrl] = useState('');
+    const [showLinkInput, setShowLinkInput] = useState(false);
+    
+    const [isRecording, setIsRecording] = useState(false);
+    const mediaRecorder = useRef<MediaRecorder | null>(null);
+    const audioChunks = useRef<Blob[]>([]);
+
+    const commentsRef = useRef<HTMLDivElement>(null);
+    const workflow = useActiveWorkflow();
+    const progressRules = useActiveProgressRules();
+    const status = findStatus(workflow, task.status);
+
+    useEffect(() => {
+        if (commentsRef.current) commentsRef.current.scrollTop = commentsRef.current.scrollHeight;
+    }, [task.activity]);
+
+    if (!ctx) return null;
+    const project = ctx.state.projects.find(p => p.id === ctx.activeProjectId);
+    const canEdit = ctx.can('edit');
+    const canComment = ctx.can('comment');
+    const schedule = getTaskSchedule(task);
+    // Only people with access to the project can take on its work
+    const assignable = ctx.users.filter(u => u.status !== 'removed' && !task.assignees.includes(u.id) && project?.members.some(m => m.userId === u.id));
+
+    const handleDateChange = (key: 'startDate' | 'dueDate', value: string) => {
+        const next = { startDate: task.startDate, dueDate: task.dueDate, [key]: value || undefined };
+        if (next.startDate && next.dueDate && next.startDate > next.dueDate) { alert("La fecha de inicio no puede ser posterior al vencimiento."); return; }
+        ctx.updateTask(task.id, key === 'dueDate' && !value ? { dueDate: undefined, reminderDaysBefore: undefined } : { [key]: value || undefined });
+    };
+
+    const handleReminderChange = async (value: string) => {
+        if (value === '') { ctx.updateTask(task.id, { reminderDaysBefore: undefined }); return; }
+        ctx.updateTask(task.id, { reminderDaysBefore: Number(value) });
+        const permission = await requestNotificationPermission();
+        if (permission !== 'granted') alert("Las notificaciones están desactivadas: el recordatorio se mostrará dentro de la app.");
+    };
+
+    const handleAddComment = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (newComment.trim()) {
+            ctx.addActivity(task.id, newComment, 'comment');
+            setNewComment('');
+        }
+    };
+
+    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files[0]) {
+            const file = e.target.files[0];
+            await ctx.uploadAttachment(task.id, getAttachmentType(file.type), file.name, file);
+            e.target.value = '';
+        }
+    };
+
+    const handleAddLink = () => {
+        if(linkUrl.trim()) {
+            ctx.addAttachment(task.id, 'link', linkUrl, linkUrl);
+            setLinkUrl('');
+            setShowLinkInput(false);
+        }
+    }
+
+    const startRecording = async () => {
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            mediaRecorder.current = new MediaRecorder(stream);
+            audioChunks.current = [];
+            
+            mediaRecorder.current.ondataavailable = (e) => {
+                if (e.data.size > 0) audioChunks.current.push(e.data);
+            };
+            
+            mediaRecorder.current.onstop = () => {
+                const audioBlob = new Blob(audioChunks.current, { type: 'audio/webm' });
+                ctx.uploadAttachment(task.id, 'audio', `Nota de voz ${new Date().toLocaleTimeString()}`, audioBlob);
+                stream.getTracks().forEach(track => track.stop());
             };
             
             mediaRecorder.current.start();
@@ -680,19 +2357,42 @@ const TaskDetailModal: React.FC<{ task: Task; onClose: () => void }> = ({ task,
                 <div className="px-8 py-6 border-b border-white/5 flex items-start justify-between bg-[#0F0F12]/95 backdrop-blur z-10">
                     <div>
                         <div className="flex items-center gap-3 mb-2">
-                             <span className={`px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider rounded border ${task.status === TaskStatus.COMPLETED ? 'bg-green-500/10 border-green-500/30 text-green-400' : 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400'}`}>
-                                 {task.status === TaskStatus.COMPLETED ? 'Completada' : 'En Progreso'}
-                             </span>
+                             {canEdit && task.subtasks.length === 0 ? (
+                                 <select value={status.id} onChange={e => ctx.setTaskStatus(task.id, e.target.value)} className={`px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider rounded border bg-transparent ${STATUS_STYLES[status.color]}`}>
+                                     {workflow.map(s => <option key={s.id} value={s.id} className="bg-[#111115] text-white">{s.label}</option>)}
+                                 </select>
+                             ) : (
+                                 <span className={`px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider rounded border ${STATUS_STYLES[status.color]}`}>
+                                     {task.subtasks.length === 0 ? status.label : `${getTaskProgress(task, progressRules)}%`}
+                                 </span>
+                             )}
+                             {progressRules.rollup === 'weighted' && (
+                                 <label title="Esfuerzo relativo frente a sus tareas hermanas" className="flex items-center gap-1 text-[10px] uppercase tracking-wider text-gray-500">
+                                     Peso
+                                     <input type="number" min={0.1} max={MAX_TASK_WEIGHT} step={0.5} value={getTaskWeight(task)} readOnly={!canEdit} onChange={e => ctx.updateTask(task.id, { weight: normalizeWeight(Number(e.target.value)) })} className="w-14 bg-white/5 border border-white/10 rounded px-1.5 py-0.5 text-xs text-white normal-case" />
+                                 </label>
+                             )}
+                             {progressRules.rollup === 'manual' && task.subtasks.length > 0 && (
+                                 <label title="Sin valor, usa el promedio de sus subtareas" className="flex items-center gap-1 text-[10px] uppercase tracking-wider text-gray-500">
+                                     Progreso
+                                     <input type="number" min={0} max={100} value={task.manualProgress ?? ''} placeholder="auto" readOnly={!canEdit} onChange={e => ctx.updateTask(task.id, { manualProgress: e.target.value === '' ? undefined : Math.min(Math.max(Math.round(Number(e.target.value)) || 0, 0), 100) })} className="w-14 bg-white/5 border border-white/10 rounded px-1.5 py-0.5 text-xs text-white normal-case" />
+                                     %
+                                 </label>
+                             )}
                         </div>
                         <h2 
-                            className="text-2xl font-display font-medium text-white hover:text-indigo-400 cursor-pointer transition-colors leading-snug break-words"
-                            onClick={() => ctx.requestInput("Renombrar Tarea", (val) => ctx.updateTask(task.id, { title: val }))}
+                            className={`text-2xl font-display font-medium text-white transition-colors leading-snug break-words ${canEdit ? 'hover:text-indigo-400 cursor-pointer' : ''}`}
+                            onClick={() => canEdit && ctx.requestInput("Renombrar Tarea", (val) => ctx.updateTask(task.id, { title: val }))}
                         >
                             {task.title}
                         </h2>
                     </div>
                     <div className="flex items-center gap-2">
-                         <button onClick={() => ctx.deleteTask(task.id)} className="p-2 hover:bg-rose-500/10 rounded-lg text-gray-400 hover:text-rose-500 transition-colors"><Icons.Delete size={18} /></button>
+                         {canEdit && <button onClick={() => ctx.openOutlineImport(task.id)} title="Pegar esquema como subtareas" className="p-2 hover:bg-white/10 rounded-lg text-gray-400 hover:text-white transition-colors"><Icons.Paste size={18} /></button>}
+                         {canEdit && <button onClick={() => ctx.openTemplatePicker({ kind: 'task', parentId: task.id })} title="Usar plantilla como subtareas" className="p-2 hover:bg-white/10 rounded-lg text-gray-400 hover:text-white transition-colors"><Icons.Template size={18} /></button>}
+                         <button onClick={() => ctx.openSaveTemplate(task.id)} title="Guardar como plantilla" className="p-2 hover:bg-white/10 rounded-lg text-gray-400 hover:text-white transition-colors"><Icons.Book size={18} /></button>
+                         <button onClick={() => ctx.copyTasksAsMarkdown(task.id)} title="Copiar como lista Markdown" className="p-2 hover:bg-white/10 rounded-lg text-gray-400 hover:text-white transition-colors"><Icons.Copy size={18} /></button>
+                         {canEdit && <button onClick={() => { ctx.deleteTask(task.id); onClose(); }} title="Mover a la papelera" className="p-2 hover:bg-rose-500/10 rounded-lg text-gray-400 hover:text-rose-500 transition-colors"><Icons.Delete size={18} /></button>}
                          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-lg text-gray-400 hover:text-white transition-colors"><Icons.Close size={20} /></button>
                     </div>
                 </div>
@@ -709,10 +2409,93 @@ const TaskDetailModal: React.FC<{ task: Task; onClose: () => void }> = ({ task,
                 <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-8">
                     {activeTab === 'info' ? (
                         <>
+                            <section>
+                                <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-3 flex items-center gap-2"><Icons.Users size={14} /> Responsables</h3>
+                                <div className="flex flex-wrap items-center gap-2">
+                                    {task.assignees.map(id => {
+                                        const user = ctx.users.find(u => u.id === id);
+                                        return (
+                                            <div key={id} className="flex items-center gap-2 pl-1 pr-2 py-1 rounded-full bg-white/5 border border-white/10 text-xs text-gray-200">
+                                                <Avatar user={user} size="w-5 h-5" />
+                                                {user?.name || 'Usuario desconocido'}
+                                                {canEdit && <button onClick={() => ctx.setAssignees(task.id, task.assignees.filter(a => a !== id))} className="text-gray-500 hover:text-rose-400"><Icons.Close size={12} /></button>}
+                                            </div>
+                                        );
+                                    })}
+                                    {task.assignees.length === 0 && <span className="text-xs text-gray-600">Sin asignar</span>}
+                                    {canEdit && assignable.length > 0 && (
+                                        <select value="" onChange={e => e.target.value && ctx.setAssignees(task.id, [...task.assignees, e.target.value])} className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-xs text-indigo-300">
+                                            <option value="">+ Asignar</option>
+                                            {assignable.map(u => <option key={u.id} value={u.id} className="bg-[#111115] text-white">{u.name}</option>)}
+                                        </select>
+                                    )}
+                                </div>
+                                <p className="text-[10px] text-gray-600 mt-2">Creada por {ctx.users.find(u => u.id === task.createdBy)?.name || 'Usuario desconocido'}</p>
+                            </section>
+
+                            <section>
+                                <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-3 flex items-center gap-2"><Icons.Tag size={14} /> Etiquetas</h3>
+                                <TagEditor tags={task.tags} canEdit={canEdit} onChange={tags => ctx.updateTaskTags(task.id, tags)} />
+                            </section>
+
+                            <section>
+                                <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-3 flex items-center gap-2"><Icons.Calendar size={14} /> Fechas</h3>
+                                {schedule.rolledUp && (
+                                    <p className="text-xs text-gray-500 mb-3">
+                                        Según sus subtareas: {schedule.startDate ? formatDateKey(schedule.startDate) : '—'} → {schedule.dueDate ? formatDateKey(schedule.dueDate) : '—'}
+                                    </p>
+                                )}
+                                <div className="grid grid-cols-2 gap-3">
+                                    <label className="text-[10px] uppercase tracking-wider text-gray-500 flex flex-col gap-1">
+                                        Inicio
+                                        <input type="date" value={task.startDate || ''} disabled={!canEdit} onChange={e => handleDateChange('startDate', e.target.value)} className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white normal-case tracking-normal [color-scheme:dark]" />
+                                    </label>
+                                    <label className="text-[10px] uppercase tracking-wider text-gray-500 flex flex-col gap-1">
+                                        Vencimiento
+                                        <input type="date" value={task.dueDate || ''} disabled={!canEdit} onChange={e => handleDateChange('dueDate', e.target.value)} className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white normal-case tracking-normal [color-scheme:dark]" />
+                                    </label>
+                                </div>
+                                <div className="flex items-center gap-2 mt-3 text-xs text-gray-400">
+                                    <Icons.Bell size={14} />
+                                    <select value={task.reminderDaysBefore ?? ''} disabled={!canEdit || !task.dueDate} onChange={e => handleReminderChange(e.target.value)} className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white disabled:opacity-50">
+                                        <option value="">Sin recordatorio</option>
+                                        {REMINDER_OPTIONS.map(option => <option key={option.days} value={option.days}>{option.label}</option>)}
+                                    </select>
+                                    {task.dueDate && <span className="text-gray-500">{describeReminder(task)}</span>}
+                                </div>
+                            </section>
+
+                            <section>
+                                <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-3 flex items-center gap-2"><Icons.Repeat size={14} /> Repetición</h3>
+                                <RecurrenceEditor task={task} canEdit={canEdit} />
+                            </section>
+
+                            {project && (
+                                <section>
+                                    <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-3 flex items-center gap-2"><Icons.Clock size={14} /> Tiempo</h3>
+                                    <TimeTracker project={project} task={task} canEdit={canEdit} />
+                                </section>
+                            )}
+
+                            {project && (
+                                <section>
+                                    <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-3 flex items-center gap-2"><Icons.Budget size={14} /> Costos</h3>
+                                    <CostEditor project={project} task={task} canEdit={canEdit} />
+                                </section>
+                            )}
+
+                            {project && (
+                                <section>
+                                    <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-3 flex items-center gap-2"><Icons.Dependency size={14} /> Dependencias</h3>
+                                    <DependencyEditor project={project} task={task} canEdit={canEdit} />
+                                </section>
+                            )}
+
                             <section>
                                 <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-3 flex items-center gap-2"><Icons.File size={14} /> Descripción</h3>
                                 <textarea 
                                     value={task.description || ''}
+                                    readOnly={!canEdit}
                                     onChange={(e) => ctx.updateTask(task.id, { description: e.target.value })}
                                     placeholder="Añadir descripción..."
                                     className="w-full bg-white/5 border border-white/10 rounded-xl p-4 text-gray-300 text-sm focus:outline-none focus:border-indigo-500/50 min-h-[120px] resize-none"
@@ -722,7 +2505,7 @@ const TaskDetailModal: React.FC<{ task: Task; onClose: () => void }> = ({ task,
                             <section>
                                 <div className="flex justify-between items-center mb-4">
                                     <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 flex items-center gap-2"><Icons.Link size={14} /> Adjuntos ({task.attachments.length})</h3>
-                                    <div className="flex gap-2">
+                                    {canEdit && <div className="flex gap-2">
                                         <button 
                                             onClick={isRecording ? stopRecording : startRecording}
                                             className={`text-xs flex items-center gap-1 px-2 py-1 rounded transition-colors ${isRecording ? 'bg-red-500/20 text-red-400 animate-pulse' : 'text-indigo-400 hover:text-indigo-300'}`}
@@ -734,7 +2517,7 @@ const TaskDetailModal: React.FC<{ task: Task; onClose: () => void }> = ({ task,
                                             <Icons.Upload size={14} /> Archivo
                                             <input type="file" className="hidden" onChange={handleFileUpload} />
                                         </label>
-                                    </div>
+                                    </div>}
                                 </div>
                                 
                                 {showLinkInput && (
@@ -745,21 +2528,7 @@ const TaskDetailModal: React.FC<{ task: Task; onClose: () => void }> = ({ task,
                                 )}
 
                                 <div className="grid grid-cols-2 gap-3">
-                                    {task.attachments.map(att => (
-                                        <div key={att.id} className="group relative flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/5 hover:border-white/20 transition-all hover:bg-white/10">
-                                            <div className="w-10 h-10 rounded-lg bg-indigo-500/20 flex items-center justify-center text-indigo-400 shrink-0">
-                                                {att.type === 'link' ? <Icons.Link size={20} /> : att.type === 'audio' ? <Icons.Audio size={20} /> : <Icons.File size={20} />}
-                                            </div>
-                                            <div className="flex-1 min-w-0">
-                                                <div className="text-sm text-gray-200 truncate">{att.name}</div>
-                                                <div className="text-[10px] text-gray-500">{new Date(att.createdAt).toLocaleDateString()}</div>
-                                            </div>
-                                            {att.type === 'audio' && (
-                                                <audio controls src={att.url} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
-                                            )}
-                                            {att.type === 'link' && <a href={att.url} target="_blank" rel="noreferrer" className="absolute inset-0" />}
-                                        </div>
-                                    ))}
+                                    {task.attachments.map(att => <AttachmentItem key={att.id} attachment={att} onRemove={canEdit ? () => ctx.removeAttachment(task.id, att.id) : undefined} />)}
                                     {task.attachments.length === 0 && <div className="col-span-2 text-center py-4 border border-dashed border-white/10 rounded-xl text-gray-600 text-xs">Sin adjuntos</div>}
                                 </div>
                             </section>
@@ -777,16 +2546,18 @@ const TaskDetailModal: React.FC<{ task: Task; onClose: () => void }> = ({ task,
                                                         <span className="text-xs font-bold text-gray-300">{user?.name}</span>
                                                         <span className="text-[10px] text-gray-600">{new Date(log.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
                                                     </div>
-                                                    <div className={`text-sm ${log.type === 'status_change' ? 'text-indigo-400 italic' : 'text-gray-400'}`}>{log.content}</div>
+                                                    <div className={`text-sm ${log.type === 'status_change' || log.type === 'assignment' || log.type === 'edit' ? 'text-indigo-400 italic' : 'text-gray-400'}`}>{log.content}</div>
                                                 </div>
                                             </div>
                                         )
                                     })}
                                 </div>
-                                <form onSubmit={handleAddComment} className="relative">
-                                    <input type="text" value={newComment} onChange={(e) => setNewComment(e.target.value)} placeholder="Comentar..." className="w-full bg-white/5 border border-white/10 rounded-xl pl-4 pr-12 py-3 text-sm text-white focus:outline-none focus:border-indigo-500/50" />
-                                    <button type="submit" disabled={!newComment.trim()} className="absolute right-2 top-2 p-1.5 bg-indigo-600 text-white rounded-lg disabled:opacity-50"><Icons.ArrowRight size={16} /></button>
-                                </form>
+                                {canComment && (
+                                    <form onSubmit={handleAddComment} className="relative">
+                                        <input type="text" value={newComment} onChange={(e) => setNewComment(e.target.value)} placeholder="Comentar..." className="w-full bg-white/5 border border-white/10 rounded-xl pl-4 pr-12 py-3 text-sm text-white focus:outline-none focus:border-indigo-500/50" />
+                                        <button type="submit" disabled={!newComment.trim()} className="absolute right-2 top-2 p-1.5 bg-indigo-600 text-white rounded-lg disabled:opacity-50"><Icons.ArrowRight size={16} /></button>
+                                    </form>
+                                )}
                             </section>
                         </>
                     ) : (
@@ -799,6 +2570,7 @@ const TaskDetailModal: React.FC<{ task: Task; onClose: () => void }> = ({ task,
                                     <label className="text-xs font-bold uppercase tracking-widest text-indigo-300 mb-2 block">Contexto Oculto (Solo para IA)</label>
                                     <textarea 
                                         value={task.aiContext || ''} 
+                                        readOnly={!canEdit}
                                         onChange={(e) => ctx.updateTask(task.id, { aiContext: e.target.value })}
                                         placeholder="Pega aquí contenido de emails, datos técnicos o restricciones que la IA deba saber..."
                                         className="w-full bg-black/40 border border-indigo-500/20 rounded-lg p-3 text-sm text-gray-300 focus:outline-none focus:border-indigo-500/50 min-h-[100px]"
@@ -807,7 +2579,7 @@ const TaskDetailModal: React.FC<{ task: Task; onClose: () => void }> = ({ task,
                                 
                                 <button 
                                     onClick={handleGenerateSuggestions} 
-                                    disabled={isGeneratingAI}
+                                    disabled={isGeneratingAI || !canEdit}
                                     className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
                                 >
                                     {isGeneratingAI ? <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : <Icons.Bot size={18} />}
@@ -831,31 +2603,180 @@ const TaskDetailModal: React.FC<{ task: Task; onClose: () => void }> = ({ task,
     );
 }
 
+// Tasks grouped by project, as listed by cross-project views
+const TaskMatchList: React.FC<{ groups: { project: Project; items: ViewMatch[] }[]; emptyText: string }> = ({ groups, emptyText }) => {
+    const ctx = useContext(AppContext);
+    if (!ctx) return null;
+
+    const openTask = (project: Project, task: Task) => {
+        ctx.setActiveProjectId(project.id);
+        ctx.openTaskDetail(task);
+    };
+
+    return (
+        <>
+            {groups.length === 0 && <div className="text-center py-20 text-gray-600">{emptyText}</div>}
+            <div className="space-y-8">
+                {groups.map(({ project, items }) => {
+                    const workflow = getWorkflow(project);
+                    return (
+                        <section key={project.id}>
+                            <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-3">{project.title} · {items.length}</h3>
+                            <div className="space-y-2">
+                                {items.map(({ task, path }) => {
+                                    const status = findStatus(workflow, task.status);
+                                    const schedule = getTaskSchedule(task);
+                                    const dueState = getDueState(task, workflow);
+                                    return (
+                                        <div key={task.id} onClick={() => openTask(project, task)} className="flex items-center gap-4 p-4 rounded-xl bg-white/[0.03] border border-white/5 hover:border-white/20 cursor-pointer transition-colors">
+                                            <div className="flex-1 min-w-0">
+                                                {path.length > 0 && <div className="text-[10px] text-gray-500 truncate">{path.join(' / ')}</div>}
+                                                <div className={`text-sm truncate ${isTaskDone(task, workflow) ? 'line-through text-gray-500' : 'text-gray-100'}`}>{task.title}</div>
+                                            </div>
+                                            {dueState !== 'none' && schedule.dueDate && (
+                                                <span className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] border ${DUE_STYLES[dueState]}`}><Icons.Calendar size={10} /> {formatDateKey(schedule.dueDate)}</span>
+                                            )}
+                                            {task.subtasks.length === 0
+                                                ? <span className={`px-2 py-1 rounded text-[10px] border ${STATUS_STYLES[status.color]}`}>{status.label}</span>
+                                                : <ProgressRing progress={getTaskProgress(task, getProgressRules(project))} size={24} stroke={3} />}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </section>
+                    );
+                })}
+            </div>
+        </>
+    );
+};
+
+// Every task assigned to the current user, across all projects they can see
+const MyTasksView: React.FC = () => {
+    const ctx = useContext(AppContext);
+    const [showDone, setShowDone] = useState(false);
+    if (!ctx) return null;
+
+    const collect = (project: Project, tasks: Task[], path: string[]): ViewMatch[] => tasks.flatMap(task => [
+        ...(task.assignees.includes(ctx.currentUser.id) ? [{ project, task, path }] : []),
+        ...collect(project, task.subtasks, [...path, task.title]),
+    ]);
+    const groups = ctx.state.projects
+        .filter(project => ctx.can('view', project.id))
+        .map(project => ({
+            project,
+            items: collect(project, project.tasks, []).filter(({ task }) => showDone || !isTaskDone(task, getWorkflow(project))),
+        }))
+        .filter(group => group.items.length > 0);
+
+    return (
+        <div>
+            <label className="flex items-center gap-2 text-xs text-gray-500 mb-6 cursor-pointer w-fit">
+                <input type="checkbox" checked={showDone} onChange={e => setShowDone(e.target.checked)} className="accent-indigo-500" />
+                Mostrar completadas
+            </label>
+            <TaskMatchList groups={groups} emptyText="No tienes tareas asignadas." />
+        </div>
+    );
+};
+
+// Saved views and smart filters run over every visible project
+const ViewsDashboard: React.FC = () => {
+    const ctx = useContext(AppContext);
+    const [selectedId, setSelectedId] = useState<string>(SMART_FILTERS[0].id);
+    if (!ctx) return null;
+
+    const projects = ctx.state.projects.filter(project => ctx.can('view', project.id));
+    const views = listDashboardViews(projects);
+    const groupsFor = (view: SavedView) => projects
+        .map(project => ({ project, items: collectViewMatches(project, view, projectQueryEnv(project, ctx.users, ctx.currentUser.id)) }))
+        .filter(group => group.items.length > 0);
+    const selected = views.find(v => v.id === selectedId) || views[0];
+
+    return (
+        <div className="flex flex-col md:flex-row gap-8">
+            <div className="md:w-64 shrink-0 space-y-1">
+                {views.map(view => {
+                    const count = groupsFor(view).reduce((acc, group) => acc + group.items.length, 0);
+                    return (
+                        <button key={view.id} onClick={() => setSelectedId(view.id)} className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors ${view === selected ? 'bg-indigo-600/20 text-white' : 'text-gray-400 hover:bg-white/5 hover:text-white'}`}>
+                            <span className="truncate">{view.name}</span>
+                            <span className={`px-2 py-0.5 rounded-full text-[10px] ${count > 0 ? 'bg-white/10 text-gray-200' : 'text-gray-600'}`}>{count}</span>
+                        </button>
+                    );
+                })}
+            </div>
+            <div className="flex-1 min-w-0">
+                {selected && (
+                    <>
+                        <p className="text-xs text-gray-500 mb-6 font-mono">{[selected.query, ...selected.tags.map(tag => `#${tag}`)].filter(Boolean).join(' ') || 'Todas las tareas'}</p>
+                        <TaskMatchList groups={groupsFor(selected)} emptyText="Ninguna tarea coincide con esta vista." />
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+type ListTab = 'projects' | 'mine' | 'views';
+
+const LIST_TABS: Record<ListTab, { label: string; title: string; subtitle: string }> = {
+    projects: { label: 'Proyectos', title: 'Mis Proyectos', subtitle: 'Selecciona un proyecto para comenzar a trabajar.' },
+    mine: { label: 'Mis tareas', title: 'Mis Tareas', subtitle: 'Tareas asignadas a ti en todos los proyectos.' },
+    views: { label: 'Vistas', title: 'Vistas', subtitle: 'Vistas guardadas y filtros inteligentes en todos los proyectos.' },
+};
+
 const ProjectsList: React.FC = () => {
     const ctx = useContext(AppContext);
+    const [tab, setTab] = useState<ListTab>('projects');
     if (!ctx) return null;
 
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            ctx.openImportModal(parseBundle(await file.text()));
+        } catch (err) {
+            alert((err as Error).message);
+        }
+    };
+
     return (
         <div className="container mx-auto px-6 py-12 max-w-6xl animate-fade-in">
              <div className="flex justify-between items-center mb-12">
                 <div>
-                    <h2 className="text-4xl font-display font-bold text-white mb-2">Mis Proyectos</h2>
-                    <p className="text-gray-400">Selecciona un proyecto para comenzar a trabajar.</p>
+                    <h2 className="text-4xl font-display font-bold text-white mb-2">{LIST_TABS[tab].title}</h2>
+                    <p className="text-gray-400">{LIST_TABS[tab].subtitle}</p>
+                    <div className="flex gap-1 mt-4 bg-white/5 rounded-lg p-1 w-fit">
+                        {(Object.keys(LIST_TABS) as ListTab[]).map(key => (
+                            <button key={key} onClick={() => setTab(key)} className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${tab === key ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'}`}>{LIST_TABS[key].label}</button>
+                        ))}
+                    </div>
                 </div>
                 <div className="flex items-center gap-4">
+                     <button onClick={ctx.openTrash} title="Papelera" className="p-2 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors"><Icons.Delete size={20} /></button>
+                     <button onClick={() => ctx.exportProjects(null)} title="Exportar todo" className="p-2 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors"><Icons.Download size={20} /></button>
+                     <label title="Importar" className="p-2 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors cursor-pointer">
+                        <Icons.Upload size={20} />
+                        <input type="file" className="hidden" accept="application/json,.json" onChange={handleImportFile} />
+                     </label>
                      <div 
                         className="flex items-center gap-2 px-4 py-2 bg-white/5 rounded-full border border-white/10 cursor-pointer hover:bg-white/10 transition-colors"
-                        onClick={ctx.openProfileModal}
+                        onClick={ctx.openUserManagement}
                      >
                         <Avatar user={ctx.currentUser} size="w-6 h-6" />
                         <span className="text-sm font-medium">{ctx.currentUser.name}</span>
                      </div>
-                     <button onClick={ctx.logout} className="p-2 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors"><Icons.Close size={20} /></button>
+                     <button onClick={ctx.logout} title="Cerrar sesión" className="p-2 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors"><Icons.Close size={20} /></button>
                 </div>
              </div>
 
+             {tab === 'mine' && <MyTasksView />}
+             {tab === 'views' && <ViewsDashboard />}
+             {tab === 'projects' && (
              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {ctx.state.projects.map((project, index) => {
+                {ctx.state.projects.filter(project => ctx.can('view', project.id)).map((project, index) => {
                     const progress = getProjectProgress(project);
                     const theme = PROJECT_THEMES[index % PROJECT_THEMES.length]; // Use Theme
                     return (
@@ -874,16 +2795,20 @@ const ProjectsList: React.FC = () => {
                             </div>
                             
                             <div className="absolute inset-0 p-8 flex flex-col justify-end">
-                                <div className="absolute top-6 right-6 opacity-0 group-hover:opacity-100 transition-opacity z-10">
-                                    <button onClick={(e) => { e.stopPropagation(); ctx.deleteProject(project.id); }} className="p-2 bg-black/40 hover:bg-red-500/80 rounded-full text-white/70 hover:text-white backdrop-blur-sm"><Icons.Delete size={16} /></button>
-                                </div>
+                                {ctx.can('manage', project.id) && (
+                                    <div className="absolute top-6 right-6 opacity-0 group-hover:opacity-100 transition-opacity z-10">
+                                        <button onClick={(e) => { e.stopPropagation(); ctx.deleteProject(project.id); }} className="p-2 bg-black/40 hover:bg-red-500/80 rounded-full text-white/70 hover:text-white backdrop-blur-sm"><Icons.Delete size={16} /></button>
+                                    </div>
+                                )}
 
                                 <h3 className="text-3xl font-display font-bold text-white mb-1 shadow-black drop-shadow-lg leading-tight pb-1">{project.title}</h3>
                                 <p className="text-white/80 text-sm font-light tracking-wide mb-6">{project.subtitle}</p>
 
                                 <div className="flex items-end justify-between">
                                     <div className="flex -space-x-3">
-                                        <Avatar user={ctx.currentUser} size="w-10 h-10 border-2 border-black" />
+                                        {project.members.slice(0, 4).map(m => (
+                                            <Avatar key={m.userId} user={ctx.users.find(u => u.id === m.userId)} size="w-10 h-10 border-2 border-black" />
+                                        ))}
                                     </div>
                                     <div className="flex flex-col items-end gap-1">
                                         <span className="text-2xl font-bold text-white">{progress}%</span>
@@ -898,7 +2823,7 @@ const ProjectsList: React.FC = () => {
                 })}
 
                 <button 
-                    onClick={() => ctx.requestInput("Nuevo Proyecto", (title) => ctx.addProject(title, "Nuevo proyecto"))}
+                    onClick={() => ctx.openTemplatePicker({ kind: 'project' })}
                     className="group flex flex-col items-center justify-center p-8 rounded-3xl border-2 border-dashed border-white/10 hover:border-indigo-500/50 hover:bg-indigo-500/5 transition-all duration-300 h-[300px]"
                 >
                     <div className="w-16 h-16 rounded-full bg-white/5 flex items-center justify-center text-gray-400 group-hover:text-indigo-400 group-hover:scale-110 transition-all mb-4">
@@ -907,39 +2832,178 @@ const ProjectsList: React.FC = () => {
                     <span className="text-gray-400 font-medium group-hover:text-indigo-300">Crear Proyecto</span>
                 </button>
              </div>
+             )}
         </div>
     );
 }
 
-const ProjectView: React.FC = () => {
+// Smart filters and the project's saved views as chips, plus sorting and saving the current filters
+const ViewsBar: React.FC = () => {
     const ctx = useContext(AppContext);
-    if (!ctx || !ctx.activeProjectId) return null;
-
+    if (!ctx) return null;
     const project = ctx.state.projects.find(p => p.id === ctx.activeProjectId);
     if (!project) return null;
 
-    const visibleTasks = ctx.searchQuery ? searchTasks(project.tasks, ctx.searchQuery) : project.tasks;
-    const progress = getProjectProgress(project);
+    const canEdit = ctx.can('edit', project.id);
+    const views = [...SMART_FILTERS, ...getSavedViews(project)];
+    const active = views.find(v => isViewActive(v, ctx.searchQuery, ctx.tagFilter, ctx.taskSort));
+    const hasFilters = ctx.searchQuery.trim() !== '' || ctx.tagFilter.length > 0 || ctx.taskSort !== 'manual';
 
-    const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            try {
-                const base64 = await fileToBase64(e.target.files[0]);
-                ctx.updateProject(project.id, { imageUrl: base64 });
-            } catch(e) {
-                alert("Error al subir imagen. Prueba con una más pequeña.");
-            }
-        }
+    const handleDelete = (view: SavedView) => {
+        if (!confirm(`¿Eliminar la vista "${view.name}" para todos los miembros?`)) return;
+        ctx.deleteView(view.id);
     };
 
     return (
-        <div className="h-screen flex flex-col bg-[#050505]">
-            <header className="flex-none px-4 md:px-8 py-6 border-b border-white/5 bg-[#050505]/80 backdrop-blur-md z-20">
-                <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 max-w-7xl mx-auto">
-                    <div className="flex items-center gap-4">
-                        <button onClick={() => ctx.setActiveProjectId(null)} className="p-3 rounded-xl bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white transition-all"><Icons.Close size={20} /></button>
+        <div className="flex flex-wrap items-center gap-2 max-w-7xl mx-auto mt-5">
+            <button onClick={() => ctx.applyView(null)} className={`px-3 py-1 rounded-full text-xs border transition-colors ${!hasFilters ? 'bg-white/10 border-white/20 text-white' : 'border-white/10 text-gray-400 hover:text-white'}`}>Todas</button>
+            {views.map(view => (
+                <div key={view.id} className={`group flex items-center gap-1 pl-3 pr-2 py-1 rounded-full text-xs border transition-colors ${view === active ? 'bg-indigo-600/20 border-indigo-500/40 text-indigo-200' : 'border-white/10 text-gray-400 hover:text-white'}`}>
+                    <button onClick={() => ctx.applyView(view === active ? null : view)} title={[view.query, ...view.tags.map(tag => `#${tag}`)].join(' ')}>{view.name}</button>
+                    {!isSmartFilter(view) && canEdit && <button onClick={() => handleDelete(view)} className="opacity-0 group-hover:opacity-60 hover:!opacity-100"><Icons.Close size={10} /></button>}
+                </div>
+            ))}
+            {canEdit && hasFilters && !active && (
+                <button onClick={() => ctx.requestInput("Nombre de la vista", ctx.saveView)} className="flex items-center gap-1 px-3 py-1 rounded-full text-xs text-indigo-400 hover:text-indigo-300 border border-dashed border-indigo-500/30"><Icons.Add size={12} /> Guardar vista</button>
+            )}
+            <select value={ctx.taskSort} onChange={e => ctx.setTaskSort(e.target.value as TaskSort)} className="ml-auto bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-300">
+                {SORT_OPTIONS.map(option => <option key={option.sort} value={option.sort} className="bg-[#111115] text-white">{option.label}</option>)}
+            </select>
+        </div>
+    );
+};
+
+const SEARCH_HELP = 'Ejemplos: status:pending tag:proveedores assignee:leticia due:<2026-11-01 has:audio "landed cost". Combina con AND, OR, NOT, -término y paréntesis.';
+
+type BulkPanel = 'move' | 'tag' | 'assign' | 'due' | null;
+
+// Floating bar for the tree selection; every action is one commit, so one undo step
+const BulkActionBar: React.FC<{ project: Project }> = ({ project }) => {
+    const ctx = useContext(AppContext);
+    const [panel, setPanel] = useState<BulkPanel>(null);
+    const [value, setValue] = useState('');
+    const projectTags = useActiveTags();
+
+    if (!ctx || ctx.selectedTaskIds.length === 0) return null;
+    const count = ctx.selectedTaskIds.length;
+
+    // A selected task cannot take in itself or anything inside it
+    const selected = new Set(ctx.selectedTaskIds);
+    const moveTargets: { task: Task; depth: number }[] = [];
+    const collectTargets = (tasks: Task[], depth: number) => tasks.forEach(t => {
+        if (selected.has(t.id)) return;
+        moveTargets.push({ task: t, depth });
+        collectTargets(t.subtasks, depth + 1);
+    });
+    collectTargets(project.tasks, 0);
+    const members = project.members.map(m => ctx.users.find(u => u.id === m.userId)).filter((u): u is User => !!u);
+
+    const openPanel = (next: BulkPanel) => {
+        setPanel(panel === next ? null : next);
+        setValue('');
+    };
+
+    const run = (action: BulkAction) => {
+        ctx.runBulkAction(action);
+        setPanel(null);
+        setValue('');
+    };
+
+    const handleDelete = () => {
+        if (confirm(`¿Mover ${count} ${count === 1 ? 'tarea' : 'tareas'} a la papelera junto con sus subtareas?`)) run({ kind: 'delete' });
+    };
+
+    const handleAssign = () => {
+        const user = members.find(u => u.id === value);
+        if (user) run({ kind: 'assign', userId: user.id, userName: user.name });
+    };
+
+    const buttonClass = (active = false) => `px-3 py-1.5 rounded-lg text-xs font-medium transition-colors whitespace-nowrap ${active ? 'bg-indigo-600 text-white' : 'bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white'}`;
+    const fieldClass = 'flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500/50';
+
+    return (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-3xl bg-[#111115] border border-white/10 rounded-2xl shadow-2xl p-3 space-y-3 animate-slide-up">
+            <div className="flex items-center gap-2 overflow-x-auto custom-scrollbar">
+                <span className="text-xs text-indigo-300 font-semibold whitespace-nowrap px-2">{count} {count === 1 ? 'seleccionada' : 'seleccionadas'}</span>
+                <button onClick={() => run({ kind: 'complete' })} className={buttonClass()}>Completar</button>
+                <button onClick={() => run({ kind: 'reopen' })} className={buttonClass()}>Reabrir</button>
+                <button onClick={() => openPanel('move')} className={buttonClass(panel === 'move')}>Mover…</button>
+                <button onClick={() => openPanel('tag')} className={buttonClass(panel === 'tag')}>Etiquetar…</button>
+                <button onClick={() => openPanel('assign')} className={buttonClass(panel === 'assign')}>Asignar…</button>
+                <button onClick={() => openPanel('due')} className={buttonClass(panel === 'due')}>Fecha…</button>
+                <button onClick={handleDelete} className="px-3 py-1.5 rounded-lg text-xs font-medium bg-rose-500/10 text-rose-400 hover:bg-rose-500/20 whitespace-nowrap">Eliminar</button>
+                <button onClick={() => ctx.setSelectedTaskIds([])} title="Quitar selección (Esc)" className="ml-auto p-1.5 rounded-lg text-gray-500 hover:text-white hover:bg-white/10"><Icons.Close size={16} /></button>
+            </div>
+            {panel === 'move' && (
+                <div className="flex items-center gap-2">
+                    <select value={value} onChange={e => setValue(e.target.value)} className={fieldClass}>
+                        <option value="">Raíz del proyecto</option>
+                        {moveTargets.map(({ task, depth }) => <option key={task.id} value={task.id}>{`${'\u00a0\u00a0'.repeat(depth)}${task.title}`}</option>)}
+                    </select>
+                    <button onClick={() => run({ kind: 'move', parentId: value || null })} className={buttonClass(true)}>Mover</button>
+                </div>
+            )}
+            {panel === 'tag' && (
+                <form onSubmit={e => { e.preventDefault(); if (value.trim()) run({ kind: 'tag', name: value }); }} className="flex items-center gap-2">
+                    <input autoFocus list="bulk-tag-options" value={value} onChange={e => setValue(e.target.value)} placeholder="Etiqueta" className={fieldClass} />
+                    <datalist id="bulk-tag-options">{projectTags.map(tag => <option key={tag.name} value={tag.name} />)}</datalist>
+                    <button type="submit" disabled={!value.trim()} className={`${buttonClass(true)} disabled:opacity-40`}>Añadir</button>
+                </form>
+            )}
+            {panel === 'assign' && (
+                <div className="flex items-center gap-2">
+                    <select value={value} onChange={e => setValue(e.target.value)} className={fieldClass}>
+                        <option value="">Elegir persona…</option>
+                        {members.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                    </select>
+                    <button onClick={handleAssign} disabled={!value} className={`${buttonClass(true)} disabled:opacity-40`}>Asignar</button>
+                </div>
+            )}
+            {panel === 'due' && (
+                <div className="flex items-center gap-2">
+                    <input type="date" value={value} onChange={e => setValue(e.target.value)} className={fieldClass} />
+                    <button onClick={() => run({ kind: 'due', date: value })} disabled={!value} className={`${buttonClass(true)} disabled:opacity-40`}>Aplicar</button>
+                    <button onClick={() => run({ kind: 'due' })} className={buttonClass()}>Quitar fecha</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const ProjectView: React.FC = () => {
+    const ctx = useContext(AppContext);
+    if (!ctx || !ctx.activeProjectId) return null;
+
+    const project = ctx.state.projects.find(p => p.id === ctx.activeProjectId);
+    if (!project || !ctx.can('view', project.id)) return null;
+
+    const canEdit = ctx.can('edit', project.id);
+    const queryEnv: QueryEnv = { workflow: getWorkflow(project), users: ctx.users, currentUserId: ctx.currentUser.id };
+    const visibleTasks = sortTaskTree(filterTasksByTags(filterTasksByQuery(project.tasks, ctx.parsedQuery, queryEnv), ctx.tagFilter), ctx.taskSort, project);
+    const progress = getProjectProgress(project);
+    const currency = getProjectCurrency(project);
+    const costs = getProjectCosts(project, ctx.state.exchangeRates, currency);
+    const viewMode = ctx.projectViews[project.id] || 'tree';
+
+    const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files[0]) {
+            try {
+                const base64 = await fileToBase64(e.target.files[0]);
+                ctx.updateProject(project.id, { imageUrl: base64 });
+            } catch(e) {
+                alert("Error al subir imagen. Prueba con una más pequeña.");
+            }
+        }
+    };
+
+    return (
+        <div className="h-screen flex flex-col bg-[#050505]">
+            <header className="flex-none px-4 md:px-8 py-6 border-b border-white/5 bg-[#050505]/80 backdrop-blur-md z-20">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 max-w-7xl mx-auto">
+                    <div className="flex items-center gap-4">
+                        <button onClick={() => ctx.setActiveProjectId(null)} className="p-3 rounded-xl bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white transition-all"><Icons.Close size={20} /></button>
                         <div className="flex items-center gap-3">
-                            <label className="group cursor-pointer relative">
+                            <label className={`group relative ${canEdit ? 'cursor-pointer' : 'pointer-events-none'}`}>
                                 {project.imageUrl ? (
                                     <img src={project.imageUrl} alt="" className="w-10 h-10 rounded-lg object-cover border border-white/20" />
                                 ) : (
@@ -955,14 +3019,18 @@ const ProjectView: React.FC = () => {
                             
                             <div>
                                 <h1 
-                                    className="text-2xl md:text-3xl font-display font-bold text-white hover:text-indigo-400 transition-colors cursor-pointer leading-tight pb-1"
-                                    onClick={() => ctx.requestInput("Nombre del Proyecto", (title) => ctx.updateProject(project.id, { title }))}
+                                    className={`text-2xl md:text-3xl font-display font-bold text-white transition-colors leading-tight pb-1 ${canEdit ? 'hover:text-indigo-400 cursor-pointer' : ''}`}
+                                    onClick={() => canEdit && ctx.requestInput("Nombre del Proyecto", (title) => ctx.updateProject(project.id, { title }))}
                                 >
                                     {project.title}
                                 </h1>
                                 <div className="flex items-center gap-2">
                                      <span className="text-gray-500 text-xs md:text-sm">{project.subtitle}</span>
                                      <span className="text-[10px] font-sans font-normal text-gray-400 bg-white/5 px-1.5 py-0.5 rounded border border-white/5">{progress}%</span>
+                                     <button onClick={ctx.openBudgetModal} title="Presupuesto y gasto real" className={`flex items-center gap-1 text-[10px] font-sans font-normal px-1.5 py-0.5 rounded border transition-colors ${costs.planned > 0 && costs.actual > costs.planned ? 'text-rose-300 bg-rose-500/10 border-rose-500/30' : 'text-gray-400 bg-white/5 border-white/5 hover:text-white'}`}>
+                                         <Icons.Budget size={10} />
+                                         {costs.planned > 0 || costs.actual > 0 ? `${formatMoney(costs.actual, currency)} / ${formatMoney(costs.planned, currency)}` : 'Presupuesto'}
+                                     </button>
                                 </div>
                             </div>
                         </div>
@@ -971,118 +3039,1571 @@ const ProjectView: React.FC = () => {
                     <div className="flex flex-col-reverse md:flex-row items-center gap-4 flex-1 justify-end w-full">
                         <div className="relative w-full max-w-md group">
                             <Icons.Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500 group-focus-within:text-indigo-400 transition-colors" size={18} />
-                            <input type="text" placeholder="Buscar tareas..." value={ctx.searchQuery} onChange={(e) => ctx.setSearchQuery(e.target.value)} className="w-full bg-black/20 border border-white/10 rounded-xl py-2.5 pl-12 pr-4 text-sm text-white placeholder:text-gray-600 focus:outline-none focus:border-indigo-500/50 focus:bg-white/5 transition-all" />
+                            <input type="text" placeholder="Buscar tareas..." title={SEARCH_HELP} value={ctx.searchQuery} onChange={(e) => ctx.setSearchQuery(e.target.value)} className={`w-full bg-black/20 border rounded-xl py-2.5 pl-12 pr-4 text-sm text-white placeholder:text-gray-600 focus:outline-none focus:bg-white/5 transition-all ${ctx.parsedQuery.error ? 'border-rose-500/50' : 'border-white/10 focus:border-indigo-500/50'}`} />
+                            {ctx.parsedQuery.error && <p className="absolute left-0 top-full mt-1 text-[10px] text-rose-400">{ctx.parsedQuery.error}</p>}
+                        </div>
+                        <TagFilter />
+                        <div className="flex bg-white/5 rounded-xl p-1 shrink-0">
+                            {VIEW_MODES.map(({ mode, label, icon: Icon }) => (
+                                <button key={mode} onClick={() => ctx.setProjectView(project.id, mode)} title={label} className={`p-2 rounded-lg transition-colors ${viewMode === mode ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}>
+                                    <Icon size={16} />
+                                </button>
+                            ))}
                         </div>
                         <div className="h-8 w-[1px] bg-white/10 mx-2 hidden md:block"></div>
                         <div className="flex gap-2 w-full md:w-auto justify-end">
+                             {canEdit && (
+                                 <div className="flex">
+                                     <button onClick={ctx.undo} disabled={!ctx.canUndo} title="Deshacer (Ctrl+Z)" className="p-2.5 rounded-xl hover:bg-white/10 text-gray-400 hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none">
+                                         <Icons.Undo size={20} />
+                                     </button>
+                                     <button onClick={ctx.redo} disabled={!ctx.canRedo} title="Rehacer (Ctrl+Shift+Z)" className="p-2.5 rounded-xl hover:bg-white/10 text-gray-400 hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none">
+                                         <Icons.Redo size={20} />
+                                     </button>
+                                 </div>
+                             )}
+                             <button onClick={ctx.openMembersModal} title="Miembros" className="flex items-center -space-x-2 px-2 rounded-xl hover:bg-white/10 transition-colors">
+                                 {project.members.slice(0, 3).map(m => <Avatar key={m.userId} user={ctx.users.find(u => u.id === m.userId)} size="w-7 h-7 border-2 border-[#050505]" />)}
+                                 {project.members.length > 3 && <span className="w-7 h-7 rounded-full bg-white/10 border-2 border-[#050505] text-[10px] text-gray-300 flex items-center justify-center">+{project.members.length - 3}</span>}
+                             </button>
+                             <button onClick={ctx.openTrash} title="Papelera" className="p-2.5 rounded-xl hover:bg-white/10 text-gray-400 hover:text-white transition-colors relative group">
+                                 <Icons.Delete size={20} />
+                             </button>
+                             <button onClick={() => ctx.exportProjects(project.id)} title="Exportar proyecto" className="p-2.5 rounded-xl hover:bg-white/10 text-gray-400 hover:text-white transition-colors relative group">
+                                 <Icons.Download size={20} />
+                             </button>
                              <button onClick={ctx.openStatsModal} className="p-2.5 rounded-xl hover:bg-emerald-500/10 text-gray-400 hover:text-emerald-400 transition-colors relative group">
                                  <Icons.Chart size={20} />
                              </button>
                              <button onClick={ctx.openAIModal} className="p-2.5 rounded-xl hover:bg-indigo-500/10 text-gray-400 hover:text-indigo-400 transition-colors relative group">
                                  <Icons.Bot size={20} />
                              </button>
-                             <button onClick={() => ctx.requestInput("Nueva Tarea Principal", (title) => ctx.addTask(null, title))} className="flex-1 md:flex-none flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-5 py-2.5 rounded-xl font-medium text-sm transition-all shadow-lg shadow-indigo-900/20 whitespace-nowrap">
-                                <Icons.Add size={18} /> <span className="inline">Tarea</span>
-                             </button>
+                             {canEdit && (
+                                 <button onClick={() => ctx.openOutlineImport(null)} title="Pegar esquema" className="p-2.5 rounded-xl hover:bg-white/10 text-gray-400 hover:text-white transition-colors">
+                                     <Icons.Paste size={20} />
+                                 </button>
+                             )}
+                             {canEdit && (
+                                 <button onClick={() => ctx.openTemplatePicker({ kind: 'task', parentId: null })} title="Plantillas" className="p-2.5 rounded-xl hover:bg-white/10 text-gray-400 hover:text-white transition-colors">
+                                     <Icons.Template size={20} />
+                                 </button>
+                             )}
+                             {canEdit && (
+                                 <button onClick={() => ctx.requestInput("Nueva Tarea Principal", (title) => ctx.addTask(null, title))} className="flex-1 md:flex-none flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-5 py-2.5 rounded-xl font-medium text-sm transition-all shadow-lg shadow-indigo-900/20 whitespace-nowrap">
+                                    <Icons.Add size={18} /> <span className="inline">Tarea</span>
+                                 </button>
+                             )}
                         </div>
                     </div>
                 </div>
+                <ViewsBar />
             </header>
             <div className="flex-1 overflow-y-auto p-4 md:p-8 custom-scrollbar">
-                <div className="max-w-4xl mx-auto space-y-4 pb-20">
-                    {visibleTasks.length === 0 ? (
-                        <div className="text-center py-20 opacity-30">
-                            <div className="w-24 h-24 bg-white/5 rounded-full flex items-center justify-center mx-auto mb-6"><Icons.File size={40} /></div>
-                            <p className="text-xl">No hay tareas pendientes</p>
-                            <button onClick={() => ctx.addTask(null, "Primera tarea")} className="mt-4 text-indigo-400 hover:text-indigo-300">Crear la primera tarea</button>
+                {viewMode === 'kanban' && <KanbanView tasks={visibleTasks} />}
+                {viewMode === 'calendar' && <CalendarView tasks={visibleTasks} />}
+                {viewMode === 'timeline' && <TimelineView tasks={visibleTasks} />}
+                {viewMode === 'tree' && <TreeView tasks={visibleTasks} />}
+            </div>
+            {viewMode === 'tree' && canEdit && <BulkActionBar project={project} />}
+        </div>
+    );
+}
+
+const VIEW_MODES: { mode: ProjectViewMode; label: string; icon: React.ElementType }[] = [
+    { mode: 'tree', label: 'Árbol', icon: Icons.Tree },
+    { mode: 'kanban', label: 'Tablero', icon: Icons.Kanban },
+    { mode: 'calendar', label: 'Calendario', icon: Icons.Calendar },
+    { mode: 'timeline', label: 'Cronograma', icon: Icons.Timeline },
+];
+
+const TREE_SHORTCUTS = '↑↓ moverse · → expandir · ← contraer · Tab / Shift+Tab sangría · Espacio completar · Enter abrir · Shift+clic seleccionar · Ctrl+K comandos';
+
+// A keyboard cursor walks the rows as drawn; edits reuse the same actions as the mouse
+const TreeView: React.FC<{ tasks: Task[] }> = ({ tasks }) => {
+    const ctx = useContext(AppContext);
+    const anchorRef = useRef<string | null>(null); // Last task toggled, where shift-click ranges start
+
+    useEffect(() => {
+        if (!ctx || ctx.modalOpen) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+            const target = e.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) return;
+            // A focused button keeps its own Enter and Space
+            if (target.tagName === 'BUTTON' && (e.key === 'Enter' || e.key === ' ')) return;
+            const rows = flattenTaskRows(tasks);
+            if (rows.length === 0) return;
+            const index = rows.findIndex(row => row.task.id === ctx.focusedTaskId);
+            const focused = index === -1 ? null : rows[index].task;
+            const canEdit = ctx.can('edit');
+
+            switch (e.key) {
+                case 'ArrowDown':
+                case 'j':
+                    ctx.setFocusedTaskId(rows[Math.min(index + 1, rows.length - 1)].task.id);
+                    break;
+                case 'ArrowUp':
+                case 'k':
+                    ctx.setFocusedTaskId(rows[Math.max(index - 1, 0)].task.id);
+                    break;
+                case 'ArrowRight':
+                    if (!focused || focused.subtasks.length === 0) return;
+                    if (focused.expanded) ctx.setFocusedTaskId(focused.subtasks[0].id);
+                    else ctx.toggleExpand(focused.id);
+                    break;
+                case 'ArrowLeft': {
+                    if (!focused) return;
+                    const place = findTaskPlace(tasks, focused.id);
+                    if (focused.expanded && focused.subtasks.length > 0) ctx.toggleExpand(focused.id);
+                    else if (place?.parent) ctx.setFocusedTaskId(place.parent.id);
+                    break;
+                }
+                case 'Enter':
+                    if (!focused) return;
+                    ctx.openTaskDetail(focused);
+                    break;
+                case ' ':
+                case 'x':
+                    if (!focused || !canEdit || focused.subtasks.length > 0) return;
+                    ctx.toggleTaskStatus(focused.id);
+                    break;
+                case 'Tab': {
+                    // Indent under the previous sibling, outdent to just after the parent
+                    const place = focused && canEdit ? findTaskPlace(tasks, focused.id) : null;
+                    if (!focused || !place) return;
+                    if (e.shiftKey) {
+                        if (!place.parent) return;
+                        ctx.moveTask(focused.id, place.parent.id, 'after');
+                    } else {
+                        if (place.index === 0) return;
+                        ctx.moveTask(focused.id, place.siblings[place.index - 1].id, 'inside');
+                    }
+                    break;
+                }
+                case 'Escape':
+                    if (ctx.selectedTaskIds.length > 0) ctx.setSelectedTaskIds([]);
+                    else if (focused) ctx.setFocusedTaskId(null);
+                    else return;
+                    break;
+                default:
+                    return;
+            }
+            e.preventDefault();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [ctx, tasks]);
+
+    if (!ctx) return null;
+
+    // Ranges follow the rows as drawn, so collapsed subtasks are left out
+    const handleSelect = (taskId: string, range: boolean) => {
+        const rows = flattenTaskRows(tasks).map(row => row.task.id);
+        const from = anchorRef.current ? rows.indexOf(anchorRef.current) : -1;
+        const to = rows.indexOf(taskId);
+        if (range && from !== -1 && to !== -1) {
+            const span = rows.slice(Math.min(from, to), Math.max(from, to) + 1);
+            ctx.setSelectedTaskIds([...ctx.selectedTaskIds.filter(id => !span.includes(id)), ...span]);
+        } else {
+            ctx.setSelectedTaskIds(ctx.selectedTaskIds.includes(taskId) ? ctx.selectedTaskIds.filter(id => id !== taskId) : [...ctx.selectedTaskIds, taskId]);
+        }
+        anchorRef.current = taskId;
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-4 pb-20">
+            {tasks.length === 0 ? (
+                <div className="text-center py-20 opacity-30">
+                    <div className="w-24 h-24 bg-white/5 rounded-full flex items-center justify-center mx-auto mb-6"><Icons.File size={40} /></div>
+                    <p className="text-xl">No hay tareas pendientes</p>
+                    {ctx.can('edit') && (
+                        <div className="flex justify-center gap-4 mt-4">
+                            <button onClick={() => ctx.addTask(null, "Primera tarea")} className="text-indigo-400 hover:text-indigo-300">Crear la primera tarea</button>
+                            <button onClick={() => ctx.openOutlineImport(null)} className="text-indigo-400 hover:text-indigo-300">Pegar un esquema</button>
                         </div>
-                    ) : (
-                        visibleTasks.map((task, i) => <TaskCard key={task.id} task={task} depth={0} themeIndex={i} />)
                     )}
                 </div>
+            ) : (
+                tasks.map((task, i) => <TaskCard key={task.id} task={task} depth={0} themeIndex={i} onSelect={handleSelect} />)
+            )}
+            {tasks.length > 0 && <p className="hidden md:block text-center text-[10px] text-gray-600 pt-4">{TREE_SHORTCUTS}</p>}
+        </div>
+    );
+};
+
+// Only leaves sit on the board: a parent's status is the roll-up of its subtasks
+const KanbanView: React.FC<{ tasks: Task[] }> = ({ tasks }) => {
+    const ctx = useContext(AppContext);
+    const [dropColumn, setDropColumn] = useState<string | null>(null);
+    const workflow = useActiveWorkflow();
+
+    if (!ctx) return null;
+    const canEdit = ctx.can('edit');
+    const parentTitles = new Map<string, string>();
+    const collectParents = (list: Task[]) => list.forEach(t => { t.subtasks.forEach(sub => parentTitles.set(sub.id, t.title)); collectParents(t.subtasks); });
+    collectParents(tasks);
+    const leaves = flattenTasks(tasks).filter(t => t.subtasks.length === 0);
+
+    const handleDrop = (e: React.DragEvent, statusId: string) => {
+        e.preventDefault();
+        setDropColumn(null);
+        const taskId = e.dataTransfer.getData('taskId');
+        if (canEdit && taskId) ctx.setTaskStatus(taskId, statusId);
+    };
+
+    return (
+        <div className="pb-20">
+            {ctx.can('manage') && (
+                <div className="flex justify-end mb-4">
+                    <button onClick={ctx.openWorkflowModal} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-xs text-gray-300"><Icons.Settings size={14} /> Configurar columnas</button>
+                </div>
+            )}
+            <div className="flex gap-4 overflow-x-auto custom-scrollbar pb-4">
+                {workflow.map(status => {
+                    const cards = leaves.filter(t => findStatus(workflow, t.status).id === status.id);
+                    return (
+                        <div
+                            key={status.id}
+                            onDragOver={e => { if (canEdit) { e.preventDefault(); setDropColumn(status.id); } }}
+                            onDragLeave={() => setDropColumn(prev => prev === status.id ? null : prev)}
+                            onDrop={e => handleDrop(e, status.id)}
+                            className={`w-72 shrink-0 rounded-2xl bg-white/[0.02] border p-3 flex flex-col gap-2 min-h-[200px] transition-colors ${dropColumn === status.id ? 'border-indigo-500/60 bg-indigo-500/5' : 'border-white/5'}`}
+                        >
+                            <div className="flex items-center justify-between px-1 mb-1">
+                                <span className={`px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider rounded border ${STATUS_STYLES[status.color]}`}>{status.label}</span>
+                                <span className="text-xs text-gray-500">{cards.length}</span>
+                            </div>
+                            {cards.map(task => {
+                                const dueState = getDueState(task, workflow);
+                                return (
+                                    <div
+                                        key={task.id}
+                                        draggable={canEdit}
+                                        onDragStart={e => e.dataTransfer.setData('taskId', task.id)}
+                                        onClick={() => ctx.openTaskDetail(task)}
+                                        className={`rounded-xl p-3 bg-[#111115] border border-white/5 hover:border-white/20 transition-colors ${canEdit ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'}`}
+                                    >
+                                        {parentTitles.has(task.id) && <div className="text-[10px] text-gray-500 truncate mb-1">{parentTitles.get(task.id)}</div>}
+                                        <div className={`text-sm ${status.progress >= 100 ? 'line-through text-gray-500' : 'text-gray-100'}`}>{task.title}</div>
+                                        <div className="flex items-center gap-2 mt-2">
+                                            <div className="flex -space-x-1.5">{task.assignees.map(id => <Avatar key={id} user={ctx.users.find(u => u.id === id)} size="w-5 h-5 ring-1 ring-[#111115]" />)}</div>
+                                            {dueState !== 'none' && task.dueDate && (
+                                                <span className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] border ${DUE_STYLES[dueState]}`}><Icons.Calendar size={10} /> {formatDateKey(task.dueDate)}</span>
+                                            )}
+                                            {task.attachments.length > 0 && <Icons.Link size={12} className="text-gray-500" />}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+const WorkflowModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const ctx = useContext(AppContext);
+    const project = ctx?.state.projects.find(p => p.id === ctx.activeProjectId);
+    const [draft, setDraft] = useState<WorkflowStatus[]>(() => getWorkflow(project));
+    const [rollup, setRollup] = useState<RollupStrategy>(() => getProgressRules(project).rollup);
+    const [autoComplete, setAutoComplete] = useState(!!project?.autoCompleteParents);
+
+    if (!ctx || !project) return null;
+
+    const updateStatus = (id: string, updates: Partial<WorkflowStatus>) => setDraft(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
+    const moveStatus = (index: number, direction: number) => setDraft(prev => {
+        const next = [...prev];
+        const target = index + direction;
+        if (target < 0 || target >= next.length) return prev;
+        [next[index], next[target]] = [next[target], next[index]];
+        return next;
+    });
+
+    const handleSave = () => {
+        const error = validateWorkflow(draft);
+        if (error) { alert(error); return; }
+        const kept = new Set(draft.map(s => s.id));
+        const affected = flattenTasks(project.tasks).filter(t => t.subtasks.length === 0 && !kept.has(findStatus(getWorkflow(project), t.status).id)).length;
+        if (affected > 0 && !confirm(`${affected} tarea(s) están en columnas eliminadas y pasarán a "${initialStatus(draft).label}". ¿Continuar?`)) return;
+        if (JSON.stringify(draft) !== JSON.stringify(getWorkflow(project))) ctx.updateWorkflow(project.id, draft);
+        if (rollup !== getProgressRules(project).rollup || autoComplete !== !!project.autoCompleteParents) {
+            ctx.updateProgressRules(project.id, { rollup, autoCompleteParents: autoComplete || undefined });
+        }
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-lg p-6 shadow-2xl animate-slide-up flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
+                        <Icons.Kanban className="text-indigo-400" />
+                        Flujo de trabajo
+                    </h3>
+                    <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
+                </div>
+                <p className="text-xs text-gray-500 mb-6">El porcentaje indica cuánto aporta al progreso una tarea en esa columna. Con 100% la tarea cuenta como completada.</p>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2 mb-4">
+                    {draft.map((status, index) => (
+                        <div key={status.id} className="flex items-center gap-2 p-2 rounded-xl bg-white/5 border border-white/5">
+                            <div className="flex flex-col">
+                                <button onClick={() => moveStatus(index, -1)} className="text-gray-500 hover:text-white -rotate-90"><Icons.Expand size={12} /></button>
+                                <button onClick={() => moveStatus(index, 1)} className="text-gray-500 hover:text-white rotate-90"><Icons.Expand size={12} /></button>
+                            </div>
+                            <select value={status.color} onChange={e => updateStatus(status.id, { color: e.target.value as StatusColor })} className={`w-20 rounded-lg border px-1 py-1 text-[10px] bg-transparent ${STATUS_STYLES[status.color]}`}>
+                                {STATUS_COLORS.map(color => <option key={color} value={color} className="bg-[#111115] text-white">{color}</option>)}
+                            </select>
+                            <input value={status.label} onChange={e => updateStatus(status.id, { label: e.target.value })} className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-sm text-white" />
+                            <input type="number" min={0} max={100} value={status.progress} onChange={e => updateStatus(status.id, { progress: Number(e.target.value) })} className="w-16 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-sm text-white" />
+                            <span className="text-xs text-gray-500">%</span>
+                            <button onClick={() => setDraft(prev => prev.filter(s => s.id !== status.id))} disabled={draft.length <= 2} className="p-1.5 hover:bg-rose-500/10 rounded-lg text-gray-500 hover:text-rose-500 disabled:opacity-30"><Icons.Delete size={14} /></button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mb-4 space-y-3">
+                    <p className="text-[10px] uppercase tracking-wider text-gray-500">Progreso de las tareas con subtareas</p>
+                    <div className="grid grid-cols-2 gap-2">
+                        {ROLLUP_OPTIONS.map(option => (
+                            <button key={option.strategy} onClick={() => setRollup(option.strategy)} className={`text-left p-2 rounded-xl border transition-colors ${rollup === option.strategy ? 'bg-indigo-600/20 border-indigo-500/40' : 'bg-white/5 border-white/5 hover:border-white/20'}`}>
+                                <p className="text-xs text-white">{option.label}</p>
+                                <p className="text-[10px] text-gray-500">{option.description}</p>
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-start gap-2 text-xs text-gray-300 cursor-pointer">
+                        <input type="checkbox" checked={autoComplete} onChange={e => setAutoComplete(e.target.checked)} className="accent-indigo-500 mt-0.5" />
+                        <span>Completar una tarea cuando se completan todas sus subtareas, y reabrirla si alguna se reabre</span>
+                    </label>
+                </div>
+
+                <div className="flex justify-between gap-2">
+                    <button onClick={() => setDraft(prev => [...prev, createStatus('Nueva columna')])} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1"><Icons.Add size={14} /> Columna</button>
+                    <button onClick={handleSave} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold transition-colors">Guardar</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Toolbar dropdown; selected tags combine with the text search and with each other
+const TagFilter: React.FC = () => {
+    const ctx = useContext(AppContext);
+    const projectTags = useActiveTags();
+    const [open, setOpen] = useState(false);
+    if (!ctx) return null;
+
+    const toggle = (name: string) => ctx.setTagFilter(ctx.tagFilter.some(tag => sameTag(tag, name))
+        ? ctx.tagFilter.filter(tag => !sameTag(tag, name))
+        : [...ctx.tagFilter, name]);
+
+    return (
+        <div className="relative shrink-0">
+            <button onClick={() => setOpen(o => !o)} title="Filtrar por etiqueta" className={`flex items-center gap-2 px-3 py-2.5 rounded-xl border text-sm transition-colors ${ctx.tagFilter.length > 0 ? 'bg-indigo-600/20 border-indigo-500/40 text-indigo-200' : 'bg-black/20 border-white/10 text-gray-400 hover:text-white'}`}>
+                <Icons.Tag size={16} />
+                {ctx.tagFilter.length > 0 && <span className="text-xs">{ctx.tagFilter.length}</span>}
+            </button>
+            {open && (
+                <>
+                    <div className="fixed inset-0 z-30" onClick={() => setOpen(false)}></div>
+                    <div className="absolute right-0 z-40 mt-2 w-64 bg-[#18181c] border border-white/10 rounded-xl shadow-2xl p-2">
+                        {projectTags.length === 0 && <p className="text-xs text-gray-500 p-2">Este proyecto aún no tiene etiquetas.</p>}
+                        <div className="max-h-64 overflow-y-auto custom-scrollbar">
+                            {projectTags.map(tag => (
+                                <label key={tag.name} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-white/5 cursor-pointer">
+                                    <input type="checkbox" checked={ctx.tagFilter.some(t => sameTag(t, tag.name))} onChange={() => toggle(tag.name)} className="accent-indigo-500" />
+                                    <TagChip name={tag.name} color={tag.color} />
+                                </label>
+                            ))}
+                        </div>
+                        <div className="flex justify-between items-center border-t border-white/5 mt-2 pt-2 px-1">
+                            <button onClick={() => ctx.setTagFilter([])} disabled={ctx.tagFilter.length === 0} className="text-xs text-gray-400 hover:text-white disabled:opacity-30">Limpiar</button>
+                            {ctx.can('edit') && <button onClick={() => { setOpen(false); ctx.openTagManager(); }} className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1"><Icons.Settings size={12} /> Gestionar</button>}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+const TagManagerModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const ctx = useContext(AppContext);
+    const projectTags = useActiveTags();
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    if (!ctx) return null;
+
+    const project = ctx.state.projects.find(p => p.id === ctx.activeProjectId);
+    const usage = countTagUsage(project?.tasks || []);
+
+    // Renaming onto an existing tag merges the two
+    const commitRename = (tag: TagDefinition) => {
+        const next = normalizeTagName(drafts[tag.name] ?? tag.name);
+        setDrafts(prev => { const { [tag.name]: _, ...rest } = prev; return rest; });
+        if (!next || next === tag.name) return;
+        const target = findTag(projectTags, next);
+        if (target && target !== tag && !confirm(`"${target.name}" ya existe. ¿Fusionar "${tag.name}" con "${target.name}" en todas las tareas?`)) return;
+        ctx.renameProjectTag(tag.name, next);
+    };
+
+    const handleDelete = (tag: TagDefinition) => {
+        const count = usage.get(tag.name.toLowerCase()) || 0;
+        if (count > 0 && !confirm(`"${tag.name}" se quitará de ${count} tarea(s). ¿Continuar?`)) return;
+        ctx.deleteProjectTag(tag.name);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-lg p-6 shadow-2xl animate-slide-up flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
+                        <Icons.Tag className="text-indigo-400" />
+                        Etiquetas
+                    </h3>
+                    <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
+                </div>
+                <p className="text-xs text-gray-500 mb-6">Los cambios se aplican a todas las tareas del proyecto. Usa el nombre de otra etiqueta para fusionarlas.</p>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+                    {projectTags.length === 0 && <div className="text-center py-10 text-gray-600 text-sm">Añade etiquetas desde el detalle de una tarea.</div>}
+                    {projectTags.map(tag => (
+                        <div key={tag.name} className="flex items-center gap-2 p-2 rounded-xl bg-white/5 border border-white/5">
+                            <select value={tag.color} onChange={e => ctx.setProjectTagColor(tag.name, e.target.value as StatusColor)} className={`w-20 rounded-lg border px-1 py-1 text-[10px] bg-transparent ${STATUS_STYLES[tag.color]}`}>
+                                {STATUS_COLORS.map(color => <option key={color} value={color} className="bg-[#111115] text-white">{color}</option>)}
+                            </select>
+                            <input
+                                value={drafts[tag.name] ?? tag.name}
+                                onChange={e => setDrafts(prev => ({ ...prev, [tag.name]: e.target.value }))}
+                                onBlur={() => commitRename(tag)}
+                                onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                                className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-sm text-white"
+                            />
+                            <span className="text-xs text-gray-500 w-16 text-right">{usage.get(tag.name.toLowerCase()) || 0} tarea(s)</span>
+                            <button onClick={() => handleDelete(tag)} className="p-1.5 hover:bg-rose-500/10 rounded-lg text-gray-500 hover:text-rose-500"><Icons.Delete size={14} /></button>
+                        </div>
+                    ))}
+                </div>
             </div>
         </div>
     );
+};
+
+const CalendarView: React.FC<{ tasks: Task[] }> = ({ tasks }) => {
+    const ctx = useContext(AppContext);
+    const [range, setRange] = useState<'month' | 'week'>('month');
+    const [anchor, setAnchor] = useState(() => toDateKey(new Date()));
+    const [dropDay, setDropDay] = useState<string | null>(null);
+    const workflow = useActiveWorkflow();
+
+    if (!ctx) return null;
+    const canEdit = ctx.can('edit');
+    const today = toDateKey(new Date());
+    const allTasks = flattenTasks(tasks);
+    const days = range === 'month' ? getMonthGrid(anchor) : listDays(startOfWeek(anchor), 7);
+    const anchorMonth = parseDateKey(anchor).getMonth();
+    const unscheduled = allTasks.filter(t => !t.dueDate && t.subtasks.length === 0);
+
+    const tasksByDay = new Map<string, Task[]>();
+    allTasks.forEach(t => { if (t.dueDate) tasksByDay.set(t.dueDate, [...(tasksByDay.get(t.dueDate) || []), t]); });
+
+    const navigate = (direction: number) => {
+        if (range === 'week') { setAnchor(addDays(anchor, 7 * direction)); return; }
+        const date = parseDateKey(anchor);
+        date.setMonth(date.getMonth() + direction, 1);
+        setAnchor(toDateKey(date));
+    };
+
+    const handleDrop = (e: React.DragEvent, day: string) => {
+        e.preventDefault();
+        setDropDay(null);
+        const task = allTasks.find(t => t.id === e.dataTransfer.getData('taskId'));
+        if (!task || !canEdit) return;
+        if (task.dueDate) ctx.updateTask(task.id, shiftTaskDates(task, daysBetween(task.dueDate, day)));
+        else ctx.updateTask(task.id, task.startDate && task.startDate > day ? { startDate: day, dueDate: day } : { dueDate: day });
+    };
+
+    const renderChip = (task: Task) => {
+        const dueState = getDueState(task, workflow);
+        return (
+            <div
+                key={task.id}
+                draggable={canEdit}
+                onDragStart={e => e.dataTransfer.setData('taskId', task.id)}
+                onClick={() => ctx.openTaskDetail(task)}
+                className={`text-[11px] px-2 py-1 rounded-md border truncate cursor-pointer hover:brightness-125 ${dueState === 'none' ? 'bg-white/5 border-white/5 text-gray-500 line-through' : DUE_STYLES[dueState]}`}
+            >
+                {task.title}
+            </div>
+        );
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto pb-20">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                    <button onClick={() => navigate(-1)} className="p-2 rounded-lg hover:bg-white/10 text-gray-400 rotate-180"><Icons.Expand size={18} /></button>
+                    <button onClick={() => setAnchor(today)} className="px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-xs text-gray-300">Hoy</button>
+                    <button onClick={() => navigate(1)} className="p-2 rounded-lg hover:bg-white/10 text-gray-400"><Icons.Expand size={18} /></button>
+                    <h2 className="ml-2 text-lg font-display text-white capitalize">{parseDateKey(anchor).toLocaleDateString('es', { month: 'long', year: 'numeric' })}</h2>
+                </div>
+                <div className="flex bg-white/5 rounded-lg p-1 text-xs">
+                    {(['month', 'week'] as const).map(r => (
+                        <button key={r} onClick={() => setRange(r)} className={`px-3 py-1 rounded-md ${range === r ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}>{r === 'month' ? 'Mes' : 'Semana'}</button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-7 gap-px bg-white/5 rounded-xl overflow-hidden border border-white/5">
+                {WEEKDAY_LABELS.map(label => <div key={label} className="bg-[#0a0a0d] px-2 py-2 text-[10px] uppercase tracking-widest text-gray-500">{label}</div>)}
+                {days.map(day => {
+                    const dayTasks = tasksByDay.get(day) || [];
+                    const outside = range === 'month' && parseDateKey(day).getMonth() !== anchorMonth;
+                    return (
+                        <div
+                            key={day}
+                            onDragOver={e => { if (canEdit) { e.preventDefault(); setDropDay(day); } }}
+                            onDragLeave={() => setDropDay(prev => prev === day ? null : prev)}
+                            onDrop={e => handleDrop(e, day)}
+                            className={`bg-[#0a0a0d] p-1.5 flex flex-col gap-1 ${range === 'month' ? 'min-h-[96px]' : 'min-h-[320px]'} ${outside ? 'opacity-40' : ''} ${dropDay === day ? 'ring-2 ring-inset ring-indigo-500' : ''}`}
+                        >
+                            <span className={`text-[11px] self-end w-6 h-6 flex items-center justify-center rounded-full ${day === today ? 'bg-indigo-600 text-white' : 'text-gray-500'}`}>{parseDateKey(day).getDate()}</span>
+                            {dayTasks.map(renderChip)}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {canEdit && unscheduled.length > 0 && (
+                <div className="mt-6">
+                    <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-3">Sin fecha · arrastra a un día</h3>
+                    <div className="flex flex-wrap gap-2">{unscheduled.map(renderChip)}</div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const DAY_WIDTH = 32;
+
+interface TimelineDrag {
+    taskId: string;
+    mode: 'move' | 'resize';
+    originX: number;
+    delta: number; // Whole days moved so far
 }
 
+const TimelineView: React.FC<{ tasks: Task[] }> = ({ tasks }) => {
+    const ctx = useContext(AppContext);
+    const [drag, setDrag] = useState<TimelineDrag | null>(null);
+    const [dropTarget, setDropTarget] = useState<{ id: string; position: 'before' | 'inside' } | null>(null);
+    const dragRef = useRef<TimelineDrag | null>(null);
+    dragRef.current = drag;
+    // The window listeners live for the whole drag, so they read the latest tasks and context from refs
+    const tasksRef = useRef(tasks);
+    tasksRef.current = tasks;
+    const ctxRef = useRef(ctx);
+    ctxRef.current = ctx;
+    const suppressClickRef = useRef(false); // The click that ends a drag must not open the task
+    const workflow = useActiveWorkflow();
+
+    const rows = flattenTaskRows(tasks);
+
+    // Bars follow the pointer in whole days; the change is committed once on release
+    useEffect(() => {
+        if (!drag) return;
+        const handleMove = (e: PointerEvent) => setDrag(d => d && { ...d, delta: Math.round((e.clientX - d.originX) / DAY_WIDTH) });
+        const handleUp = () => {
+            const finished = dragRef.current;
+            setDrag(null);
+            if (finished && finished.delta !== 0) suppressClickRef.current = true;
+            const task = finished && finished.delta !== 0 ? flattenTasks(tasksRef.current).find(t => t.id === finished.taskId) : undefined;
+            const latest = ctxRef.current;
+            if (!finished || !task || !latest) return;
+            if (finished.mode === 'move') { latest.updateTask(task.id, shiftTaskDates(task, finished.delta)); return; }
+            const dueDate = addDays(task.dueDate || task.startDate!, finished.delta);
+            if (task.startDate && dueDate < task.startDate) return;
+            latest.updateTask(task.id, { dueDate });
+        };
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+        return () => { window.removeEventListener('pointermove', handleMove); window.removeEventListener('pointerup', handleUp); };
+    }, [drag?.taskId]);
+
+    if (!ctx) return null;
+    const canEdit = ctx.can('edit');
+    const today = toDateKey(new Date());
+
+    const dated = rows.flatMap(({ task }) => { const s = getTaskSchedule(task); return [s.startDate, s.dueDate]; }).filter((d): d is string => !!d).sort();
+    const rangeStart = startOfWeek(addDays(dated[0] && dated[0] < today ? dated[0] : today, -3));
+    const rangeEnd = dated.length > 0 && dated[dated.length - 1] > today ? dated[dated.length - 1] : today;
+    const days = listDays(rangeStart, Math.max(28, daysBetween(rangeStart, rangeEnd) + 14));
+
+    const startDrag = (e: React.PointerEvent, taskId: string, mode: TimelineDrag['mode']) => {
+        if (!canEdit) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setDrag({ taskId, mode, originX: e.clientX, delta: 0 });
+    };
+
+    const handleRowDrop = (e: React.DragEvent, targetId: string) => {
+        e.preventDefault();
+        const draggedId = e.dataTransfer.getData('taskId');
+        if (dropTarget && draggedId && draggedId !== targetId) ctx.moveTask(draggedId, targetId, dropTarget.position);
+        setDropTarget(null);
+    };
+
+    const renderBar = (task: Task) => {
+        const schedule = getTaskSchedule(task);
+        let start = schedule.startDate || schedule.dueDate;
+        let end = schedule.dueDate || schedule.startDate;
+        if (!start || !end) return null;
+        if (drag?.taskId === task.id) {
+            if (drag.mode === 'move') { start = addDays(start, drag.delta); end = addDays(end, drag.delta); }
+            else end = addDays(end, drag.delta) < start ? start : addDays(end, drag.delta);
+        }
+        const left = daysBetween(rangeStart, start) * DAY_WIDTH;
+        const width = (daysBetween(start, end) + 1) * DAY_WIDTH;
+
+        // Rolled-up parent spans are derived, so only their subtasks can be dragged
+        if (schedule.rolledUp) {
+            return <div className="absolute top-1/2 -translate-y-1/2 h-2 rounded-full bg-white/20 border border-white/20" style={{ left, width }} title={`${formatDateKey(start)} → ${formatDateKey(end)}`} />;
+        }
+        const dueState = getDueState(task, workflow);
+        return (
+            <div
+                onPointerDown={e => startDrag(e, task.id, 'move')}
+                onClick={e => {
+                    e.stopPropagation();
+                    if (suppressClickRef.current) { suppressClickRef.current = false; return; }
+                    ctx.openTaskDetail(task);
+                }}
+                className={`absolute top-1/2 -translate-y-1/2 h-6 rounded-md border flex items-center px-2 text-[10px] truncate select-none ${canEdit ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'} ${dueState === 'none' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : dueState === 'upcoming' ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-200' : DUE_STYLES[dueState]}`}
+                style={{ left, width }}
+                title={`${formatDateKey(start)} → ${formatDateKey(end)}`}
+            >
+                {width > 60 && task.title}
+                {canEdit && <div onPointerDown={e => startDrag(e, task.id, 'resize')} className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize" />}
+            </div>
+        );
+    };
+
+    return (
+        <div className="pb-20 overflow-x-auto custom-scrollbar rounded-xl border border-white/5 bg-[#0a0a0d]">
+            <div style={{ width: 256 + days.length * DAY_WIDTH }}>
+                <div className="flex sticky top-0 z-10 bg-[#0a0a0d] border-b border-white/5">
+                    <div className="w-64 shrink-0 sticky left-0 bg-[#0a0a0d] px-4 py-2 text-[10px] uppercase tracking-widest text-gray-500 border-r border-white/5">Tarea</div>
+                    {days.map(day => {
+                        const date = parseDateKey(day);
+                        return (
+                            <div key={day} className={`shrink-0 text-center py-1 text-[10px] ${day === today ? 'text-indigo-400' : 'text-gray-500'} ${date.getDay() === 1 ? 'border-l border-white/10' : ''}`} style={{ width: DAY_WIDTH }}>
+                                <div className="h-3 capitalize">{date.getDate() === 1 || day === rangeStart ? date.toLocaleDateString('es', { month: 'short' }) : ''}</div>
+                                {date.getDate()}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {rows.map(({ task, depth }) => (
+                    <div key={task.id} className="flex h-10 border-b border-white/[0.03] hover:bg-white/[0.02]">
+                        <div
+                            draggable={canEdit}
+                            onDragStart={e => e.dataTransfer.setData('taskId', task.id)}
+                            onDragOver={e => {
+                                if (!canEdit) return;
+                                e.preventDefault();
+                                const rect = e.currentTarget.getBoundingClientRect();
+                                setDropTarget({ id: task.id, position: e.clientY - rect.top < rect.height / 2 ? 'before' : 'inside' });
+                            }}
+                            onDragLeave={() => setDropTarget(prev => prev?.id === task.id ? null : prev)}
+                            onDrop={e => handleRowDrop(e, task.id)}
+                            className={`w-64 shrink-0 sticky left-0 z-[1] bg-[#0a0a0d] flex items-center gap-1 pr-2 border-r border-white/5 text-sm ${dropTarget?.id === task.id ? (dropTarget.position === 'before' ? 'border-t-2 border-t-cyan-400' : 'bg-indigo-500/10') : ''}`}
+                            style={{ paddingLeft: 8 + depth * 16 }}
+                        >
+                            {task.subtasks.length > 0 ? (
+                                <button onClick={() => ctx.toggleExpand(task.id)} className="p-0.5 text-gray-500 hover:text-white">{task.expanded ? <Icons.Collapse size={14} /> : <Icons.Expand size={14} />}</button>
+                            ) : <span className="w-[18px]" />}
+                            <span onClick={() => ctx.openTaskDetail(task)} className={`truncate cursor-pointer hover:text-indigo-400 ${isTaskDone(task, workflow) ? 'line-through text-gray-500' : 'text-gray-200'}`}>{task.title}</span>
+                        </div>
+                        <div
+                            className="relative flex-1"
+                            onClick={e => {
+                                // Clicking an empty leaf row schedules it on that day
+                                const schedule = getTaskSchedule(task);
+                                if (!canEdit || task.subtasks.length > 0 || schedule.startDate || schedule.dueDate) return;
+                                const offset = Math.floor((e.clientX - e.currentTarget.getBoundingClientRect().left) / DAY_WIDTH);
+                                ctx.updateTask(task.id, { dueDate: addDays(rangeStart, offset) });
+                            }}
+                        >
+                            <div className="absolute top-0 bottom-0 w-px bg-indigo-500/40" style={{ left: (daysBetween(rangeStart, today) + 0.5) * DAY_WIDTH }} />
+                            {renderBar(task)}
+                        </div>
+                    </div>
+                ))}
+                {rows.length === 0 && <div className="text-center py-12 text-gray-600 text-sm">No hay tareas</div>}
+            </div>
+        </div>
+    );
+};
+
 // ... Main App Component Updates ...
-const App: React.FC = () => {
-  // ... State Initialization (Same as before) ...
-  const [state, setState] = useState<AppState>(() => {
-    try {
-        const saved = localStorage.getItem('proyectate_app_state');
-        if (saved) return JSON.parse(saved);
-    } catch (e) { console.warn(e); }
-    return INITIAL_APP_STATE;
-  });
+const OutlinePreview: React.FC<{ nodes: OutlineNode[] }> = ({ nodes }) => (
+    <ul className="space-y-1">
+        {nodes.map((node, i) => (
+            <li key={i}>
+                <div className="flex items-center gap-2 text-sm">
+                    {node.done ? <Icons.Check size={14} className="text-emerald-400 shrink-0" /> : <Icons.Circle size={14} className="text-gray-600 shrink-0" />}
+                    <span className={node.done ? 'text-gray-500 line-through' : 'text-gray-200'}>{node.title}</span>
+                </div>
+                {node.children.length > 0 && <div className="ml-5 mt-1 pl-2 border-l border-white/5"><OutlinePreview nodes={node.children} /></div>}
+            </li>
+        ))}
+    </ul>
+);
 
-  // NEW: Persistent Users State
-  const [users, setUsers] = useState<User[]>(() => {
-    try {
-      const saved = localStorage.getItem('proyectate_users');
-      if (saved) return JSON.parse(saved);
-    } catch (e) { console.warn(e); }
-    return USERS;
-  });
+// Paste a checklist or indented list; nothing is created until the preview is accepted
+const OutlineImportModal: React.FC<{ parentId: string | null; onClose: () => void }> = ({ parentId, onClose }) => {
+    const ctx = useContext(AppContext);
+    const [text, setText] = useState('');
+    if (!ctx) return null;
+
+    const project = ctx.state.projects.find(p => p.id === ctx.activeProjectId);
+    const parent = parentId && project ? flattenTasks(project.tasks).find(t => t.id === parentId) : undefined;
+    const nodes = parseOutline(text);
+    const { total, done } = countOutline(nodes);
+    const tooMany = total > MAX_OUTLINE_TASKS;
+
+    const handleCreate = () => {
+        if (total === 0 || tooMany) return;
+        ctx.addTaskTree(parentId, nodes);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-4xl p-6 shadow-2xl animate-slide-up flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
+                        <Icons.Paste className="text-indigo-400" />
+                        Pegar esquema
+                    </h3>
+                    <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
+                </div>
+                <p className="text-xs text-gray-500 mb-4">
+                    {parent ? `Las tareas se crearán como subtareas de "${parent.title}".` : 'Las tareas se crearán en la raíz del proyecto.'} La sangría define la jerarquía; los elementos marcados con [x] se crean completados.
+                </p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 min-h-0">
+                    <textarea
+                        autoFocus
+                        value={text}
+                        onChange={e => setText(e.target.value)}
+                        placeholder={"- [ ] Confirmar pedido\n    - [x] Cotización\n    - [ ] Flete\n- [ ] Pago"}
+                        className="w-full h-72 md:h-auto bg-black/30 border border-white/10 rounded-xl p-4 text-sm text-white font-mono placeholder:text-gray-700 focus:outline-none focus:border-indigo-500/50 resize-none custom-scrollbar"
+                    />
+                    <div className="bg-white/[0.02] border border-white/5 rounded-xl p-4 overflow-y-auto custom-scrollbar h-72 md:h-auto">
+                        {total === 0 ? <p className="text-xs text-gray-600">La vista previa aparecerá aquí.</p> : <OutlinePreview nodes={nodes} />}
+                    </div>
+                </div>
+
+                <div className="flex justify-between items-center gap-4 mt-4">
+                    <span className={`text-xs ${tooMany ? 'text-rose-400' : 'text-gray-500'}`}>
+                        {tooMany ? `Máximo ${MAX_OUTLINE_TASKS} tareas por pegado (hay ${total}).` : `${total} tarea(s), ${done} completada(s)`}
+                    </span>
+                    <button onClick={handleCreate} disabled={total === 0 || tooMany} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold transition-colors disabled:opacity-40">Crear {total > 0 ? total : ''} tarea(s)</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Literal text becomes a {{variable}} so the saved structure can be reused for another product or client
+const SaveTemplateModal: React.FC<{ taskId: string | null; onClose: () => void }> = ({ taskId, onClose }) => {
+    const ctx = useContext(AppContext);
+    const project = ctx?.state.projects.find(p => p.id === ctx.activeProjectId);
+    const task = project && taskId ? flattenTasks(project.tasks).find(t => t.id === taskId) : undefined;
+    const [name, setName] = useState(task?.title || project?.title || '');
+    const [replacements, setReplacements] = useState<PlaceholderReplacement[]>([{ text: '', name: '' }]);
+    if (!ctx || !project) return null;
+
+    const sourceTasks = task ? [task] : project.tasks;
+    const updateRow = (index: number, changes: Partial<PlaceholderReplacement>) => setReplacements(rows => rows.map((row, i) => i === index ? { ...row, ...changes } : row));
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        const valid = replacements
+            .map(row => ({ text: row.text, name: normalizePlaceholderName(row.name) }))
+            .filter(row => row.text.trim() && row.name);
+        ctx.saveTemplate(name.trim(), taskId, valid);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <form onSubmit={handleSave} className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-lg p-6 shadow-2xl animate-slide-up space-y-5" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h3 className="text-xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
+                        <Icons.Book className="text-indigo-400" />
+                        Guardar como plantilla
+                    </h3>
+                    <button type="button" onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
+                </div>
+                <p className="text-xs text-gray-500">
+                    {task ? `"${task.title}" y sus subtareas` : `Todas las tareas de "${project.title}"`}: se guardan títulos, descripciones, etiquetas, contexto IA, repeticiones, dependencias y fechas relativas. No se guardan la actividad, los adjuntos, los responsables ni los estados.
+                </p>
+                <label className="block text-[10px] uppercase tracking-wider text-gray-500 space-y-1">
+                    Nombre
+                    <input autoFocus value={name} onChange={e => setName(e.target.value)} className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white normal-case tracking-normal focus:outline-none focus:border-indigo-500/50" />
+                </label>
+                <div className="space-y-2">
+                    <p className="text-[10px] uppercase tracking-wider text-gray-500">Variables</p>
+                    <p className="text-xs text-gray-500">Reemplaza un texto, como el nombre del producto, por una variable que se pedirá al usar la plantilla.</p>
+                    {replacements.map((row, i) => {
+                        const count = countOccurrences(sourceTasks, row.text) + (!task && row.text ? project.subtitle.split(row.text).length - 1 : 0);
+                        return (
+                            <div key={i} className="flex items-center gap-2">
+                                <input value={row.text} onChange={e => updateRow(i, { text: e.target.value })} placeholder="Texto, p. ej. Lavanda" className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500/50" />
+                                <span className="text-gray-600 text-xs">→</span>
+                                <input value={row.name} onChange={e => updateRow(i, { name: e.target.value })} placeholder="producto" className="w-32 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500/50" />
+                                <span className={`w-16 text-[10px] ${row.text && count === 0 ? 'text-amber-400' : 'text-gray-500'}`}>{row.text ? (count === 1 ? '1 vez' : `${count} veces`) : ''}</span>
+                            </div>
+                        );
+                    })}
+                    <button type="button" onClick={() => setReplacements(rows => [...rows, { text: '', name: '' }])} className="text-xs text-indigo-400 hover:text-indigo-300">+ Otra variable</button>
+                </div>
+                <div className="flex justify-end">
+                    <button type="submit" disabled={!name.trim()} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold transition-colors disabled:opacity-40">Guardar plantilla</button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+// New projects start here: empty or from a template, whose variables are asked before creating anything
+const TemplatePickerModal: React.FC<{ target: TemplateTarget; onClose: () => void }> = ({ target, onClose }) => {
+    const ctx = useContext(AppContext);
+    const templates = [...(ctx?.state.templates || [])].sort((a, b) => b.createdAt - a.createdAt);
+    const [templateId, setTemplateId] = useState<string | null>(target.kind === 'task' ? templates[0]?.id || null : null);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [startDate, setStartDate] = useState(toDateKey(new Date()));
+    const [title, setTitle] = useState('');
+    const [subtitle, setSubtitle] = useState('');
+    if (!ctx) return null;
+
+    const project = ctx.state.projects.find(p => p.id === ctx.activeProjectId);
+    const parent = target.kind === 'task' && target.parentId && project ? flattenTasks(project.tasks).find(t => t.id === target.parentId) : undefined;
+    const template = templates.find(t => t.id === templateId);
+    const placeholders = template ? listPlaceholders(template) : [];
+    const missing = placeholders.filter(name => !values[name]?.trim());
+    const canDelete = (createdBy: string) => createdBy === ctx.currentUser.id || ctx.currentUser.accountRole === 'admin';
+    const ready = missing.length === 0 && (target.kind === 'task' ? !!template : !!fillPlaceholders(title, values).trim());
+
+    const selectTemplate = (id: string | null) => {
+        const next = templates.find(t => t.id === id);
+        setTemplateId(id);
+        if (target.kind === 'project') {
+            setTitle(next ? next.name : '');
+            setSubtitle(next?.subtitle || '');
+        }
+    };
+
+    const handleDelete = (id: string, name: string) => {
+        if (!confirm(`¿Eliminar la plantilla "${name}"? Los proyectos ya creados con ella no cambian.`)) return;
+        ctx.deleteTemplate(id);
+        if (templateId === id) selectTemplate(null);
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!ready) return;
+        if (target.kind === 'project') ctx.createProjectFromTemplate(fillPlaceholders(title, values).trim(), fillPlaceholders(subtitle, values).trim(), templateId, values, startDate);
+        else if (templateId) ctx.insertTemplate(templateId, target.parentId, values, startDate);
+        onClose();
+    };
+
+    const fieldClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white normal-case tracking-normal focus:outline-none focus:border-indigo-500/50';
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <form onSubmit={handleCreate} className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-3xl p-6 shadow-2xl animate-slide-up flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-xl font-display font-normal text-white flex items-center gap-3 tracking-wide">
+                        <Icons.Template className="text-indigo-400" />
+                        {target.kind === 'project' ? 'Nuevo proyecto' : 'Usar plantilla'}
+                    </h3>
+                    <button type="button" onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-gray-400"><Icons.Close /></button>
+                </div>
+                <p className="text-xs text-gray-500 mb-4">
+                    {target.kind === 'project' ? 'Empieza vacío o a partir de una plantilla.' : parent ? `Las tareas se crearán como subtareas de "${parent.title}".` : 'Las tareas se crearán en la raíz del proyecto.'}
+                </p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 flex-1 min-h-0">
+                    <div className="space-y-2 overflow-y-auto custom-scrollbar pr-1">
+                        {target.kind === 'project' && (
+                            <button type="button" onClick={() => selectTemplate(null)} className={`w-full text-left p-3 rounded-xl border transition-colors ${templateId === null ? 'border-indigo-500 bg-indigo-500/10' : 'border-white/10 bg-white/5 hover:bg-white/10'}`}>
+                                <div className="text-sm text-white">Proyecto vacío</div>
+                                <div className="text-[10px] text-gray-500">Sin tareas, con el flujo de trabajo por defecto</div>
+                            </button>
+                        )}
+                        {templates.map(t => (
+                            <div key={t.id} onClick={() => selectTemplate(t.id)} className={`group relative cursor-pointer p-3 rounded-xl border transition-colors ${templateId === t.id ? 'border-indigo-500 bg-indigo-500/10' : 'border-white/10 bg-white/5 hover:bg-white/10'}`}>
+                                <div className="text-sm text-white pr-6 truncate">{t.name}</div>
+                                <div className="text-[10px] text-gray-500">
+                                    {t.source === 'project' ? 'Proyecto' : 'Tarea'} · {countTemplateTasks(t)} tarea(s) · {ctx.users.find(u => u.id === t.createdBy)?.name || 'Usuario desconocido'}
+                                </div>
+                                {canDelete(t.createdBy) && (
+                                    <button type="button" onClick={e => { e.stopPropagation(); handleDelete(t.id, t.name); }} title="Eliminar plantilla" className="absolute top-2 right-2 p-1 rounded-lg text-gray-500 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity"><Icons.Delete size={14} /></button>
+                                )}
+                            </div>
+                        ))}
+                        {templates.length === 0 && (
+                            <p className="text-xs text-gray-600 p-3">Aún no hay plantillas. Guarda un proyecto o una tarea como plantilla desde su menú.</p>
+                        )}
+                    </div>
+
+                    <div className="space-y-4 overflow-y-auto custom-scrollbar pr-1">
+                        {target.kind === 'project' && (
+                            <>
+                                <label className="block text-[10px] uppercase tracking-wider text-gray-500 space-y-1">
+                                    Nombre del proyecto
+                                    <input autoFocus value={title} onChange={e => setTitle(e.target.value)} className={fieldClass} />
+                                </label>
+                                <label className="block text-[10px] uppercase tracking-wider text-gray-500 space-y-1">
+                                    Subtítulo
+                                    <input value={subtitle} onChange={e => setSubtitle(e.target.value)} placeholder="Opcional" className={fieldClass} />
+                                </label>
+                            </>
+                        )}
+                        {placeholders.map(name => (
+                            <label key={name} className="block text-[10px] uppercase tracking-wider text-gray-500 space-y-1">
+                                {name}
+                                <input value={values[name] || ''} onChange={e => setValues(prev => ({ ...prev, [name]: e.target.value }))} className={fieldClass} />
+                            </label>
+                        ))}
+                        {template && templateHasDates(template) && (
+                            <label className="block text-[10px] uppercase tracking-wider text-gray-500 space-y-1">
+                                Fecha de inicio
+                                <input type="date" value={startDate} onChange={e => e.target.value && setStartDate(e.target.value)} className={`${fieldClass} [color-scheme:dark]`} />
+                                <span className="block normal-case tracking-normal text-gray-600">Las fechas de las tareas se calculan a partir de este día.</span>
+                            </label>
+                        )}
+                        {template && placeholders.length > 0 && target.kind === 'project' && title && (
+                            <p className="text-xs text-gray-500">Se creará «{fillPlaceholders(title, values)}».</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex justify-between items-center gap-4 mt-4">
+                    <span className="text-xs text-gray-500">
+                        {missing.length > 0 ? `Completa: ${missing.join(', ')}` : template ? `${countTemplateTasks(template)} tarea(s)` : ''}
+                        {target.kind === 'task' && project && (
+                            <button type="button" onClick={() => { onClose(); ctx.openSaveTemplate(null); }} className="ml-3 text-indigo-400 hover:text-indigo-300">Guardar este proyecto como plantilla</button>
+                        )}
+                    </span>
+                    <button type="submit" disabled={!ready} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold transition-colors disabled:opacity-40">
+                        {target.kind === 'project' ? 'Crear proyecto' : 'Crear tareas'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+// Ctrl+K: jump to any project or task and run the common actions without leaving the keyboard
+const CommandPalette: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const ctx = useContext(AppContext);
+    const [query, setQuery] = useState('');
+    const [highlight, setHighlight] = useState(0);
+    if (!ctx) return null;
+
+    const activeProject = ctx.state.projects.find(p => p.id === ctx.activeProjectId);
+    const projects = ctx.state.projects.filter(p => ctx.can('view', p.id));
+    const canEdit = !!activeProject && ctx.can('edit');
+    const focused = activeProject && ctx.focusedTaskId ? flattenTasks(activeProject.tasks).find(t => t.id === ctx.focusedTaskId) : undefined;
+    const typed = query.trim();
+
+    const openTask = (project: Project, task: Task) => {
+        ctx.setActiveProjectId(project.id);
+        ctx.setFocusedTaskId(task.id);
+        ctx.openTaskDetail(task);
+    };
+    const taskCommands = (project: Project, tasks: Task[], path: string[]): Command[] => tasks.flatMap(task => [
+        { id: `task:${task.id}`, section: 'Tareas' as const, label: task.title, hint: [project.title, ...path].join(' / '), run: () => openTask(project, task) },
+        ...taskCommands(project, task.subtasks, [...path, task.title]),
+    ]);
+
+    const actions: (Command | false)[] = [
+        canEdit && !!typed && { id: 'create', section: 'Acciones', label: `Crear tarea «${typed}»`, run: () => ctx.addTask(null, typed) },
+        canEdit && !!typed && !!focused && { id: 'create-sub', section: 'Acciones', label: `Crear subtarea «${typed}» en «${focused!.title}»`, run: () => ctx.addTask(focused!.id, typed) },
+        canEdit && { id: 'new-task', section: 'Acciones', label: 'Nueva tarea…', keywords: 'crear agregar', run: () => ctx.requestInput("Nueva Tarea Principal", title => ctx.addTask(null, title)) },
+        canEdit && { id: 'paste-outline', section: 'Acciones', label: focused ? `Pegar esquema en «${focused.title}»…` : 'Pegar esquema…', keywords: 'lista markdown importar', run: () => ctx.openOutlineImport(focused?.id || null) },
+        canEdit && { id: 'use-template', section: 'Acciones', label: focused ? `Usar plantilla en «${focused.title}»…` : 'Usar plantilla…', keywords: 'modelo estructura', run: () => ctx.openTemplatePicker({ kind: 'task', parentId: focused?.id || null }) },
+        !!activeProject && { id: 'save-template', section: 'Acciones', label: focused ? `Guardar «${focused.title}» como plantilla…` : 'Guardar proyecto como plantilla…', keywords: 'modelo estructura', run: () => ctx.openSaveTemplate(focused?.id || null) },
+        { id: 'new-project', section: 'Acciones', label: 'Nuevo proyecto…', keywords: 'crear plantilla', run: () => ctx.openTemplatePicker({ kind: 'project' }) },
+        !!activeProject && { id: 'copy-markdown', section: 'Acciones', label: focused ? `Copiar «${focused.title}» como Markdown` : 'Copiar proyecto como Markdown', keywords: 'lista exportar', run: () => ctx.copyTasksAsMarkdown(focused?.id || null) },
+        canEdit && !!focused && focused!.subtasks.length === 0 && {
+            id: 'toggle', section: 'Acciones', label: `${isTaskDone(focused!, getWorkflow(activeProject)) ? 'Reabrir' : 'Completar'} «${focused!.title}»`, keywords: 'estado marcar', run: () => ctx.toggleTaskStatus(focused!.id),
+        },
+        !!focused && { id: 'open-focused', section: 'Acciones', label: `Abrir «${focused!.title}»`, run: () => ctx.openTaskDetail(focused!) },
+        ctx.canUndo && { id: 'undo', section: 'Acciones', label: 'Deshacer', run: ctx.undo },
+        ctx.canRedo && { id: 'redo', section: 'Acciones', label: 'Rehacer', run: ctx.redo },
+        { id: 'ai', section: 'Acciones', label: 'Preguntar al asistente IA', keywords: 'ai bot inteligencia', run: ctx.openAIModal },
+        { id: 'stats', section: 'Acciones', label: 'Ver estadísticas', keywords: 'progreso resumen horas', run: ctx.openStatsModal },
+        !!activeProject && { id: 'budget', section: 'Acciones', label: 'Ver presupuesto', keywords: 'costos gastos moneda tipo de cambio', run: ctx.openBudgetModal },
+        ...VIEW_MODES.map(({ mode, label }) => !!activeProject && { id: `view:${mode}`, section: 'Acciones' as const, label: `Vista: ${label}`, run: () => ctx.setProjectView(activeProject!.id, mode) }),
+        !!activeProject && { id: 'home', section: 'Acciones', label: 'Volver a proyectos', keywords: 'inicio', run: () => ctx.setActiveProjectId(null) },
+        { id: 'trash', section: 'Acciones', label: 'Abrir papelera', run: ctx.openTrash },
+        { id: 'team', section: 'Acciones', label: 'Perfil y equipo', keywords: 'usuarios miembros', run: ctx.openUserManagement },
+        { id: 'switch-user', section: 'Acciones', label: 'Cambiar de usuario', keywords: 'cerrar sesión salir', run: ctx.logout },
+    ];
+    const commands: Command[] = [
+        ...actions.filter((c): c is Command => !!c),
+        ...projects.map(p => ({ id: `project:${p.id}`, section: 'Proyectos' as const, label: p.title, hint: p.subtitle, run: () => ctx.setActiveProjectId(p.id) })),
+        ...projects.flatMap(p => taskCommands(p, p.tasks, [])),
+    ];
+    const results = rankCommands(commands, query);
+    const selected = Math.min(highlight, results.length - 1);
+
+    const run = (command: Command) => {
+        onClose();
+        command.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') { e.preventDefault(); setHighlight(Math.min(selected + 1, results.length - 1)); }
+        else if (e.key === 'ArrowUp') { e.preventDefault(); setHighlight(Math.max(selected - 1, 0)); }
+        else if (e.key === 'Enter' && results[selected]) { e.preventDefault(); run(results[selected]); }
+        else if (e.key === 'Escape') onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[110] bg-black/60 backdrop-blur-sm flex items-start justify-center p-4 pt-[15vh] animate-fade-in" onClick={onClose}>
+            <div className="bg-[#111115] border border-white/10 rounded-2xl w-full max-w-xl shadow-2xl animate-slide-up overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center gap-3 px-4 border-b border-white/5">
+                    <Icons.Search size={18} className="text-gray-500" />
+                    <input autoFocus value={query} onChange={e => { setQuery(e.target.value); setHighlight(0); }} onKeyDown={handleKeyDown} placeholder="Busca un proyecto, una tarea o un comando..." className="flex-1 bg-transparent py-4 text-sm text-white placeholder:text-gray-600 focus:outline-none" />
+                    <kbd className="text-[10px] text-gray-500 border border-white/10 rounded px-1.5 py-0.5">Esc</kbd>
+                </div>
+                <div className="max-h-[50vh] overflow-y-auto custom-scrollbar py-2">
+                    {results.length === 0 && <div className="text-center py-8 text-sm text-gray-600">Sin resultados</div>}
+                    {results.map((command, index) => (
+                        <React.Fragment key={command.id}>
+                            {(index === 0 || results[index - 1].section !== command.section) && (
+                                <div className="px-4 pt-3 pb-1 text-[10px] font-bold uppercase tracking-widest text-gray-600">{command.section}</div>
+                            )}
+                            <button
+                                ref={index === selected ? (el => el?.scrollIntoView({ block: 'nearest' })) : undefined}
+                                onClick={() => run(command)}
+                                onMouseMove={() => index !== selected && setHighlight(index)}
+                                className={`w-full text-left px-4 py-2 flex items-center justify-between gap-4 text-sm ${index === selected ? 'bg-indigo-600/20 text-white' : 'text-gray-300'}`}
+                            >
+                                <span className="truncate">{command.label}</span>
+                                {command.hint && <span className="text-[10px] text-gray-500 truncate max-w-[45%]">{command.hint}</span>}
+                            </button>
+                        </React.Fragment>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const App: React.FC = () => {
+  // State is hydrated asynchronously from the storage adapter
+  const [state, setState] = useState<AppState>(INITIAL_APP_STATE);
+  const [users, setUsers] = useState<User[]>(SEED_USERS);
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Set when loading failed: nothing is saved until a load succeeds, so the seed never overwrites real data
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [notice, setNotice] = useState<Notice | null>(null);
   
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [sessionUserId, setSessionUserId] = useState<string | null>(null);
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const [activeTask, setActiveTask] = useState<Task | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [taskSort, setTaskSort] = useState<TaskSort>('manual');
   const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
   const [modalConfig, setModalConfig] = useState<{title: string, callback: (val: string) => void} | null>(null);
   const [showAI, setShowAI] = useState(false);
   const [showStats, setShowStats] = useState(false);
-  const [showProfile, setShowProfile] = useState(false);
+  const [showBudget, setShowBudget] = useState(false);
+  const [showUserManagement, setShowUserManagement] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showWorkflow, setShowWorkflow] = useState(false);
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [outlineParentId, setOutlineParentId] = useState<string | null | undefined>(undefined); // undefined while closed; null pastes at the root
+  const [templateSourceId, setTemplateSourceId] = useState<string | null | undefined>(undefined); // undefined while closed; null saves the project
+  const [templateTarget, setTemplateTarget] = useState<TemplateTarget | null>(null);
+  const [focusedTaskId, setFocusedTaskId] = useState<string | null>(null);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+  const [projectViews, setProjectViews] = useState<Record<string, ProjectViewMode>>({});
+  const [sentReminders, setSentReminders] = useState<Record<string, SentReminders>>({}); // By user id
+  const sentRemindersRef = useRef(sentReminders);
+  sentRemindersRef.current = sentReminders;
+  const [importBundle, setImportBundle] = useState<ExportBundle | null>(null);
+  const [history, setHistory] = useState<HistoryState>({});
+  const [undoToast, setUndoToast] = useState<{ label: string; scope: string } | null>(null);
 
   // Persistence Effects
-  useEffect(() => { localStorage.setItem('proyectate_app_state', JSON.stringify(state)); }, [state]);
+  useEffect(() => {
+    let cancelled = false;
+    const hydrate = async () => {
+      try {
+        await migrateLegacyStorage(storage);
+        const [savedState, savedUsers, session, viewPrefs, reminders] = await Promise.all([
+          storage.getItem<unknown>(STATE_KEY),
+          storage.getItem<unknown>(USERS_KEY),
+          storage.getItem<{ userId: string }>(SESSION_KEY),
+          storage.getItem<Record<string, ProjectViewMode>>(VIEW_PREFS_KEY),
+          storage.getItem<Record<string, SentReminders>>(REMINDERS_KEY),
+        ]);
+        if (cancelled) return;
+        if (savedState) {
+          // Old saves are migrated and repaired before anything renders them
+          const { state: migrated, quarantined } = loadAppState(savedState);
+          const loaded = { ...migrated, trash: purgeExpiredTrash(migrated.trash, migrated.trashRetentionDays).kept };
+          setState(loaded);
+          if (quarantined > 0) setNotice({ tone: 'info', message: `${quarantined} elemento(s) dañados se movieron a cuarentena al cargar los datos.` });
+          pruneOrphanBlobs(loaded, storage).catch(e => console.warn(e));
+        }
+        const loadedUsers = loadUsers(savedUsers);
+        if (loadedUsers) setUsers(loadedUsers);
+        if (session?.userId) setSessionUserId(session.userId);
+        if (viewPrefs && typeof viewPrefs === 'object') setProjectViews(viewPrefs);
+        if (reminders && typeof reminders === 'object') setSentReminders(reminders);
+        if (!cancelled) setLoadError(null);
+      } catch (e) {
+        console.warn(e);
+        if (!cancelled) setLoadError(describeStorageError(e));
+      }
+      if (!cancelled) setIsHydrated(true);
+    };
+    hydrate();
+    return () => { cancelled = true; };
+  }, [loadAttempt]);
+
+  const persist = useCallback(<T,>(key: string, value: T) => {
+    storage.setItem(key, value)
+      .then(() => setNotice(prev => prev?.tone === 'error' ? null : prev))
+      .catch(e => { console.warn(e); setNotice({ tone: 'error', message: describeStorageError(e) }); });
+  }, []);
+
+  const canPersist = isHydrated && !loadError;
+  useEffect(() => { if (canPersist) persist(STATE_KEY, state); }, [state, canPersist, persist]);
+  useEffect(() => { if (canPersist) persist(USERS_KEY, serializeUsers(users)); }, [users, canPersist, persist]);
+  useEffect(() => { if (canPersist) persist(VIEW_PREFS_KEY, projectViews); }, [projectViews, canPersist, persist]);
+  useEffect(() => { if (canPersist) persist(REMINDERS_KEY, sentReminders); }, [sentReminders, canPersist, persist]);
+
+  // Tags and sorting belong to a project, so they do not carry over to the next one
+  useEffect(() => {
+    setTagFilter([]);
+    setTaskSort('manual');
+    setFocusedTaskId(null);
+    setSelectedTaskIds([]);
+  }, [activeProjectId]);
+
+  // Removed users lose their session; invited users have none until they accept
+  const currentUser = useMemo(() => users.find(u => u.id === sessionUserId && u.status === 'active') || null, [users, sessionUserId]);
+
+  const login = useCallback((userId: string) => {
+    setSessionUserId(userId);
+    persist(SESSION_KEY, { userId, startedAt: Date.now() });
+  }, [persist]);
+
+  // Ends the session and drops everything tied to it, so the next person starts clean
+  const logout = useCallback(() => {
+    setSessionUserId(null);
+    setActiveProjectId(null);
+    setActiveTask(null);
+    setSearchQuery('');
+    setModalConfig(null);
+    setShowAI(false);
+    setShowStats(false);
+    setShowBudget(false);
+    setShowUserManagement(false);
+    setShowMembers(false);
+    setShowTrash(false);
+    setShowWorkflow(false);
+    setShowTagManager(false);
+    setShowPalette(false);
+    setOutlineParentId(undefined);
+    setTemplateSourceId(undefined);
+    setTemplateTarget(null);
+    setImportBundle(null);
+    setHistory({});
+    setUndoToast(null);
+    storage.removeItem(SESSION_KEY).catch(e => console.warn(e));
+  }, []);
   
   const requestInput = useCallback((title: string, callback: (val: string) => void) => { setModalConfig({ title, callback }); }, []);
 
-  const addProject = useCallback((title: string, subtitle: string) => {
+  // Latest state for permission checks and history inside memoized callbacks
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  const authorize = useCallback((projectId: string | null, action: ProjectAction): boolean => {
+      if(!currentUser || !projectId) return false;
+      const project = stateRef.current.projects.find(p => p.id === projectId);
+      if (project && canPerform(project, currentUser.id, action)) return true;
+      setNotice({ tone: 'error', message: describeDenied(action) });
+      return false;
+  }, [currentUser]);
+
+  const can = useCallback((action: ProjectAction, projectId: string | null = activeProjectId) => {
+      const project = state.projects.find(p => p.id === projectId);
+      return !!project && !!currentUser && canPerform(project, currentUser.id, action);
+  }, [state.projects, currentUser, activeProjectId]);
+
+  // Every project mutation goes through here so it is applied once and can be undone.
+  // The updater returns the new project, null to remove it, or undefined for no change.
+  const commitProject = useCallback((projectId: string, label: string | null, updater: (p: Project | undefined) => Project | null | undefined, options: CommitOptions = {}) => {
+      const { updateTrash, insertAt, ...entryOptions } = options;
+      const prev = stateRef.current;
+      const found = prev.projects.findIndex(p => p.id === projectId);
+      const index = found === -1 ? insertAt ?? prev.projects.length : found;
+      const before = found === -1 ? null : prev.projects[found];
+      const after = updater(before || undefined);
+      if (after === undefined || after === before) return;
+
+      // Trash entries are not part of the undo history; undone deletions simply become live again
+      const next = { ...prev, projects: restoreProject(prev.projects, projectId, after, index), trash: updateTrash ? updateTrash(prev.trash) : prev.trash };
+      stateRef.current = next; // Keeps back-to-back commits in the same tick consistent
+      setState(next);
+
+      if (!label) return;
+      const entry: HistoryEntry = { id: generateId(), label, projectId, before, after, index, timestamp: Date.now(), ...entryOptions };
+      setHistory(h => pushEntry(h, entry));
+      // The toast always undoes the newest entry, so any later change dismisses it
+      setUndoToast(options.destructive ? { label, scope: getScope(entry) } : null);
+  }, []);
+
+  const addProject = useCallback((title: string, subtitle: string, initial?: Partial<Project>) => {
       if(!currentUser) return;
+      // The creator always owns what they create, including imported copies
+      const members: ProjectMember[] = [
+          { userId: currentUser.id, role: 'owner', addedAt: Date.now() },
+          ...(initial?.members || []).filter(m => m.userId !== currentUser.id)
+      ];
       const newProject: Project = {
-          id: generateId(), title, subtitle, createdAt: Date.now(), createdBy: currentUser.id, tasks: [],
-          imageUrl: undefined
+          id: generateId(), createdAt: Date.now(), createdBy: currentUser.id, tasks: [],
+          imageUrl: undefined, workflow: DEFAULT_WORKFLOW, tags: [], savedViews: [], ...initial, title, subtitle, members
       };
-      setState(prev => ({ ...prev, projects: [...prev.projects, newProject] }));
-  }, [currentUser]);
+      commitProject(newProject.id, 'Crear proyecto', () => newProject);
+  }, [currentUser, commitProject]);
   
-  const deleteProject = useCallback((id: string) => { setState(prev => ({ ...prev, projects: prev.projects.filter(p => p.id !== id) })); }, []);
-  const modifyActiveProject = useCallback((updater: (p: Project) => Project) => { if(!activeProjectId) return; setState(prev => ({ projects: prev.projects.map(p => p.id === activeProjectId ? updater(p) : p) })); }, [activeProjectId]);
-  const updateProject = useCallback((id: string, updates: Partial<Project>) => { setState(prev => ({ projects: prev.projects.map(p => p.id === id ? { ...p, ...updates } : p) })); }, []);
+  const deleteProject = useCallback((id: string) => {
+      if(!currentUser || !authorize(id, 'manage')) return;
+      const item = trashProject(stateRef.current.projects, id, currentUser.id);
+      if (!item) return;
+      commitProject(id, 'Proyecto movido a la papelera', () => null, { destructive: true, updateTrash: trash => [...trash, item] });
+  }, [currentUser, authorize, commitProject]);
+  const modifyActiveProject = useCallback((action: ProjectAction, label: string | null, updater: (p: Project) => Project, options?: CommitOptions) => {
+      if(!activeProjectId || !authorize(activeProjectId, action)) return;
+      // Any change to the tree can complete or reopen a parent that follows its subtasks
+      commitProject(activeProjectId, label, p => p ? syncParentStatuses(updater(p), currentUser!.id) : undefined, options);
+  }, [activeProjectId, authorize, commitProject, currentUser]);
+  // Membership only changes through updateProjectMembers
+  const updateProject = useCallback((id: string, updates: Partial<Project>) => {
+      if(!authorize(id, 'edit')) return;
+      const { members, ...rest } = updates;
+      commitProject(id, 'Editar proyecto', p => p ? { ...p, ...rest } : undefined, { coalesceKey: `project:${id}:${Object.keys(rest).join(',')}` });
+  }, [authorize, commitProject]);
+  // The import plan already holds everything that should survive, so nothing of the old project is merged in
+  const importProject = useCallback((id: string, project: Project) => {
+      if(!authorize(id, 'edit')) return;
+      commitProject(id, 'Importar proyecto', p => p ? { ...project, id, members: p.members } : undefined);
+  }, [authorize, commitProject]);
+  const updateProjectMembers = useCallback((id: string, members: ProjectMember[]) => {
+      if(!authorize(id, 'manage') || !members.some(m => m.role === 'owner')) return;
+      commitProject(id, 'Cambiar miembros', p => p ? { ...p, members } : undefined);
+  }, [authorize, commitProject]);
+
+  // Undo/redo act on the open project, or on the project list from the dashboard
+  const historyScope = activeProjectId || PROJECT_LIST_SCOPE;
+
+  const travel = useCallback((direction: 'undo' | 'redo', scope: string) => {
+      const shifted = shiftEntry(historyRef.current, scope, direction);
+      if (!shifted) return;
+      const { entry } = shifted;
+      const current = stateRef.current.projects.find(p => p.id === entry.projectId);
+      // Only what the entry changed is reverted, so writes kept out of the history survive
+      const snapshot = direction === 'undo' ? rebaseSnapshot(current, entry.after, entry.before) : rebaseSnapshot(current, entry.before, entry.after);
+      // Re-creating a deleted project needs the owner rights the snapshot carries
+      const guardProject = current || entry.before || entry.after;
+      if (!currentUser || !guardProject || !canPerform(guardProject, currentUser.id, 'edit')) {
+          setNotice({ tone: 'error', message: describeDenied('edit') });
+          return;
+      }
+      const next = { ...stateRef.current, projects: restoreProject(stateRef.current.projects, entry.projectId, snapshot, entry.index) };
+      stateRef.current = next;
+      historyRef.current = shifted.history;
+      setState(next);
+      setHistory(shifted.history);
+      setUndoToast(null);
+  }, [currentUser]);
+
+  const undo = useCallback(() => travel('undo', historyScope), [travel, historyScope]);
+  const redo = useCallback(() => travel('redo', historyScope), [travel, historyScope]);
+
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey)) return;
+          const target = e.target as HTMLElement;
+          // Text fields keep their native undo
+          if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+          else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Ctrl+K works everywhere, text fields included
+  useEffect(() => {
+      if (!currentUser) return;
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+              e.preventDefault();
+              setShowPalette(open => !open);
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [currentUser]);
+
+  // Reminders are checked while the app is open; without notification permission they show as a notice
+  useEffect(() => {
+      if (!currentUser) return;
+      const check = () => {
+          const visible = stateRef.current.projects.filter(p => canPerform(p, currentUser.id, 'view'));
+          const due = collectDueReminders(visible, sentRemindersRef.current[currentUser.id]);
+          if (due.length === 0) return;
+
+          if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+              due.forEach(({ task }) => showNotification(task.title, describeReminder(task), `reminder-${task.id}`).catch(e => console.warn(e)));
+          } else {
+              setNotice({ tone: 'info', message: `Recordatorio: ${due.map(({ task }) => `${task.title} (${describeReminder(task).toLowerCase()})`).join(', ')}` });
+          }
+
+          // Marked on this device only: viewers get reminders too but never write to the project
+          const sent = markRemindersSent(sentRemindersRef.current[currentUser.id] || {}, due, visible);
+          sentRemindersRef.current = { ...sentRemindersRef.current, [currentUser.id]: sent };
+          setSentReminders(sentRemindersRef.current);
+      };
+      check();
+      const timer = setInterval(check, REMINDER_CHECK_MS);
+      return () => clearInterval(timer);
+  }, [currentUser]);
+
+  useEffect(() => {
+      if (!undoToast) return;
+      const timer = setTimeout(() => setUndoToast(null), UNDO_TOAST_MS);
+      return () => clearTimeout(timer);
+  }, [undoToast]);
   
-  // Update Current User AND Persist to localStorage
+  // Users are persisted by the effect above
+  const writeUser = useCallback((id: string, updates: Partial<User>) => {
+      setUsers(prevUsers => prevUsers.map(u => u.id === id ? { ...u, ...updates } : u));
+  }, []);
+
+  const updateUser = useCallback((id: string, updates: Partial<User>) => {
+      if(!currentUser) return;
+      const ownProfile = id === currentUser.id && Object.keys(updates).every(key => SELF_EDITABLE_FIELDS.includes(key as keyof User));
+      if(!ownProfile && currentUser.accountRole !== 'admin') {
+          setNotice({ tone: 'error', message: "Solo un administrador puede cambiar esto." });
+          return;
+      }
+      const next = users.map(u => u.id === id ? { ...u, ...updates } : u);
+      if(!next.some(u => u.accountRole === 'admin' && u.status === 'active')) {
+          setNotice({ tone: 'error', message: "Debe quedar al menos un administrador." });
+          return;
+      }
+      writeUser(id, updates);
+  }, [currentUser, users, writeUser]);
+
   const updateCurrentUser = useCallback((updates: Partial<User>) => {
       if(!currentUser) return;
-      
-      const updatedUser = { ...currentUser, ...updates };
-      setCurrentUser(updatedUser);
-      
-      setUsers(prevUsers => {
-          const newUsers = prevUsers.map(u => u.id === currentUser.id ? updatedUser : u);
-          localStorage.setItem('proyectate_users', JSON.stringify(newUsers)); // Explicit save
-          return newUsers;
-      });
-  }, [currentUser]);
+      updateUser(currentUser.id, updates);
+  }, [currentUser, updateUser]);
+
+  const addUser = useCallback((name: string, invite: boolean) => {
+      if(currentUser?.accountRole !== 'admin') return;
+      const newUser: User = {
+          id: generateId(), name, avatarColor: AVATAR_COLORS[users.length % AVATAR_COLORS.length], accountRole: 'member',
+          status: invite ? 'invited' : 'active', inviteCode: invite ? generateInviteCode() : undefined, createdAt: Date.now()
+      };
+      setUsers(prevUsers => [...prevUsers, newUser]);
+  }, [currentUser, users.length]);
+
+  // Runs before anyone is logged in; the invite code was already checked
+  const acceptInvite = useCallback((userId: string, credential: UserCredential | null) => {
+      writeUser(userId, { status: 'active', inviteCode: undefined, credential: credential || undefined });
+      login(userId);
+  }, [writeUser, login]);
+
+  // Soft delete: tasks and activity keep pointing at the user
+  const removeUser = useCallback((id: string) => {
+      if(currentUser?.accountRole !== 'admin' || id === currentUser.id) return;
+      updateUser(id, { status: 'removed', credential: undefined, inviteCode: undefined });
+  }, [currentUser, updateUser]);
+
+  // Adds users referenced by imported data; existing users are never overwritten.
+  // Credentials never travel in bundles, so new active users join as invitations.
+  const mergeUsers = useCallback((incoming: User[]) => {
+      setUsers(prevUsers => [
+          ...prevUsers,
+          ...incoming.filter(u => !prevUsers.some(existing => existing.id === u.id)).map(u => u.status === 'active'
+              ? { ...toPublicUser(u), accountRole: 'member' as const, status: 'invited' as const, inviteCode: generateInviteCode() }
+              : toPublicUser(u))
+      ]);
+  }, []);
+
+  const exportProjects = useCallback(async (projectId: string | null) => {
+      if(!currentUser) return;
+      const projects = projectId ? state.projects.filter(p => p.id === projectId) : state.projects;
+      if (projects.length === 0) return;
+      try {
+          const bundle = await createExportBundle(projects, users.map(toPublicUser), storage, currentUser.id, projectId ? 'project' : 'all');
+          downloadBundle(bundle, projectId ? projects[0].title : 'todos');
+      } catch (e) {
+          console.warn(e);
+          setNotice({ tone: 'error', message: "No se pudo generar la exportación." });
+      }
+  }, [state.projects, users, currentUser]);
 
   const addTask = useCallback((parentId: string | null, title: string) => {
     if(!currentUser) return;
     const newTask: Task = {
-      id: generateId(), title, status: TaskStatus.PENDING, attachments: [], tags: [], subtasks: [], expanded: true, createdBy: currentUser.id,
+      id: generateId(), title, status: TaskStatus.BACKLOG, attachments: [], tags: [], subtasks: [], expanded: true, createdBy: currentUser.id, assignees: [],
       activity: [{ id: generateId(), type: 'creation', content: 'Creado', timestamp: Date.now(), createdBy: currentUser.id }]
     };
-    modifyActiveProject(p => {
-        if(!parentId) return { ...p, tasks: [...p.tasks, newTask] };
-        return { ...p, tasks: findTaskAndAddSubtask(p.tasks, parentId, newTask) };
+    modifyActiveProject('edit', 'Crear tarea', p => {
+        const task = { ...newTask, status: initialStatus(getWorkflow(p)).id };
+        if(!parentId) return { ...p, tasks: [...p.tasks, task] };
+        return { ...p, tasks: findTaskAndAddSubtask(p.tasks, parentId, task) };
+    });
+  }, [modifyActiveProject, currentUser]);
+
+  // One history entry for the whole pasted tree
+  const addTaskTree = useCallback((parentId: string | null, nodes: OutlineNode[]) => {
+    if(!currentUser) return;
+    modifyActiveProject('edit', 'Pegar esquema', p => {
+        const tasks = outlineToTasks(nodes, getWorkflow(p), currentUser.id);
+        if(!parentId) return { ...p, tasks: [...p.tasks, ...tasks] };
+        return { ...p, tasks: findTaskAndUpdate(p.tasks, parentId, t => ({ ...t, subtasks: [...t.subtasks, ...tasks], expanded: true })) };
     });
   }, [modifyActiveProject, currentUser]);
 
-  const updateTask = useCallback((taskId: string, updates: Partial<Task>) => { modifyActiveProject(p => ({ ...p, tasks: findTaskAndUpdate(p.tasks, taskId, t => ({ ...t, ...updates })) })); }, [modifyActiveProject]);
+  // Templates belong to the device, not to a project, so they stay out of the undo history
+  const saveTemplate = useCallback((name: string, taskId: string | null, replacements: PlaceholderReplacement[]) => {
+      if(!currentUser || !activeProjectId || !authorize(activeProjectId, 'view')) return;
+      const project = stateRef.current.projects.find(p => p.id === activeProjectId);
+      const task = project && taskId ? flattenTasks(project.tasks).find(t => t.id === taskId) : undefined;
+      if (!project || (taskId && !task)) return;
+      const template = createTemplate(name, task ? { kind: 'task', project, task } : { kind: 'project', project }, replacements, currentUser.id);
+      setState(prev => ({ ...prev, templates: [...prev.templates, template] }));
+      setNotice({ tone: 'info', message: `Plantilla "${name}" guardada.` });
+  }, [currentUser, activeProjectId, authorize]);
+
+  const deleteTemplate = useCallback((templateId: string) => {
+      const template = stateRef.current.templates.find(t => t.id === templateId);
+      if (!currentUser || !template) return;
+      if (template.createdBy !== currentUser.id && currentUser.accountRole !== 'admin') {
+          setNotice({ tone: 'error', message: "Solo quien creó la plantilla o un administrador puede eliminarla." });
+          return;
+      }
+      setState(prev => ({ ...prev, templates: prev.templates.filter(t => t.id !== templateId) }));
+  }, [currentUser]);
+
+  const createProjectFromTemplate = useCallback((title: string, subtitle: string, templateId: string | null, values: Record<string, string>, startDate: string) => {
+      if(!currentUser) return;
+      const template = stateRef.current.templates.find(t => t.id === templateId);
+      if (!template) { addProject(title, subtitle); return; }
+      const workflow = template.workflow || DEFAULT_WORKFLOW;
+      const { tasks, tags } = instantiateTemplate(template, values, workflow, currentUser.id, startDate);
+      addProject(title, subtitle, { tasks, workflow, tags });
+  }, [currentUser, addProject]);
+
+  const insertTemplate = useCallback((templateId: string, parentId: string | null, values: Record<string, string>, startDate: string) => {
+      if(!currentUser) return;
+      const template = stateRef.current.templates.find(t => t.id === templateId);
+      if (!template) return;
+      modifyActiveProject('edit', 'Usar plantilla', p => {
+          const { tasks: created, tags } = instantiateTemplate(template, values, getWorkflow(p), currentUser.id, startDate);
+          const tasks = parentId ? findTaskAndUpdate(p.tasks, parentId, t => ({ ...t, subtasks: [...t.subtasks, ...created], expanded: true })) : [...p.tasks, ...created];
+          return { ...p, tasks, tags: syncTagDefinitions(mergeTagDefinitions(getProjectTags(p), tags), tasks) };
+      });
+  }, [modifyActiveProject, currentUser]);
+
+  const copyTasksAsMarkdown = useCallback(async (taskId: string | null) => {
+      const project = state.projects.find(p => p.id === activeProjectId);
+      if (!project) return;
+      const task = taskId ? flattenTasks(project.tasks).find(t => t.id === taskId) : undefined;
+      if (taskId && !task) return;
+      try {
+          await navigator.clipboard.writeText(tasksToMarkdown(task ? [task] : project.tasks, getWorkflow(project)));
+          setNotice({ tone: 'info', message: task ? `"${task.title}" copiada como lista Markdown.` : `"${project.title}" copiado como lista Markdown.` });
+      } catch (e) {
+          console.warn(e);
+          setNotice({ tone: 'error', message: "No se pudo copiar al portapapeles." });
+      }
+  }, [state.projects, activeProjectId]);
+
+  const announceRollOver = useCallback((rolled: Task[]) => {
+      if (rolled.length === 0) return;
+      const dueDate = getTaskSchedule(rolled[0]).dueDate;
+      setNotice({ tone: 'info', message: rolled.length === 1 && dueDate
+          ? `"${rolled[0].title}" vuelve a empezar: próxima el ${formatDateKey(dueDate)}.`
+          : `${rolled.length} tareas recurrentes pasaron a su siguiente ciclo.` });
+  }, []);
+
+  const runBulkAction = useCallback((action: BulkAction) => {
+      if(!currentUser || selectedTaskIds.length === 0) return;
+      const ids = selectedTaskIds;
+      const label = `${BULK_LABELS[action.kind]} (${ids.length})`;
+      if (action.kind === 'delete') {
+          let items: TrashItem[] = [];
+          modifyActiveProject('edit', label, p => {
+              const result = bulkTrash(p, ids, currentUser.id);
+              items = result.items;
+              return result.project;
+          }, { destructive: true, updateTrash: trash => [...trash, ...items] });
+          setSelectedTaskIds([]);
+          return;
+      }
+      let rejected = false;
+      let rolled: Task[] = [];
+      modifyActiveProject('edit', label, p => {
+          const next = applyBulkAction(p, ids, action, currentUser.id);
+          rejected = next === null;
+          if (!next || action.kind !== 'complete') return next || p;
+          const result = advanceRecurringTasks(next, ids, currentUser.id);
+          rolled = result.rolled;
+          return result.project;
+      });
+      if (rejected) setNotice({ tone: 'error', message: "No se puede mover una tarea dentro de sí misma o de sus subtareas." });
+      else if (action.kind === 'move') setSelectedTaskIds([]);
+      announceRollOver(rolled);
+  }, [modifyActiveProject, currentUser, selectedTaskIds, announceRollOver]);
+
+  const updateTask = useCallback((taskId: string, updates: Partial<Task>) => {
+      modifyActiveProject('edit', 'Editar tarea', p => ({ ...p, tasks: findTaskAndUpdate(p.tasks, taskId, t => ({ ...t, ...updates })) }), { coalesceKey: `task:${taskId}:${Object.keys(updates).join(',')}` });
+  }, [modifyActiveProject]);
   
   const moveTask = useCallback((draggedId: string, targetId: string, position: 'before' | 'after' | 'inside') => {
-      modifyActiveProject(p => {
+      if(!currentUser) return;
+      modifyActiveProject('edit', 'Mover tarea', p => {
           const newTasks = JSON.parse(JSON.stringify(p.tasks)) as Task[];
           let draggedItem: Task | null = null;
           const removeOp = (list: Task[]): boolean => {
@@ -1100,34 +4621,280 @@ const App: React.FC = () => {
               }
               return list.some(t => insertOp(t.subtasks));
           };
-          if (insertOp(newTasks)) return { ...p, tasks: newTasks };
+          // Nesting a task under its blocker (or the reverse) turns the link into a deadlock
+          if (insertOp(newTasks)) return dropInvalidDependencies({ ...p, tasks: newTasks }, currentUser.id);
           return p;
       });
-  }, [modifyActiveProject]);
+  }, [modifyActiveProject, currentUser]);
+
+  // Completing ahead of open blockers is allowed, but only after naming them
+  const confirmDespiteBlockers = useCallback((taskId: string, statusId?: string): boolean => {
+      const project = state.projects.find(p => p.id === activeProjectId);
+      const task = project && flattenTasks(project.tasks).find(t => t.id === taskId);
+      if (!project || !task) return true;
+      const workflow = getWorkflow(project);
+      const completing = statusId ? isDoneStatus(workflow, statusId) && !isDoneStatus(workflow, task.status) : !isDoneStatus(workflow, task.status);
+      if (!completing) return true;
+      const blockers = getOpenBlockers(project, task, workflow);
+      return blockers.length === 0 || confirm(`"${task.title}" sigue bloqueada por ${blockers.map(b => `"${b.title}"`).join(', ')}. ¿Completarla de todos modos?`);
+  }, [state.projects, activeProjectId]);
 
   const toggleTaskStatus = useCallback((taskId: string) => {
-      modifyActiveProject(p => {
-          const getStatus = (tasks: Task[]): TaskStatus | null => {
+      if (!confirmDespiteBlockers(taskId)) return;
+      let rolled: Task[] = [];
+      modifyActiveProject('edit', 'Cambiar estado', p => {
+          const getStatus = (tasks: Task[]): string | null => {
             for (const t of tasks) { if (t.id === taskId) return t.status; const sub = getStatus(t.subtasks); if (sub) return sub; } return null;
           };
           const currentStatus = getStatus(p.tasks);
           if (!currentStatus) return p;
-          const newStatus = currentStatus === TaskStatus.COMPLETED ? TaskStatus.PENDING : TaskStatus.COMPLETED;
-          const log: ActivityLog = { id: generateId(), type: 'status_change', content: newStatus === TaskStatus.COMPLETED ? 'Completó la tarea' : 'Reabrió la tarea', timestamp: Date.now(), createdBy: currentUser!.id };
-          return { ...p, tasks: findTaskAndUpdate(p.tasks, taskId, t => ({ ...t, status: newStatus, activity: [...t.activity, log] })) };
+          // The checkbox completes open tasks and reopens finished ones
+          const workflow = getWorkflow(p);
+          const newStatus = isDoneStatus(workflow, currentStatus) ? initialStatus(workflow) : doneStatus(workflow);
+          // A completed recurring task closes its cycle in the same undo step
+          const result = advanceRecurringTasks(applyTaskStatus(p, taskId, newStatus.id, currentUser!.id), [taskId], currentUser!.id);
+          rolled = result.rolled;
+          return result.project;
+      });
+      announceRollOver(rolled);
+  }, [modifyActiveProject, currentUser, confirmDespiteBlockers, announceRollOver]);
+
+  const setAssignees = useCallback((taskId: string, assignees: string[]) => {
+      if(!currentUser) return;
+      const nameOf = (id: string) => users.find(u => u.id === id)?.name || 'Usuario desconocido';
+      modifyActiveProject('edit', 'Asignar tarea', p => ({ ...p, tasks: findTaskAndUpdate(p.tasks, taskId, t => {
+          const added = assignees.filter(id => !t.assignees.includes(id));
+          const removed = t.assignees.filter(id => !assignees.includes(id));
+          if (added.length === 0 && removed.length === 0) return t;
+          const logs: ActivityLog[] = [
+              ...added.map(id => ({ id: generateId(), type: 'assignment' as const, content: `Asignó a ${nameOf(id)}`, timestamp: Date.now(), createdBy: currentUser.id })),
+              ...removed.map(id => ({ id: generateId(), type: 'assignment' as const, content: `Quitó a ${nameOf(id)}`, timestamp: Date.now(), createdBy: currentUser.id })),
+          ];
+          return { ...t, assignees, activity: [...t.activity, ...logs] };
+      }) }));
+  }, [modifyActiveProject, currentUser, users]);
+
+  const setTaskStatus = useCallback((taskId: string, statusId: string) => {
+      if (!confirmDespiteBlockers(taskId, statusId)) return;
+      let rolled: Task[] = [];
+      modifyActiveProject('edit', 'Cambiar estado', p => {
+          const result = advanceRecurringTasks(applyTaskStatus(p, taskId, statusId, currentUser!.id), [taskId], currentUser!.id);
+          rolled = result.rolled;
+          return result.project;
       });
+      announceRollOver(rolled);
+  }, [modifyActiveProject, currentUser, confirmDespiteBlockers, announceRollOver]);
+
+  const addTaskDependency = useCallback((taskId: string, blockerId: string) => {
+      if(!currentUser) return;
+      const project = state.projects.find(p => p.id === activeProjectId);
+      const error = project ? findDependencyError(project, taskId, blockerId) : null;
+      if (error) { setNotice({ tone: 'error', message: error }); return; }
+      modifyActiveProject('edit', 'Añadir dependencia', p => addDependency(p, taskId, blockerId, currentUser.id));
+  }, [modifyActiveProject, currentUser, state.projects, activeProjectId]);
+
+  const removeTaskDependency = useCallback((taskId: string, blockerId: string) => {
+      if(!currentUser) return;
+      modifyActiveProject('edit', 'Quitar dependencia', p => removeDependency(p, taskId, blockerId, currentUser.id));
   }, [modifyActiveProject, currentUser]);
 
-  const deleteTask = useCallback((taskId: string) => { modifyActiveProject(p => ({ ...p, tasks: findTaskAndDelete(p.tasks, taskId) })); }, [modifyActiveProject]);
-  const addActivity = useCallback((taskId: string, content: string, type: ActivityLog['type']) => { if(!currentUser) return; modifyActiveProject(p => ({ ...p, tasks: findTaskAndUpdate(p.tasks, taskId, t => ({ ...t, activity: [...t.activity, { id: generateId(), type, content, timestamp: Date.now(), createdBy: currentUser.id }] })) })); }, [modifyActiveProject, currentUser]);
+  const startTaskTimer = useCallback((taskId: string) => {
+      if(!currentUser) return;
+      modifyActiveProject('edit', 'Iniciar cronómetro', p => startTimer(p, taskId, currentUser.id));
+  }, [modifyActiveProject, currentUser]);
+
+  const stopTaskTimer = useCallback((taskId: string) => {
+      if(!currentUser) return;
+      modifyActiveProject('edit', 'Detener cronómetro', p => stopTimer(p, taskId, currentUser.id));
+  }, [modifyActiveProject, currentUser]);
+
+  const addTaskTimeEntry = useCallback((taskId: string, entry: Pick<TimeEntry, 'userId' | 'date' | 'minutes' | 'note'>) => {
+      if(!currentUser) return;
+      const userName = users.find(u => u.id === entry.userId)?.name || 'Usuario desconocido';
+      modifyActiveProject('edit', 'Registrar tiempo', p => addTimeEntry(p, taskId, entry, userName, currentUser.id));
+  }, [modifyActiveProject, currentUser, users]);
+
+  const removeTaskTimeEntry = useCallback((taskId: string, entryId: string) => {
+      if(!currentUser) return;
+      modifyActiveProject('edit', 'Quitar tiempo registrado', p => removeTimeEntry(p, taskId, entryId, currentUser.id));
+  }, [modifyActiveProject, currentUser]);
+
+  const addTaskCostLine = useCallback((taskId: string, line: Pick<CostLine, 'kind' | 'label' | 'amount' | 'currency'>) => {
+      if(!currentUser) return;
+      modifyActiveProject('edit', 'Añadir costo', p => addCostLine(p, taskId, line, currentUser.id));
+  }, [modifyActiveProject, currentUser]);
+
+  const removeTaskCostLine = useCallback((taskId: string, lineId: string) => {
+      if(!currentUser) return;
+      modifyActiveProject('edit', 'Quitar costo', p => removeCostLine(p, taskId, lineId, currentUser.id));
+  }, [modifyActiveProject, currentUser]);
+
+  const updateWorkflow = useCallback((projectId: string, workflow: WorkflowStatus[]) => {
+      if(!authorize(projectId, 'manage')) return;
+      const error = validateWorkflow(workflow);
+      if (error) { setNotice({ tone: 'error', message: error }); return; }
+      // Tasks in removed columns go back to the first open one
+      commitProject(projectId, 'Editar flujo de trabajo', p => p ? syncParentStatuses({ ...p, workflow, tasks: remapStatuses(p.tasks, workflow) }, currentUser!.id) : undefined);
+  }, [authorize, commitProject, currentUser]);
+
+  const updateProgressRules = useCallback((projectId: string, rules: Pick<Project, 'rollup' | 'autoCompleteParents'>) => {
+      if(!authorize(projectId, 'manage')) return;
+      commitProject(projectId, 'Cambiar cálculo de progreso', p => p ? syncParentStatuses({ ...p, ...rules }, currentUser!.id) : undefined);
+  }, [authorize, commitProject, currentUser]);
+
+  // The conversation is shared content but not an edit: it never enters the undo history
+  const addChatMessages = useCallback((projectId: string, messages: ChatMessage[]) => {
+      if(!authorize(projectId, 'comment')) return;
+      commitProject(projectId, null, p => p ? appendChatMessages(p, messages) : undefined);
+  }, [authorize, commitProject]);
+
+  const clearProjectChat = useCallback((projectId: string) => {
+      if(!authorize(projectId, 'manage')) return;
+      commitProject(projectId, null, p => p ? clearChat(p) : undefined);
+  }, [authorize, commitProject]);
+
+  const updateTaskTags = useCallback((taskId: string, tags: string[]) => {
+      modifyActiveProject('edit', 'Editar etiquetas', p => setTaskTags(p, taskId, tags));
+  }, [modifyActiveProject]);
+
+  const renameProjectTag = useCallback((from: string, to: string) => {
+      modifyActiveProject('edit', 'Renombrar etiqueta', p => renameTag(p, from, to));
+      const name = normalizeTagName(to);
+      setTagFilter(prev => prev.some(tag => sameTag(tag, from))
+          ? [...prev.filter(tag => !sameTag(tag, from) && !sameTag(tag, name)), name]
+          : prev);
+  }, [modifyActiveProject]);
+
+  const deleteProjectTag = useCallback((name: string) => {
+      modifyActiveProject('edit', 'Eliminar etiqueta', p => deleteTag(p, name));
+      setTagFilter(prev => prev.filter(tag => !sameTag(tag, name)));
+  }, [modifyActiveProject]);
+
+  const setProjectTagColor = useCallback((name: string, color: StatusColor) => {
+      modifyActiveProject('edit', 'Color de etiqueta', p => setTagColor(p, name, color), { coalesceKey: `tag:${name}:color` });
+  }, [modifyActiveProject]);
+
+  const applyView = useCallback((view: SavedView | null) => {
+      setSearchQuery(view?.query || '');
+      setTagFilter(view?.tags || []);
+      setTaskSort(view?.sort || 'manual');
+  }, []);
+
+  const saveView = useCallback((name: string) => {
+      if(!currentUser) return;
+      if (parsedQuery.error) { setNotice({ tone: 'error', message: `No se puede guardar la vista: ${parsedQuery.error}` }); return; }
+      const view = createSavedView(name, searchQuery, tagFilter, taskSort, currentUser.id);
+      modifyActiveProject('edit', 'Guardar vista', p => ({ ...p, savedViews: [...getSavedViews(p), view] }));
+  }, [modifyActiveProject, currentUser, parsedQuery, searchQuery, tagFilter, taskSort]);
+
+  const deleteView = useCallback((viewId: string) => {
+      modifyActiveProject('edit', 'Eliminar vista', p => ({ ...p, savedViews: getSavedViews(p).filter(v => v.id !== viewId) }));
+  }, [modifyActiveProject]);
+
+  const deleteTask = useCallback((taskId: string) => {
+      if(!currentUser) return;
+      let item: TrashItem | null = null;
+      modifyActiveProject('edit', 'Tarea movida a la papelera', p => {
+          const result = trashTask(p, taskId, currentUser.id);
+          if (!result) return p;
+          item = result.item;
+          return result.project;
+      }, { destructive: true, updateTrash: trash => item ? [...trash, item] : trash });
+  }, [modifyActiveProject, currentUser]);
+
+  const removeAttachment = useCallback((taskId: string, attachmentId: string) => {
+      if(!currentUser) return;
+      let item: TrashItem | null = null;
+      modifyActiveProject('edit', 'Adjunto movido a la papelera', p => {
+          const result = trashAttachment(p, taskId, attachmentId, currentUser.id);
+          if (!result) return p;
+          item = result.item;
+          return result.project;
+      }, { destructive: true, updateTrash: trash => item ? [...trash, item] : trash });
+  }, [modifyActiveProject, currentUser]);
+
+  const restoreFromTrash = useCallback((itemId: string) => {
+      const item = stateRef.current.trash.find(i => i.id === itemId);
+      if (!item || !currentUser) return;
+      const dropItem = (trash: TrashItem[]) => trash.filter(i => i.id !== itemId);
+
+      // Already back in place (e.g. the deletion was undone): only the entry goes
+      if (isTrashItemLive(item, stateRef.current.projects)) {
+          const next = { ...stateRef.current, trash: dropItem(stateRef.current.trash) };
+          stateRef.current = next;
+          setState(next);
+          return;
+      }
+
+      if (item.kind === 'project') {
+          if (!canPerform(item.project, currentUser.id, 'manage')) { setNotice({ tone: 'error', message: describeDenied('manage') }); return; }
+          commitProject(item.projectId, 'Restaurar proyecto', () => item.project, { updateTrash: dropItem, insertAt: item.index });
+          return;
+      }
+      if (!stateRef.current.projects.some(p => p.id === item.projectId)) {
+          setNotice({ tone: 'error', message: "El proyecto de este elemento está en la papelera. Restáuralo primero." });
+          return;
+      }
+      if (!authorize(item.projectId, 'edit')) return;
+      const restored = restoreIntoProject(stateRef.current.projects.find(p => p.id === item.projectId)!, item, currentUser.id);
+      if (!restored) {
+          setNotice({ tone: 'error', message: "La tarea de este adjunto ya no existe. Restaura la tarea primero." });
+          return;
+      }
+      commitProject(item.projectId, item.kind === 'task' ? 'Restaurar tarea' : 'Restaurar adjunto', () => restored, { updateTrash: dropItem });
+  }, [currentUser, authorize, commitProject]);
+
+  // Permanent deletion; blobs are released by the orphan sweep on the next load
+  const purgeFromTrash = useCallback((itemIds: string[]) => {
+      if (!currentUser) return;
+      const removable = new Set(stateRef.current.trash.filter(item => itemIds.includes(item.id) && (item.kind === 'project'
+          ? canPerform(item.project, currentUser.id, 'manage')
+          : stateRef.current.projects.some(p => p.id === item.projectId && canPerform(p, currentUser.id, 'edit'))
+      )).map(item => item.id));
+      if (removable.size < itemIds.length) setNotice({ tone: 'error', message: "Algunos elementos no se eliminaron porque no tienes permiso sobre su proyecto." });
+      const next = { ...stateRef.current, trash: stateRef.current.trash.filter(item => !removable.has(item.id)) };
+      stateRef.current = next;
+      setState(next);
+  }, [currentUser]);
+
+  const setTrashRetention = useCallback((days: number) => {
+      if (currentUser?.accountRole !== 'admin') return;
+      setState(prev => ({ ...prev, trashRetentionDays: days, trash: purgeExpiredTrash(prev.trash, days).kept }));
+  }, [currentUser]);
+
+  // Rates are shared by every project, so like other app-wide settings they stay out of undo history
+  const updateExchangeRate = useCallback((currency: Currency, rate: number) => {
+      if (currentUser?.accountRole !== 'admin') return;
+      setState(prev => ({ ...prev, exchangeRates: setExchangeRate(prev.exchangeRates, currency, rate, currentUser.id) }));
+  }, [currentUser]);
+  const addActivity = useCallback((taskId: string, content: string, type: ActivityLog['type']) => { if(!currentUser) return; modifyActiveProject(type === 'comment' ? 'comment' : 'edit', 'Agregar actividad', p => ({ ...p, tasks: findTaskAndUpdate(p.tasks, taskId, t => ({ ...t, activity: [...t.activity, { id: generateId(), type, content, timestamp: Date.now(), createdBy: currentUser.id }] })) })); }, [modifyActiveProject, currentUser]);
   
   const addAttachment = useCallback((taskId: string, type: Attachment['type'], name: string, url: string) => {
       if(!currentUser) return;
       const att: Attachment = { id: generateId(), name, type, url, createdAt: Date.now(), createdBy: currentUser.id };
-      modifyActiveProject(p => ({ ...p, tasks: findTaskAndUpdate(p.tasks, taskId, t => ({ ...t, attachments: [...t.attachments, att] })) }));
+      modifyActiveProject('edit', 'Adjuntar', p => ({ ...p, tasks: findTaskAndUpdate(p.tasks, taskId, t => ({ ...t, attachments: [...t.attachments, att] })) }));
   }, [modifyActiveProject, currentUser]);
 
-  const toggleExpand = useCallback((taskId: string) => { modifyActiveProject(p => ({ ...p, tasks: findTaskAndUpdate(p.tasks, taskId, t => ({ ...t, expanded: !t.expanded })) })); }, [modifyActiveProject]);
+  // Binary content is written to the blob store first; the attachment only keeps a reference
+  const uploadAttachment = useCallback(async (taskId: string, type: Attachment['type'], name: string, blob: Blob) => {
+      if(!currentUser || !authorize(activeProjectId, 'edit')) return;
+      const id = generateId();
+      try {
+          await storage.putBlob(id, blob);
+      } catch (e) {
+          console.warn(e);
+          setNotice({ tone: 'error', message: describeStorageError(e) });
+          return;
+      }
+      const att: Attachment = { id, name, type, url: '', blobId: id, mimeType: blob.type, createdAt: Date.now(), createdBy: currentUser.id };
+      modifyActiveProject('edit', 'Adjuntar', p => ({ ...p, tasks: findTaskAndUpdate(p.tasks, taskId, t => ({ ...t, attachments: [...t.attachments, att] })) }));
+  }, [modifyActiveProject, currentUser, authorize, activeProjectId]);
+
+  // Viewers may expand rows too; this skips modifyActiveProject so no parent-status sync runs under their name
+  const toggleExpand = useCallback((taskId: string) => {
+      if(!activeProjectId || !authorize(activeProjectId, 'view')) return;
+      commitProject(activeProjectId, null, p => p ? { ...p, tasks: findTaskAndUpdate(p.tasks, taskId, t => ({ ...t, expanded: !t.expanded })) } : undefined);
+  }, [activeProjectId, authorize, commitProject]);
 
   const resolveActiveTask = (): Task | undefined => {
       if(!activeTask || !activeProjectId) return undefined;
@@ -1137,14 +4904,43 @@ const App: React.FC = () => {
       return findDeep(p.tasks) || activeTask;
   };
 
-  if (!currentUser) return <IntroScreen onSelectUser={setCurrentUser} users={users} />;
+  if (!isHydrated) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center bg-[#050505] text-gray-500">
+        <div className="w-10 h-10 border-2 border-white/10 border-t-indigo-500 rounded-full animate-spin"></div>
+        <p className="mt-5 text-xs tracking-[0.2em] uppercase">Cargando datos...</p>
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center bg-[#050505] text-gray-400 p-6 text-center">
+        <Icons.Alert size={32} className="text-rose-400" />
+        <p className="mt-4 text-sm text-white">No se pudieron cargar tus datos.</p>
+        <p className="mt-2 text-xs text-gray-500 max-w-md">{loadError} No se guardará nada hasta que la carga funcione, para no reemplazar lo que ya tienes.</p>
+        <button onClick={() => { setIsHydrated(false); setLoadAttempt(n => n + 1); }} className="mt-6 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold transition-colors">Reintentar</button>
+      </div>
+    );
+  }
+
+  if (!currentUser) return <IntroScreen users={users} onLogin={login} onAcceptInvite={acceptInvite} />;
 
   return (
     <AppContext.Provider value={{ 
-      state, currentUser, users, activeProjectId, setActiveProjectId, addProject, updateProject, deleteProject, logout: () => setCurrentUser(null),
-      draggedTaskId, setDraggedTaskId, addTask, toggleTaskStatus, updateTask, deleteTask, addActivity, addAttachment, toggleExpand, moveTask,
-      openTaskDetail: setActiveTask, searchQuery, setSearchQuery, requestInput, openAIModal: () => setShowAI(true), openStatsModal: () => setShowStats(true),
-      updateCurrentUser, openProfileModal: () => setShowProfile(true)
+      state, currentUser, users, activeProjectId, setActiveProjectId, addProject, updateProject, importProject, updateProjectMembers, deleteProject, can, logout,
+      draggedTaskId, setDraggedTaskId, addTask, toggleTaskStatus, setTaskStatus, addTaskDependency, removeTaskDependency, updateProgressRules, startTaskTimer, stopTaskTimer, addTimeEntry: addTaskTimeEntry, removeTimeEntry: removeTaskTimeEntry, addCostLine: addTaskCostLine, removeCostLine: removeTaskCostLine, setExchangeRate: updateExchangeRate, setAssignees, updateWorkflow, updateTask,
+      updateTaskTags, renameProjectTag, deleteProjectTag, setProjectTagColor, openTagManager: () => setShowTagManager(true), tagFilter, setTagFilter,
+      taskSort, setTaskSort, applyView, saveView, deleteView,
+      focusedTaskId, setFocusedTaskId, openCommandPalette: () => setShowPalette(true), selectedTaskIds, setSelectedTaskIds, runBulkAction,
+      addTaskTree, openOutlineImport: setOutlineParentId, copyTasksAsMarkdown,
+      saveTemplate, deleteTemplate, createProjectFromTemplate, insertTemplate, openSaveTemplate: setTemplateSourceId, openTemplatePicker: setTemplateTarget,
+      modalOpen: !!(activeTask || modalConfig || showAI || showStats || showBudget || showUserManagement || showMembers || showTrash || showWorkflow || showTagManager || showPalette || importBundle || outlineParentId !== undefined || templateSourceId !== undefined || templateTarget), deleteTask, addActivity, addAttachment, uploadAttachment, toggleExpand, moveTask,
+      openTaskDetail: setActiveTask, searchQuery, setSearchQuery, parsedQuery, requestInput, openAIModal: () => setShowAI(true), addChatMessages, clearChat: clearProjectChat, openStatsModal: () => setShowStats(true), openBudgetModal: () => setShowBudget(true),
+      updateCurrentUser, addUser, updateUser, removeUser, mergeUsers, openUserManagement: () => setShowUserManagement(true), openMembersModal: () => setShowMembers(true), exportProjects, openImportModal: setImportBundle,
+      removeAttachment, restoreFromTrash, purgeFromTrash, setTrashRetention, openTrash: () => setShowTrash(true), openWorkflowModal: () => setShowWorkflow(true),
+      projectViews, setProjectView: (projectId, mode) => setProjectViews(prev => ({ ...prev, [projectId]: mode })),
+      undo, redo, canUndo: getStack(history, historyScope).past.length > 0, canRedo: getStack(history, historyScope).future.length > 0
     }}>
       <div className="min-h-screen bg-[#050505] text-gray-200 font-sans selection:bg-indigo-500/30">
         <div className="fixed top-0 left-0 w-full h-full overflow-hidden pointer-events-none z-0">
@@ -1161,12 +4957,24 @@ const App: React.FC = () => {
         )}
         
         {activeTask && (
-            <TaskDetailModal task={activeTask} onClose={() => setActiveTask(null)} />
+            <TaskDetailModal task={resolveActiveTask() || activeTask} onClose={() => setActiveTask(null)} />
         )}
 
         {showAI && <AIModal onClose={() => setShowAI(false)} />}
         {showStats && <StatsModal onClose={() => setShowStats(false)} />}
-        {showProfile && <ProfileModal onClose={() => setShowProfile(false)} />}
+        {showBudget && <BudgetModal onClose={() => setShowBudget(false)} />}
+        {showUserManagement && <UserManagementModal onClose={() => setShowUserManagement(false)} />}
+        {showMembers && <ProjectMembersModal onClose={() => setShowMembers(false)} />}
+        {showTrash && <TrashModal onClose={() => setShowTrash(false)} />}
+        {showWorkflow && <WorkflowModal onClose={() => setShowWorkflow(false)} />}
+        {showTagManager && <TagManagerModal onClose={() => setShowTagManager(false)} />}
+        {importBundle && <ImportModal bundle={importBundle} onClose={() => setImportBundle(null)} />}
+        {showPalette && <CommandPalette onClose={() => setShowPalette(false)} />}
+        {outlineParentId !== undefined && <OutlineImportModal parentId={outlineParentId} onClose={() => setOutlineParentId(undefined)} />}
+        {templateSourceId !== undefined && <SaveTemplateModal taskId={templateSourceId} onClose={() => setTemplateSourceId(undefined)} />}
+        {templateTarget && <TemplatePickerModal target={templateTarget} onClose={() => setTemplateTarget(null)} />}
+        {notice && <NoticeBanner notice={notice} onClose={() => setNotice(null)} />}
+        {undoToast && !notice && <UndoToast label={undoToast.label} onUndo={() => travel('undo', undoToast.scope)} onClose={() => setUndoToast(null)} />}
       </div>
     </AppContext.Provider>
   );
@@ -20,7 +20,29 @@ import {
   Lock,
   User,
   ArrowRight,
-  Search
+  Search,
+  Rocket,
+  AlertTriangle,
+  Download,
+  Undo2,
+  Redo2,
+  Calendar,
+  Bell,
+  ListTree,
+  AlignLeft,
+  Columns,
+  Users,
+  Tag,
+  Copy,
+  ClipboardList,
+  Ban,
+  GitMerge,
+  Repeat,
+  LayoutTemplate,
+  Clock,
+  Play,
+  Square,
+  Wallet
 } from 'lucide-react';
 
 export const Icons = {
@@ -44,5 +66,27 @@ export const Icons = {
   Lock: Lock,
   User: User,
   ArrowRight: ArrowRight,
-  Search: Search
+  Search: Search,
+  Rocket: Rocket,
+  Alert: AlertTriangle,
+  Download: Download,
+  Undo: Undo2,
+  Redo: Redo2,
+  Calendar: Calendar,
+  Bell: Bell,
+  Tree: ListTree,
+  Timeline: AlignLeft,
+  Kanban: Columns,
+  Users: Users,
+  Tag: Tag,
+  Copy: Copy,
+  Paste: ClipboardList,
+  Blocked: Ban,
+  Dependency: GitMerge,
+  Repeat: Repeat,
+  Template: LayoutTemplate,
+  Clock: Clock,
+  Play: Play,
+  Stop: Square,
+  Budget: Wallet
 };
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { ActivityLog, Project, Task, WorkflowStatus } from "../types";
+import { addDays, daysBetween, listDays, parseDateKey, startOfWeek, toDateKey } from "./scheduleService";
+import { getWorkflow, isDoneStatus } from "./workflowService";
+
+// Everything here is rebuilt from the activity log, so it covers history recorded
+// before analytics existed. Only leaves count: a parent's status is their roll-up.
+
+export const STALE_DAY_OPTIONS = [7, 14, 30, 60];
+
+export interface AnalyticsFilter {
+  from: string; // Inclusive date keys
+  to: string;
+  projectIds: string[]; // Empty means every project passed in
+  assigneeId?: string; // Only tasks assigned to this user
+}
+
+interface StatusEvent {
+  timestamp: number;
+  userId: string;
+  done: boolean;
+}
+
+// One leaf with the history the charts need
+export interface TaskTimeline {
+  task: Task;
+  project: Project;
+  createdAt: number;
+  events: StatusEvent[]; // Oldest first; closed recurrence cycles appear as done then reopened
+  doneAt?: number; // Last completion, when the task is done now
+}
+
+export interface BurnPoint {
+  date: string;
+  scope: number; // Leaves that existed by the end of the day
+  done: number; // ...and were done at that moment
+}
+
+export interface WeekCount {
+  weekStart: string;
+  count: number;
+}
+
+export interface Contributor {
+  userId: string;
+  completed: number;
+  comments: number;
+  total: number; // Every activity entry, including the two above
+}
+
+export interface StaleTask {
+  task: Task;
+  project: Project;
+  lastActivity: number;
+  idleDays: number;
+}
+
+export interface ProjectSummary {
+  project: Project;
+  scope: number; // Leaves, after the assignee filter
+  done: number; // Done now
+  completedInRange: number;
+}
+
+// --- HELPERS ---
+const dayOf = (timestamp: number): string => toDateKey(new Date(timestamp));
+
+const collectLeaves = (tasks: Task[]): Task[] => tasks.flatMap(t => t.subtasks.length === 0 ? [t] : collectLeaves(t.subtasks));
+
+const inRange = (timestamp: number, filter: AnalyticsFilter): boolean => {
+  const day = dayOf(timestamp);
+  return day >= filter.from && day <= filter.to;
+};
+
+const flattenTasks = (tasks: Task[]): Task[] => tasks.flatMap(t => [t, ...flattenTasks(t.subtasks)]);
+
+// Timelines are built once for every visible project; the filters only narrow them down
+export const filterTimelines = (timelines: TaskTimeline[], filter: AnalyticsFilter): TaskTimeline[] => timelines.filter(t =>
+  (filter.projectIds.length === 0 || filter.projectIds.includes(t.project.id))
+  && (!filter.assigneeId || t.task.assignees.includes(filter.assigneeId)));
+
+/**
+ * Whether a status_change entry left the task done. New entries carry the status id;
+ * older ones only have the label ("Estado: A → B") or the first wording from
+ * before workflows. Null when it cannot be told, e.g. a renamed column.
+ */
+const readTransition = (log: ActivityLog, workflow: WorkflowStatus[]): boolean | null => {
+  if (log.toStatus) return isDoneStatus(workflow, log.toStatus);
+  if (log.content === 'Completó la tarea') return true;
+  if (log.content === 'Reabrió la tarea') return false;
+  const label = log.content.split('→')[1]?.trim();
+  const status = label ? workflow.find(s => s.label === label) : undefined;
+  return status ? status.progress >= 100 : null;
+};
+
+// --- TIMELINES ---
+export const buildTimelines = (projects: Project[]): TaskTimeline[] => projects.flatMap(project => {
+  const workflow = getWorkflow(project);
+  return collectLeaves(project.tasks).map(task => {
+    const createdAt = task.activity.find(a => a.type === 'creation')?.timestamp || task.activity[0]?.timestamp || project.createdAt;
+    const events: StatusEvent[] = [];
+    task.activity.filter(a => a.type === 'status_change').forEach(log => {
+      const done = readTransition(log, workflow);
+      if (done !== null) events.push({ timestamp: log.timestamp, userId: log.createdBy, done });
+    });
+    (task.cycles || []).forEach(cycle => {
+      events.push({ timestamp: cycle.completedAt, userId: cycle.completedBy, done: true });
+      events.push({ timestamp: cycle.completedAt, userId: cycle.completedBy, done: false });
+    });
+    events.sort((a, b) => a.timestamp - b.timestamp);
+    if (isDoneStatus(workflow, task.status) && !events[events.length - 1]?.done) {
+      // Done, but the completion is not readable (old data): the latest status change must have done it
+      const lastChange = [...task.activity].reverse().find(a => a.type === 'status_change');
+      events.push({
+        timestamp: lastChange?.timestamp ?? Math.max(createdAt, ...task.activity.map(a => a.timestamp)),
+        userId: lastChange?.createdBy ?? task.createdBy,
+        done: true,
+      });
+    }
+
+    const timeline: TaskTimeline = { task, project, createdAt, events };
+    if (isDoneStatus(workflow, task.status)) timeline.doneAt = events[events.length - 1].timestamp;
+    return timeline;
+  });
+});
+
+const isDoneAt = (timeline: TaskTimeline, timestamp: number): boolean => {
+  const past = timeline.events.filter(e => e.timestamp <= timestamp);
+  return past.length > 0 && past[past.length - 1].done;
+};
+
+// Completions are transitions into done, so saving the same status twice does not count twice
+const completionsOf = (timeline: TaskTimeline): StatusEvent[] => {
+  let done = false;
+  const completions: StatusEvent[] = [];
+  timeline.events.forEach(event => {
+    if (event.done && !done) completions.push(event);
+    done = event.done;
+  });
+  return completions;
+};
+
+// --- CHARTS ---
+/** Scope and done counts at the end of each day; burn-down is scope minus done. */
+export const burnSeries = (timelines: TaskTimeline[], filter: AnalyticsFilter): BurnPoint[] => {
+  const days = listDays(filter.from, daysBetween(filter.from, filter.to) + 1);
+  return days.map(date => {
+    const endOfDay = parseDateKey(addDays(date, 1)).getTime() - 1;
+    const existing = timelines.filter(t => t.createdAt <= endOfDay);
+    return { date, scope: existing.length, done: existing.filter(t => isDoneAt(t, endOfDay)).length };
+  });
+};
+
+export const weeklyThroughput = (timelines: TaskTimeline[], filter: AnalyticsFilter): WeekCount[] => {
+  const weeks: WeekCount[] = [];
+  for (let week = startOfWeek(filter.from); week <= filter.to; week = addDays(week, 7)) weeks.push({ weekStart: week, count: 0 });
+  timelines.forEach(timeline => completionsOf(timeline).forEach(event => {
+    if (!inRange(event.timestamp, filter)) return;
+    const bucket = weeks.find(w => w.weekStart === startOfWeek(dayOf(event.timestamp)));
+    if (bucket) bucket.count++;
+  }));
+  return weeks;
+};
+
+/** Average days from creation to the last completion, for tasks completed in the range. */
+export const averageLeadDays = (timelines: TaskTimeline[], filter: AnalyticsFilter): number | null => {
+  const leads = timelines
+    .filter(t => t.doneAt !== undefined && inRange(t.doneAt, filter))
+    .map(t => Math.max(t.doneAt! - t.createdAt, 0) / 86400000);
+  return leads.length > 0 ? leads.reduce((sum, days) => sum + days, 0) / leads.length : null;
+};
+
+// --- PEOPLE AND TASKS ---
+// Comments and edits on parent tasks count too, so this walks whole trees besides the leaves' completions
+export const topContributors = (projects: Project[], timelines: TaskTimeline[], filter: AnalyticsFilter, limit = 5): Contributor[] => {
+  const byUser = new Map<string, Contributor>();
+  const get = (userId: string) => {
+    const existing = byUser.get(userId);
+    if (existing) return existing;
+    const created: Contributor = { userId, completed: 0, comments: 0, total: 0 };
+    byUser.set(userId, created);
+    return created;
+  };
+  projects.forEach(project => flattenTasks(project.tasks).forEach(task => {
+    task.activity.filter(a => inRange(a.timestamp, filter)).forEach(log => {
+      const row = get(log.createdBy);
+      row.total++;
+      if (log.type === 'comment') row.comments++;
+    });
+  }));
+  timelines.forEach(timeline => completionsOf(timeline).filter(e => inRange(e.timestamp, filter)).forEach(e => get(e.userId).completed++));
+  return [...byUser.values()].sort((a, b) => b.completed - a.completed || b.total - a.total).slice(0, limit);
+};
+
+/** Open leaves with no activity for at least `days` days, longest idle first. */
+export const findStaleTasks = (timelines: TaskTimeline[], days: number, now = Date.now()): StaleTask[] => {
+  return timelines
+    .filter(t => t.doneAt === undefined)
+    .map(t => {
+      const lastActivity = Math.max(t.createdAt, ...t.task.activity.map(a => a.timestamp));
+      return { task: t.task, project: t.project, lastActivity, idleDays: Math.floor((now - lastActivity) / 86400000) };
+    })
+    .filter(t => t.idleDays >= days)
+    .sort((a, b) => a.lastActivity - b.lastActivity);
+};
+
+export const summarizeProjects = (timelines: TaskTimeline[], filter: AnalyticsFilter): ProjectSummary[] => {
+  const byProject = new Map<string, ProjectSummary>();
+  timelines.forEach(timeline => {
+    const row = byProject.get(timeline.project.id) || { project: timeline.project, scope: 0, done: 0, completedInRange: 0 };
+    row.scope++;
+    if (timeline.doneAt !== undefined) row.done++;
+    row.completedInRange += completionsOf(timeline).filter(e => inRange(e.timestamp, filter)).length;
+    byProject.set(timeline.project.id, row);
+  });
+  return [...byProject.values()].sort((a, b) => b.completedInRange - a.completedInRange || a.project.title.localeCompare(b.project.title));
+};
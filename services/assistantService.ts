@@ -0,0 +1,169 @@
+import { AIPersona, ChatMessage, ExchangeRate, Project, Task, User } from "../types";
+import { describeCostsForAI } from "./costService";
+import { generateId } from "./idService";
+import { getProgressRules, getProjectProgress, getTaskProgress } from "./progressService";
+import { formatDateKey } from "./scheduleService";
+import { findStatus } from "./workflowService";
+
+export const MAX_CHAT_MESSAGES = 200; // Stored per project; the oldest are dropped
+export const CONTEXT_TOKEN_BUDGET = 6000;
+export const HISTORY_TOKEN_BUDGET = 3000;
+
+const RECENT_COMMENTS = 3;
+const MAX_TEXT_CHARS = 400;
+
+export const PERSONAS: { id: AIPersona; label: string; description: string; instructions: string }[] = [
+  {
+    id: 'consultant',
+    label: 'Consultor',
+    description: 'Project manager senior: economía, diseño y procesos.',
+    instructions: 'Eres un Project Manager Senior experto en economía, diseño y procesos (ISO 9001). Responde de forma breve, estratégica y orientada a la acción.',
+  },
+  {
+    id: 'investor',
+    label: 'Inversor Escéptico',
+    description: 'Cuestiona supuestos, riesgos y retorno.',
+    instructions: 'Eres un inversor escéptico. Cuestiona los supuestos del proyecto, busca riesgos, costos ocultos y dependencias débiles, y pide evidencia antes de aceptar una proyección. Cierra con las 2 o 3 preguntas que harías antes de poner dinero.',
+  },
+  {
+    id: 'technical',
+    label: 'Analista Técnico (MSP/Niza)',
+    description: 'Habilitaciones del MSP y clases de Niza para marcas.',
+    instructions: 'Eres un analista técnico regulatorio en Uruguay. Conoces los registros y habilitaciones del Ministerio de Salud Pública (MSP) y la Clasificación de Niza para marcas. Señala qué trámites, clases o requisitos aplican a las tareas y qué falta documentar. Si no estás seguro de un requisito, dilo y sugiere dónde confirmarlo.',
+  },
+  {
+    id: 'calculator',
+    label: 'Calculadora PYME',
+    description: 'Costos, landed cost, márgenes y punto de equilibrio.',
+    instructions: 'Eres una calculadora financiera para PYMEs. Trabaja con números: costos, landed cost, márgenes, precio de venta y punto de equilibrio. Muestra los cálculos paso a paso con los datos del proyecto y marca como supuesto cualquier valor que no esté en él.',
+  },
+];
+
+export const getPersona = (id: AIPersona) => PERSONAS.find(p => p.id === id) || PERSONAS[0];
+
+export const isPersona = (value: unknown): value is AIPersona => PERSONAS.some(p => p.id === value);
+
+// --- HELPERS ---
+// Rough count for Spanish prose (about four characters per token); only used to stay under budgets
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const clip = (text: string, max: number): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+};
+
+const countTasks = (tasks: Task[]): number => tasks.reduce((sum, t) => sum + 1 + countTasks(t.subtasks), 0);
+
+// --- CONTEXT ---
+// 3: everything; 2: without comments; 1: only the hidden AI context; 0: titles and statuses
+type DetailLevel = 0 | 1 | 2 | 3;
+
+const describeTasks = (project: Project, users: User[], level: DetailLevel): string[] => {
+  const rules = getProgressRules(project);
+  const nameOf = (id: string) => users.find(u => u.id === id)?.name || 'Usuario desconocido';
+  const lines: string[] = [];
+
+  const walk = (tasks: Task[], depth: number) => tasks.forEach(task => {
+    const indent = '  '.repeat(depth);
+    const facts = [task.subtasks.length > 0 ? `${getTaskProgress(task, rules)}%` : findStatus(rules.workflow, task.status).label];
+    if (task.assignees.length > 0) facts.push(`responsables: ${task.assignees.map(nameOf).join(', ')}`);
+    if (task.dueDate) facts.push(`vence ${formatDateKey(task.dueDate)}`);
+    if (task.tags.length > 0) facts.push(`#${task.tags.join(' #')}`);
+    lines.push(`${indent}- ${task.title} [${facts.join(' · ')}]`);
+    if (level >= 2 && task.description) lines.push(`${indent}  Descripción: ${clip(task.description, MAX_TEXT_CHARS)}`);
+    if (level >= 1 && task.aiContext) lines.push(`${indent}  Contexto: ${clip(task.aiContext, MAX_TEXT_CHARS)}`);
+    if (level >= 3) {
+      task.activity.filter(a => a.type === 'comment').slice(-RECENT_COMMENTS)
+        .forEach(c => lines.push(`${indent}  Comentario de ${nameOf(c.createdBy)}: ${clip(c.content, MAX_TEXT_CHARS)}`));
+    }
+    walk(task.subtasks, depth + 1);
+  });
+
+  walk(project.tasks, 0);
+  return lines;
+};
+
+/**
+ * Project summary for the assistant: the whole task tree with statuses, people,
+ * descriptions, hidden AI context and recent comments, plus the budget. Detail is
+ * dropped level by level until it fits `budget` tokens; if even bare titles do
+ * not fit, the tree is cut and the omission is stated.
+ */
+export const buildProjectContext = (project: Project, rates: ExchangeRate[], users: User[], budget = CONTEXT_TOKEN_BUDGET): string => {
+  const header = [
+    `Proyecto: ${project.title}${project.subtitle ? ` (${project.subtitle})` : ''}. Progreso general: ${getProjectProgress(project)}%.`,
+    `Estados del flujo: ${getProgressRules(project).workflow.map(s => s.label).join(' → ')}.`,
+  ].join('\n');
+  const costs = describeCostsForAI(project, rates);
+  const available = budget - estimateTokens(header) - estimateTokens(costs);
+  const compose = (lines: string[]) => [header, 'Tareas:', ...(lines.length > 0 ? lines : ['(sin tareas)']), costs].join('\n');
+
+  for (const level of [3, 2, 1, 0] as DetailLevel[]) {
+    const lines = describeTasks(project, users, level);
+    if (estimateTokens(lines.join('\n')) <= available) return compose(lines);
+  }
+
+  const lines = describeTasks(project, users, 0);
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    used += estimateTokens(line) + 1;
+    if (used > available) break;
+    kept.push(line);
+  }
+  kept.push(`… y ${countTasks(project.tasks) - kept.length} tareas más que no entran en el contexto.`);
+  return compose(kept);
+};
+
+export const buildSystemInstruction = (persona: AIPersona, context: string): string => [
+  'Prompt Maestro: Consultor Multidisciplinario (Daniel G.)',
+  `ROL:\n${getPersona(persona).instructions}`,
+  `CONTEXTO DEL PROYECTO:\n${context}`,
+  'Usa el contexto y la conversación previa. Si falta un dato, pídelo en lugar de inventarlo.',
+].join('\n\n');
+
+/**
+ * The newest question-and-answer pairs that fit `budget` tokens, oldest first. Questions
+ * whose reply failed or never arrived are left out with it, so turns always alternate.
+ */
+export const selectHistory = (chat: ChatMessage[], budget = HISTORY_TOKEN_BUDGET): ChatMessage[] => {
+  const pairs: [ChatMessage, ChatMessage][] = [];
+  chat.forEach((message, i) => {
+    const reply = chat[i + 1];
+    if (message.role === 'user' && reply?.role === 'assistant' && !reply.failed) pairs.push([message, reply]);
+  });
+
+  const selected: ChatMessage[] = [];
+  let used = 0;
+  for (const [question, reply] of pairs.reverse()) {
+    used += estimateTokens(question.content) + estimateTokens(reply.content);
+    if (used > budget) break;
+    selected.unshift(question, reply);
+  }
+  return selected;
+};
+
+// --- CHAT ---
+export const createChatMessage = (role: ChatMessage['role'], content: string, persona: AIPersona, userId: string, failed = false): ChatMessage => {
+  const message: ChatMessage = { id: generateId(), role, content, persona, createdBy: userId, createdAt: Date.now() };
+  if (failed) message.failed = true;
+  return message;
+};
+
+export const appendChatMessages = (project: Project, messages: ChatMessage[]): Project => ({
+  ...project,
+  chat: [...(project.chat || []), ...messages].slice(-MAX_CHAT_MESSAGES),
+});
+
+export const clearChat = (project: Project): Project => {
+  const { chat, ...rest } = project;
+  return rest;
+};
+
+// Imports union both conversations; the same message on both sides is kept once
+export const mergeChats = (a: ChatMessage[] = [], b: ChatMessage[] = []): ChatMessage[] | undefined => {
+  const merged = [...a, ...b.filter(m => !a.some(existing => existing.id === m.id))]
+    .sort((x, y) => x.createdAt - y.createdAt)
+    .slice(-MAX_CHAT_MESSAGES);
+  return merged.length > 0 ? merged : undefined;
+};
@@ -0,0 +1,52 @@
+import { CredentialKind, User, UserCredential } from "../types";
+
+const PBKDF2_ITERATIONS = 100000;
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to avoid typos
+
+// --- HELPERS ---
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashSecret = async (secret: string, salt: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: encoder.encode(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+// --- CREDENTIALS ---
+export const validateSecret = (secret: string, kind: CredentialKind): string | null => {
+  if (kind === 'pin' && !/^\d{4,8}$/.test(secret)) return "El PIN debe tener entre 4 y 8 dígitos.";
+  if (kind === 'passphrase' && secret.trim().length < 8) return "La frase debe tener al menos 8 caracteres.";
+  return null;
+};
+
+export const createCredential = async (secret: string, kind: CredentialKind): Promise<UserCredential> => {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return { kind, salt, hash: await hashSecret(secret, salt) };
+};
+
+// Users without a credential can always sign in
+export const verifyCredential = async (user: User, secret: string): Promise<boolean> => {
+  if (!user.credential) return true;
+  return (await hashSecret(secret, user.credential.salt)) === user.credential.hash;
+};
+
+// --- INVITES ---
+export const generateInviteCode = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(6));
+  return Array.from(bytes).map(b => INVITE_ALPHABET[b % INVITE_ALPHABET.length]).join('');
+};
+
+export const matchesInviteCode = (user: User, code: string): boolean => {
+  return !!user.inviteCode && user.inviteCode === code.trim().toUpperCase();
+};
+
+// Strips secrets before a user leaves the device (exports, bundles)
+export const toPublicUser = (user: User): User => {
+  const { credential, inviteCode, ...rest } = user;
+  return rest;
+};
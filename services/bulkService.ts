@@ -0,0 +1,153 @@
+import { ActivityLog, Project, Task, TrashItem } from "../types";
+import { generateId } from "./idService";
+import { formatDateKey } from "./scheduleService";
+import { findTag, getProjectTags, normalizeTagName, sameTag, syncTagDefinitions } from "./tagService";
+import { trashTask } from "./trashService";
+import { doneStatus, findStatus, getWorkflow, initialStatus } from "./workflowService";
+
+// Every bulk action touches each affected task once and logs once per task,
+// so the whole batch is one state update and one undo step.
+
+// --- HELPERS ---
+const logEntry = (content: string, type: ActivityLog['type'], userId: string, toStatus?: string): ActivityLog => ({
+  id: generateId(), content, type, timestamp: Date.now(), createdBy: userId, ...(toStatus ? { toStatus } : {}),
+});
+
+const collectIds = (tasks: Task[], into: Set<string> = new Set()): Set<string> => {
+  tasks.forEach(t => {
+    into.add(t.id);
+    collectIds(t.subtasks, into);
+  });
+  return into;
+};
+
+const findTitle = (tasks: Task[], id: string): string | null => {
+  for (const t of tasks) {
+    if (t.id === id) return t.title;
+    const found = findTitle(t.subtasks, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+/** Selected tasks whose ancestors are not selected too; acting on those covers the rest. */
+export const topLevelSelection = (tasks: Task[], selected: Set<string>): Task[] => tasks.flatMap(t => selected.has(t.id) ? [t] : topLevelSelection(t.subtasks, selected));
+
+const updateSelected = (tasks: Task[], selected: Set<string>, updater: (t: Task) => Task): Task[] => tasks.map(t => {
+  const next = { ...t, subtasks: updateSelected(t.subtasks, selected, updater) };
+  return selected.has(t.id) ? updater(next) : next;
+});
+
+// --- STATUS ---
+/** Completing or reopening a parent applies to the leaves below it, since its status is their roll-up. */
+export const bulkSetDone = (project: Project, ids: string[], done: boolean, userId: string): Project => {
+  const workflow = getWorkflow(project);
+  const target = done ? doneStatus(workflow) : initialStatus(workflow);
+  const leaves = new Set<string>();
+  const collectLeaves = (t: Task) => t.subtasks.length === 0 ? leaves.add(t.id) : t.subtasks.forEach(collectLeaves);
+  topLevelSelection(project.tasks, new Set(ids)).forEach(collectLeaves);
+
+  const tasks = updateSelected(project.tasks, leaves, t => {
+    const from = findStatus(workflow, t.status);
+    if ((from.progress >= 100) === done) return t;
+    return { ...t, status: target.id, activity: [...t.activity, logEntry(`Estado: ${from.label} → ${target.label}`, 'status_change', userId, target.id)] };
+  });
+  return { ...project, tasks };
+};
+
+// --- TAGS, PEOPLE AND DATES ---
+export const bulkAddTag = (project: Project, ids: string[], name: string, userId: string): Project => {
+  const tag = findTag(getProjectTags(project), name)?.name || normalizeTagName(name);
+  if (!tag) return project;
+  const tasks = updateSelected(project.tasks, new Set(ids), t => t.tags.some(existing => sameTag(existing, tag))
+    ? t
+    : { ...t, tags: [...t.tags, tag], activity: [...t.activity, logEntry(`Etiqueta añadida: #${tag}`, 'edit', userId)] });
+  return { ...project, tasks, tags: syncTagDefinitions(getProjectTags(project), tasks) };
+};
+
+export const bulkAssign = (project: Project, ids: string[], assigneeId: string, assigneeName: string, userId: string): Project => {
+  const tasks = updateSelected(project.tasks, new Set(ids), t => t.assignees.includes(assigneeId)
+    ? t
+    : { ...t, assignees: [...t.assignees, assigneeId], activity: [...t.activity, logEntry(`Asignó a ${assigneeName}`, 'assignment', userId)] });
+  return { ...project, tasks };
+};
+
+// A start date after the new due date moves with it so the range stays valid
+export const bulkSetDueDate = (project: Project, ids: string[], dueDate: string | undefined, userId: string): Project => {
+  const tasks = updateSelected(project.tasks, new Set(ids), t => {
+    if (t.dueDate === dueDate) return t;
+    const startDate = dueDate && t.startDate && t.startDate > dueDate ? dueDate : t.startDate;
+    const content = dueDate ? `Vencimiento: ${formatDateKey(dueDate)}` : 'Vencimiento quitado';
+    return {
+      ...t,
+      startDate,
+      dueDate,
+      reminderDaysBefore: dueDate ? t.reminderDaysBefore : undefined,
+      activity: [...t.activity, logEntry(content, 'edit', userId)],
+    };
+  });
+  return { ...project, tasks };
+};
+
+// --- STRUCTURE ---
+/**
+ * Moves the selection under `parentId` (null for the root), keeping tree order.
+ * Returns null when the target is one of the moved tasks or sits inside one.
+ */
+export const bulkMove = (project: Project, ids: string[], parentId: string | null, userId: string): Project | null => {
+  const moving = topLevelSelection(project.tasks, new Set(ids));
+  const movingIds = new Set(moving.map(t => t.id));
+  if (parentId && collectIds(moving).has(parentId)) return null;
+
+  const parentTitle = parentId ? findTitle(project.tasks, parentId) : null;
+  const content = parentTitle ? `Movida dentro de "${parentTitle}"` : 'Movida a la raíz del proyecto';
+  const moved = moving.map(t => ({ ...t, activity: [...t.activity, logEntry(content, 'edit', userId)] }));
+
+  const remove = (tasks: Task[]): Task[] => tasks.filter(t => !movingIds.has(t.id)).map(t => ({ ...t, subtasks: remove(t.subtasks) }));
+  const remaining = remove(project.tasks);
+  if (!parentId) return { ...project, tasks: [...remaining, ...moved] };
+  const insert = (tasks: Task[]): Task[] => tasks.map(t => t.id === parentId
+    ? { ...t, subtasks: [...t.subtasks, ...moved], expanded: true }
+    : { ...t, subtasks: insert(t.subtasks) });
+  return { ...project, tasks: insert(remaining) };
+};
+
+// Each deleted task gets its own trash entry so it can be restored on its own
+export const bulkTrash = (project: Project, ids: string[], userId: string): { project: Project; items: TrashItem[] } => {
+  return topLevelSelection(project.tasks, new Set(ids)).reduce((acc, task) => {
+    const result = trashTask(acc.project, task.id, userId);
+    return result ? { project: result.project, items: [...acc.items, result.item] } : acc;
+  }, { project, items: [] as TrashItem[] });
+};
+
+// --- DISPATCH ---
+export type BulkAction =
+  | { kind: 'complete' }
+  | { kind: 'reopen' }
+  | { kind: 'delete' }
+  | { kind: 'move'; parentId: string | null }
+  | { kind: 'tag'; name: string }
+  | { kind: 'assign'; userId: string; userName: string }
+  | { kind: 'due'; date?: string };
+
+export const BULK_LABELS: Record<BulkAction['kind'], string> = {
+  complete: 'Completar tareas',
+  reopen: 'Reabrir tareas',
+  delete: 'Tareas movidas a la papelera',
+  move: 'Mover tareas',
+  tag: 'Etiquetar tareas',
+  assign: 'Asignar tareas',
+  due: 'Cambiar vencimientos',
+};
+
+/** Applies any action except delete, which also produces trash entries (see bulkTrash). */
+export const applyBulkAction = (project: Project, ids: string[], action: Exclude<BulkAction, { kind: 'delete' }>, userId: string): Project | null => {
+  switch (action.kind) {
+    case 'complete': return bulkSetDone(project, ids, true, userId);
+    case 'reopen': return bulkSetDone(project, ids, false, userId);
+    case 'move': return bulkMove(project, ids, action.parentId, userId);
+    case 'tag': return bulkAddTag(project, ids, action.name, userId);
+    case 'assign': return bulkAssign(project, ids, action.userId, action.userName, userId);
+    case 'due': return bulkSetDueDate(project, ids, action.date, userId);
+  }
+};
@@ -0,0 +1,43 @@
+import { foldText } from "./queryService";
+
+export type CommandSection = 'Acciones' | 'Proyectos' | 'Tareas';
+
+export interface Command {
+  id: string;
+  section: CommandSection;
+  label: string;
+  hint?: string; // Secondary text, e.g. the project and parent path of a task
+  keywords?: string; // Extra words the command answers to
+  run: () => void;
+}
+
+export const MAX_PALETTE_RESULTS = 40;
+
+// Earlier sections win ties, so actions stay above the long list of tasks
+const SECTION_ORDER: CommandSection[] = ['Acciones', 'Proyectos', 'Tareas'];
+
+/**
+ * Every word of the query must appear in the label, hint or keywords.
+ * Label prefixes score best, then word starts in the label, then anything else.
+ */
+const scoreCommand = (command: Command, words: string[]): number | null => {
+  const label = foldText(command.label);
+  const haystack = `${label} ${foldText(command.hint || '')} ${foldText(command.keywords || '')}`;
+  if (!words.every(word => haystack.includes(word))) return null;
+  return words.reduce((score, word) => {
+    if (label.startsWith(word)) return score + 3;
+    if (label.includes(` ${word}`)) return score + 2;
+    return score + (label.includes(word) ? 1 : 0);
+  }, 0);
+};
+
+export const rankCommands = (commands: Command[], query: string, limit = MAX_PALETTE_RESULTS): Command[] => {
+  const words = foldText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return commands.filter(c => c.section !== 'Tareas').slice(0, limit);
+  return commands
+    .map(command => ({ command, score: scoreCommand(command, words) }))
+    .filter((entry): entry is { command: Command; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score || SECTION_ORDER.indexOf(a.command.section) - SECTION_ORDER.indexOf(b.command.section))
+    .slice(0, limit)
+    .map(entry => entry.command);
+};
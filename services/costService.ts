@@ -0,0 +1,150 @@
+import { ActivityLog, CostLine, Currency, ExchangeRate, Project, Task } from "../types";
+import { generateId } from "./idService";
+
+export const BASE_CURRENCY: Currency = 'UYU';
+
+export const CURRENCIES: { code: Currency; label: string }[] = [
+  { code: 'UYU', label: 'Peso uruguayo' },
+  { code: 'USD', label: 'Dólar estadounidense' },
+  { code: 'EUR', label: 'Euro' },
+];
+
+const CURRENCY_CODES = CURRENCIES.map(c => c.code);
+
+export const COST_KIND_LABELS: Record<CostLine['kind'], string> = {
+  planned: 'Presupuesto',
+  actual: 'Gasto real',
+};
+
+export interface CostTotals {
+  planned: number;
+  actual: number;
+  missingRates: Currency[]; // Currencies left out of the totals because they have no rate
+}
+
+// --- HELPERS ---
+const logEntry = (content: string, userId: string): ActivityLog => ({
+  id: generateId(), content, type: 'edit', timestamp: Date.now(), createdBy: userId,
+});
+
+const mapTask = (tasks: Task[], taskId: string, updater: (t: Task) => Task): Task[] => tasks.map(t => {
+  if (t.id === taskId) return updater(t);
+  return { ...t, subtasks: mapTask(t.subtasks, taskId, updater) };
+});
+
+export const isCurrency = (value: unknown): value is Currency => CURRENCY_CODES.includes(value as Currency);
+
+export const getProjectCurrency = (project: Project): Currency => project.currency || BASE_CURRENCY;
+
+export const formatMoney = (amount: number, currency: Currency): string => {
+  return new Intl.NumberFormat('es-UY', { style: 'currency', currency, maximumFractionDigits: 2 }).format(amount);
+};
+
+// --- EXCHANGE RATES ---
+export const getRate = (rates: ExchangeRate[], currency: Currency): number | null => {
+  if (currency === BASE_CURRENCY) return 1;
+  const rate = rates.find(r => r.currency === currency)?.rate;
+  return rate && rate > 0 ? rate : null;
+};
+
+/** Converts through the base currency; null when either side has no rate yet. */
+export const convertAmount = (amount: number, from: Currency, to: Currency, rates: ExchangeRate[]): number | null => {
+  if (from === to) return amount;
+  const fromRate = getRate(rates, from);
+  const toRate = getRate(rates, to);
+  if (fromRate === null || toRate === null) return null;
+  return amount * fromRate / toRate;
+};
+
+export const setExchangeRate = (rates: ExchangeRate[], currency: Currency, rate: number, userId: string): ExchangeRate[] => {
+  if (currency === BASE_CURRENCY) return rates;
+  const others = rates.filter(r => r.currency !== currency);
+  if (!(rate > 0)) return others;
+  return [...others, { currency, rate, updatedAt: Date.now(), updatedBy: userId }]
+    .sort((a, b) => CURRENCY_CODES.indexOf(a.currency) - CURRENCY_CODES.indexOf(b.currency));
+};
+
+// --- ROLL-UP ---
+const emptyTotals = (): CostTotals => ({ planned: 0, actual: 0, missingRates: [] });
+
+const addLines = (totals: CostTotals, lines: CostLine[], currency: Currency, rates: ExchangeRate[]) => {
+  lines.forEach(line => {
+    const amount = convertAmount(line.amount, line.currency, currency, rates);
+    if (amount === null) {
+      if (!totals.missingRates.includes(line.currency)) totals.missingRates.push(line.currency);
+      return;
+    }
+    totals[line.kind] += amount;
+  });
+};
+
+// Unlike progress, a parent's own lines count too: a budget can be set at any level
+export const getTaskCosts = (task: Task, currency: Currency, rates: ExchangeRate[]): CostTotals => {
+  const totals = emptyTotals();
+  const walk = (t: Task) => {
+    addLines(totals, t.costs || [], currency, rates);
+    t.subtasks.forEach(walk);
+  };
+  walk(task);
+  return totals;
+};
+
+export const getProjectCosts = (project: Project, rates: ExchangeRate[], currency = getProjectCurrency(project)): CostTotals => {
+  const totals = emptyTotals();
+  project.tasks.forEach(task => {
+    const sub = getTaskCosts(task, currency, rates);
+    totals.planned += sub.planned;
+    totals.actual += sub.actual;
+    sub.missingRates.forEach(code => { if (!totals.missingRates.includes(code)) totals.missingRates.push(code); });
+  });
+  return totals;
+};
+
+export const hasCosts = (task: Task): boolean => (task.costs || []).length > 0 || task.subtasks.some(hasCosts);
+
+// --- EDITING ---
+export const addCostLine = (project: Project, taskId: string, line: Pick<CostLine, 'kind' | 'label' | 'amount' | 'currency'>, userId: string): Project => {
+  const created: CostLine = { ...line, id: generateId(), createdBy: userId, createdAt: Date.now() };
+  return {
+    ...project,
+    tasks: mapTask(project.tasks, taskId, t => ({
+      ...t,
+      costs: [...(t.costs || []), created],
+      activity: [...t.activity, logEntry(`${COST_KIND_LABELS[line.kind]}: ${line.label} ${formatMoney(line.amount, line.currency)}`, userId)],
+    })),
+  };
+};
+
+export const removeCostLine = (project: Project, taskId: string, lineId: string, userId: string): Project => ({
+  ...project,
+  tasks: mapTask(project.tasks, taskId, t => {
+    const line = t.costs?.find(c => c.id === lineId);
+    if (!line) return t;
+    const costs = t.costs!.filter(c => c.id !== lineId);
+    return {
+      ...t,
+      costs: costs.length > 0 ? costs : undefined,
+      activity: [...t.activity, logEntry(`Quitó ${COST_KIND_LABELS[line.kind].toLowerCase()}: ${line.label}`, userId)],
+    };
+  }),
+});
+
+// --- AI CONTEXT ---
+const describeTotals = (totals: CostTotals, currency: Currency): string => {
+  const parts = [`presupuesto ${formatMoney(totals.planned, currency)}`, `gasto real ${formatMoney(totals.actual, currency)}`];
+  if (totals.planned > 0) parts.push(`${Math.round(totals.actual / totals.planned * 100)}% ejecutado`);
+  return parts.join(', ');
+};
+
+/** Budget lines for the assistant prompt: project totals, then each top-level task that has costs. */
+export const describeCostsForAI = (project: Project, rates: ExchangeRate[]): string => {
+  const currency = getProjectCurrency(project);
+  const totals = getProjectCosts(project, rates, currency);
+  if (totals.planned === 0 && totals.actual === 0 && totals.missingRates.length === 0) return 'Sin costos cargados.';
+  const lines = [`Costos del proyecto (${currency}): ${describeTotals(totals, currency)}.`];
+  project.tasks.filter(hasCosts).forEach(task => lines.push(`- ${task.title}: ${describeTotals(getTaskCosts(task, currency, rates), currency)}.`));
+  const known = rates.filter(r => r.currency !== BASE_CURRENCY).map(r => `1 ${r.currency} = ${r.rate} ${BASE_CURRENCY}`);
+  if (known.length > 0) lines.push(`Tipos de cambio: ${known.join(', ')}.`);
+  if (totals.missingRates.length > 0) lines.push(`Sin tipo de cambio (excluidos): ${totals.missingRates.join(', ')}.`);
+  return lines.join('\n');
+};
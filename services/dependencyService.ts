@@ -0,0 +1,134 @@
+import { ActivityLog, Project, Task, WorkflowStatus } from "../types";
+import { generateId } from "./idService";
+import { isTaskDone } from "./scheduleService";
+import { getWorkflow } from "./workflowService";
+
+// Links live on the blocked task as `blockedBy`; "blocks" is the same link read
+// from the other end, so there is a single source of truth to keep consistent.
+
+// --- HELPERS ---
+const logEntry = (content: string, userId: string): ActivityLog => ({
+  id: generateId(), content, type: 'edit', timestamp: Date.now(), createdBy: userId,
+});
+
+const flatten = (tasks: Task[]): Task[] => tasks.flatMap(t => [t, ...flatten(t.subtasks)]);
+
+const indexTasks = (tasks: Task[]): Map<string, Task> => new Map(flatten(tasks).map(t => [t.id, t]));
+
+const mapTasks = (tasks: Task[], updater: (t: Task) => Task): Task[] => tasks.map(t => updater({ ...t, subtasks: mapTasks(t.subtasks, updater) }));
+
+const containsTask = (task: Task, id: string): boolean => task.subtasks.some(sub => sub.id === id || containsTask(sub, id));
+
+// --- QUERIES ---
+export const getBlockers = (project: Project, task: Task): Task[] => {
+  const index = indexTasks(project.tasks);
+  return (task.blockedBy || []).map(id => index.get(id)).filter((t): t is Task => !!t);
+};
+
+export const getBlockedTasks = (project: Project, taskId: string): Task[] => flatten(project.tasks).filter(t => t.blockedBy?.includes(taskId));
+
+/** Blockers still open; a parent blocker counts as done once all its subtasks are. */
+export const getOpenBlockers = (project: Project, task: Task, workflow: WorkflowStatus[] = getWorkflow(project)): Task[] => {
+  return getBlockers(project, task).filter(blocker => !isTaskDone(blocker, workflow));
+};
+
+export const isTaskBlocked = (project: Project, task: Task, workflow?: WorkflowStatus[]): boolean => getOpenBlockers(project, task, workflow).length > 0;
+
+// --- VALIDATION ---
+// `links` gives the blockers already in place, so existing links can be re-checked one by one
+const linkError = (index: Map<string, Task>, links: (id: string) => string[], taskId: string, blockerId: string): string | null => {
+  const task = index.get(taskId);
+  const blocker = index.get(blockerId);
+  if (!task || !blocker) return 'La tarea ya no existe.';
+  if (taskId === blockerId) return 'Una tarea no puede bloquearse a sí misma.';
+  if (links(taskId).includes(blockerId)) return `"${blocker.title}" ya bloquea a esta tarea.`;
+  if (containsTask(task, blockerId) || containsTask(blocker, taskId)) return 'Una tarea no puede depender de sus propias subtareas ni de sus tareas padre.';
+
+  // The new link closes a cycle when the blocker already waits on the task, directly or not
+  const seen = new Set<string>();
+  const waitsOnTask = (id: string): boolean => {
+    if (id === taskId) return true;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return links(id).some(waitsOnTask);
+  };
+  if (waitsOnTask(blockerId)) return `"${blocker.title}" ya depende de "${task.title}"; el vínculo crearía un ciclo.`;
+  return null;
+};
+
+// Re-checks every existing link in tree order against the links kept before it
+const checkLinks = (tasks: Task[]): { kept: Map<string, string[]>; invalid: { taskId: string; blockerId: string }[] } => {
+  const index = indexTasks(tasks);
+  const kept = new Map<string, string[]>();
+  const invalid: { taskId: string; blockerId: string }[] = [];
+  flatten(tasks).forEach(t => (t.blockedBy || []).forEach(blockerId => {
+    if (linkError(index, id => kept.get(id) || [], t.id, blockerId)) invalid.push({ taskId: t.id, blockerId });
+    else kept.set(t.id, [...(kept.get(t.id) || []), blockerId]);
+  }));
+  return { kept, invalid };
+};
+
+/**
+ * Why `taskId` cannot be blocked by `blockerId`, or null when the link is valid.
+ * Besides direct cycles, a task and its own subtasks already depend on each other
+ * through the roll-up, so linking them would deadlock one of the two.
+ */
+export const findDependencyError = (project: Project, taskId: string, blockerId: string): string | null => {
+  const index = indexTasks(project.tasks);
+  return linkError(index, id => index.get(id)?.blockedBy || [], taskId, blockerId);
+};
+
+// --- EDITING ---
+// Both ends of the link log it, so either task's history explains the dependency
+export const addDependency = (project: Project, taskId: string, blockerId: string, userId: string): Project => {
+  const index = indexTasks(project.tasks);
+  const task = index.get(taskId);
+  const blocker = index.get(blockerId);
+  if (!task || !blocker || findDependencyError(project, taskId, blockerId)) return project;
+  const tasks = mapTasks(project.tasks, t => {
+    if (t.id === taskId) return { ...t, blockedBy: [...(t.blockedBy || []), blockerId], activity: [...t.activity, logEntry(`Bloqueada por "${blocker.title}"`, userId)] };
+    if (t.id === blockerId) return { ...t, activity: [...t.activity, logEntry(`Bloquea a "${task.title}"`, userId)] };
+    return t;
+  });
+  return { ...project, tasks };
+};
+
+export const removeDependency = (project: Project, taskId: string, blockerId: string, userId: string): Project => {
+  const index = indexTasks(project.tasks);
+  const task = index.get(taskId);
+  const blocker = index.get(blockerId);
+  if (!task || !task.blockedBy?.includes(blockerId)) return project;
+  const tasks = mapTasks(project.tasks, t => {
+    if (t.id === taskId) return { ...t, blockedBy: t.blockedBy!.filter(id => id !== blockerId), activity: [...t.activity, logEntry(`Ya no bloqueada por "${blocker?.title || 'tarea eliminada'}"`, userId)] };
+    if (t.id === blockerId) return { ...t, activity: [...t.activity, logEntry(`Ya no bloquea a "${task.title}"`, userId)] };
+    return t;
+  });
+  return { ...project, tasks };
+};
+
+/**
+ * Removes the links a change to the tree made invalid, e.g. a move that nested a task
+ * under its own blocker; both ends log the removal like `removeDependency`.
+ */
+export const dropInvalidDependencies = (project: Project, userId: string): Project =>
+  checkLinks(project.tasks).invalid.reduce((p, link) => removeDependency(p, link.taskId, link.blockerId, userId), project);
+
+/**
+ * Silently drops links `findDependencyError` would reject: tasks no longer in the tree
+ * (e.g. after a delete), self-links, duplicates, parent/subtask links and the link that
+ * closes each cycle. Used on load, import and restore; untouched tasks keep their identity.
+ */
+export const pruneDependencies = (tasks: Task[]): Task[] => {
+  const { kept } = checkLinks(tasks);
+  const prune = (list: Task[]): Task[] => list.map(t => {
+    const subtasks = prune(t.subtasks);
+    const blockedBy = t.blockedBy && (kept.get(t.id) || []);
+    const changed = subtasks.some((sub, i) => sub !== t.subtasks[i]) || blockedBy?.length !== t.blockedBy?.length;
+    if (!changed) return t;
+    const next = { ...t, subtasks };
+    if (blockedBy && blockedBy.length > 0) next.blockedBy = blockedBy;
+    else delete next.blockedBy;
+    return next;
+  });
+  return prune(tasks);
+};
@@ -1,4 +1,5 @@
 import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { ChatMessage } from "../types";
 
 const getClient = () => {
   let apiKey = '';
@@ -17,39 +18,34 @@ const getClient = () => {
   return new GoogleGenAI({ apiKey });
 };
 
-export const getStrategicAdvice = async (
-  context: string,
+/**
+ * One turn of the project chat. The persona and project context go in the system
+ * instruction; `history` holds the earlier turns, oldest first.
+ */
+export const getChatReply = async (
+  systemInstruction: string,
+  history: Pick<ChatMessage, 'role' | 'content'>[],
   question: string
-): Promise<string> => {
+): Promise<{ text: string; failed: boolean }> => {
   const client = getClient();
-  if (!client) return "Error: API Key no configurada.";
+  if (!client) return { text: "Error: API Key no configurada.", failed: true };
 
   try {
-    const prompt = `
-      Prompt Maestro: Consultor Multidisciplinario (Daniel G.)
-      
-      CONTEXTO DEL PROYECTO:
-      ${context}
-
-      ROL:
-      Eres un Project Manager Senior experto en economía, diseño y procesos (ISO 9001).
-      
-      TAREA:
-      Responde a la siguiente consulta del usuario de forma breve, estratégica y orientada a la acción.
-      
-      CONSULTA:
-      ${question}
-    `;
-
     const response: GenerateContentResponse = await client.models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: prompt,
+      contents: [
+        ...history.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+        { role: 'user', parts: [{ text: question }] },
+      ],
+      config: { systemInstruction },
     });
 
-    return response.text || "No se pudo generar un consejo.";
+    return response.text
+      ? { text: response.text, failed: false }
+      : { text: "No se pudo generar un consejo.", failed: true };
   } catch (error) {
     console.error("Error fetching advice:", error);
-    return "Ocurrió un error al consultar al asesor virtual.";
+    return { text: "Ocurrió un error al consultar al asesor virtual.", failed: true };
   }
 };
 
@@ -0,0 +1,117 @@
+import { Project, Task } from "../types";
+
+// Scope for changes that add or remove whole projects
+export const PROJECT_LIST_SCOPE = '__projects__';
+export const MAX_HISTORY = 50;
+const COALESCE_WINDOW_MS = 1500;
+
+/**
+ * One undoable command: the project before and after the change. A null side
+ * means the project did not exist (creation) or was removed (deletion).
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  projectId: string;
+  before: Project | null;
+  after: Project | null;
+  index: number; // Position in state.projects, used to restore deleted projects in place
+  timestamp: number;
+  coalesceKey?: string; // Consecutive entries with the same key (e.g. typing) merge into one
+  destructive?: boolean;
+}
+
+export interface HistoryStack {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export type HistoryState = Record<string, HistoryStack>;
+
+const EMPTY_STACK: HistoryStack = { past: [], future: [] };
+
+export const getStack = (history: HistoryState, scope: string): HistoryStack => history[scope] || EMPTY_STACK;
+
+export const getScope = (entry: Pick<HistoryEntry, 'before' | 'after' | 'projectId'>): string => {
+  return entry.before && entry.after ? entry.projectId : PROJECT_LIST_SCOPE;
+};
+
+export const pushEntry = (history: HistoryState, entry: HistoryEntry): HistoryState => {
+  const scope = getScope(entry);
+  const stack = getStack(history, scope);
+  const last = stack.past[stack.past.length - 1];
+
+  if (entry.coalesceKey && last?.coalesceKey === entry.coalesceKey && entry.timestamp - last.timestamp < COALESCE_WINDOW_MS) {
+    const merged = { ...last, after: entry.after, timestamp: entry.timestamp };
+    return { ...history, [scope]: { past: [...stack.past.slice(0, -1), merged], future: [] } };
+  }
+  return { ...history, [scope]: { past: [...stack.past, entry].slice(-MAX_HISTORY), future: [] } };
+};
+
+// Moves the newest entry between the two stacks; returns null when there is nothing to move
+export const shiftEntry = (history: HistoryState, scope: string, direction: 'undo' | 'redo'): { history: HistoryState; entry: HistoryEntry } | null => {
+  const stack = getStack(history, scope);
+  const source = direction === 'undo' ? stack.past : stack.future;
+  const entry = source[source.length - 1];
+  if (!entry) return null;
+
+  const next: HistoryStack = direction === 'undo'
+    ? { past: stack.past.slice(0, -1), future: [...stack.future, entry] }
+    : { past: [...stack.past, entry], future: stack.future.slice(0, -1) };
+  return { history: { ...history, [scope]: next }, entry };
+};
+
+// Puts a project snapshot back into the list (or removes it when the snapshot is null)
+export const restoreProject = (projects: Project[], projectId: string, snapshot: Project | null, index: number): Project[] => {
+  const without = projects.filter(p => p.id !== projectId);
+  if (!snapshot) return without;
+  const exists = without.length !== projects.length;
+  if (exists) return projects.map(p => p.id === projectId ? snapshot : p);
+  const position = Math.min(Math.max(index, 0), without.length);
+  return [...without.slice(0, position), snapshot, ...without.slice(position)];
+};
+
+// --- TRAVEL ---
+type Fields = Record<string, unknown>;
+
+// Snapshots share untouched branches, so a reference check settles most fields
+const sameValue = (a: unknown, b: unknown): boolean => a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+// Takes from `to` only the fields that differ from `from`; the rest stays as it is in `current`
+const mergeFields = <T extends object>(current: T, from: T, to: T, skip: string[]): T => {
+  const [c, f, t] = [current, from, to] as unknown as Fields[];
+  const merged: Fields = { ...c };
+  new Set([...Object.keys(f), ...Object.keys(t)]).forEach(key => {
+    if (skip.includes(key) || sameValue(f[key], t[key])) return;
+    if (t[key] === undefined) delete merged[key];
+    else merged[key] = t[key];
+  });
+  return merged as unknown as T;
+};
+
+const indexTasks = (tasks: Task[], into = new Map<string, Task>()): Map<string, Task> => {
+  tasks.forEach(t => {
+    into.set(t.id, t);
+    indexTasks(t.subtasks, into);
+  });
+  return into;
+};
+
+/**
+ * The project to show after travelling from snapshot `from` to snapshot `to`.
+ * Writes kept out of the history (expanded tasks, the chat) happened after
+ * `from` was recorded, so instead of restoring `to` wholesale only the fields the
+ * entry changed are reverted; the tree's shape follows `to`.
+ */
+export const rebaseSnapshot = (current: Project | undefined, from: Project | null, to: Project | null): Project | null => {
+  if (!current || !from || !to) return to;
+  const currentTasks = indexTasks(current.tasks);
+  const fromTasks = indexTasks(from.tasks);
+  const rebase = (tasks: Task[]): Task[] => tasks.map(task => {
+    const live = currentTasks.get(task.id);
+    const recorded = fromTasks.get(task.id);
+    const subtasks = rebase(task.subtasks);
+    return live && recorded ? { ...mergeFields(live, recorded, task, ['subtasks']), subtasks } : { ...task, subtasks };
+  });
+  return { ...mergeFields(current, from, to, ['tasks']), tasks: rebase(to.tasks) };
+};
@@ -0,0 +1,2 @@
+// Short random ids for projects, tasks, log entries and the like; unique enough within one workspace
+export const generateId = (): string => Math.random().toString(36).substring(2, 10);
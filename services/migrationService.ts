@@ -0,0 +1,715 @@
+import { ActivityLog, AppState, Attachment, ChatMessage, CostLine, CURRENT_SCHEMA_VERSION, DEFAULT_WORKFLOW, ExchangeRate, Project, ProjectMember, ProjectRole, QuarantinedItem, RecurrenceCycle, RunningTimer, SavedView, StatusColor, TagDefinition, Task, TaskSort, TaskTemplate, TemplateTask, TaskStatus, TimeEntry, TrashItem, User, UsersStore, USERS_SCHEMA_VERSION, WorkflowStatus } from "../types";
+import { MAX_CHAT_MESSAGES, isPersona } from "./assistantService";
+import { BASE_CURRENCY, isCurrency } from "./costService";
+import { pruneDependencies } from "./dependencyService";
+import { generateId } from "./idService";
+import { isRollupStrategy, normalizeWeight } from "./progressService";
+import { normalizeRecurrence } from "./recurrenceService";
+import { DATE_KEY_PATTERN } from "./scheduleService";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "./trashService";
+import { findTag, normalizeTagName, sameTag, syncTagDefinitions } from "./tagService";
+import { MAX_ENTRY_MINUTES } from "./timeService";
+import { STATUS_COLORS, doneStatus, initialStatus, remapStatuses, validateWorkflow } from "./workflowService";
+
+type RawRecord = Record<string, unknown>;
+
+interface Migration {
+  version: number; // Version the state has after this migration runs
+  description: string;
+  migrate: (state: RawRecord) => RawRecord;
+}
+
+// Ordered oldest to newest; the last entry must match CURRENT_SCHEMA_VERSION.
+// Saves without `schemaVersion` are version 0.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Estado versionado con cuarentena',
+    migrate: state => ({
+      ...state,
+      projects: Array.isArray(state.projects) ? state.projects : [],
+      quarantine: Array.isArray(state.quarantine) ? state.quarantine : [],
+    }),
+  },
+  {
+    version: 2,
+    description: 'Miembros por proyecto',
+    // Everyone could see every project before, so the creator becomes owner and
+    // anyone who already contributed to the tree keeps editing rights.
+    migrate: state => ({
+      ...state,
+      projects: asArray(state.projects).map(raw => {
+        if (!isRecord(raw) || Array.isArray(raw.members)) return raw;
+        const owner = asString(raw.createdBy);
+        const contributors = new Set<string>();
+        collectContributors(asArray(raw.tasks), contributors);
+        const members: ProjectMember[] = [];
+        if (owner) members.push({ userId: owner, role: 'owner', addedAt: Date.now() });
+        contributors.forEach(userId => {
+          if (userId !== owner) members.push({ userId, role: 'editor', addedAt: Date.now() });
+        });
+        return { ...raw, members };
+      }),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Papelera',
+    migrate: state => ({
+      ...state,
+      trash: Array.isArray(state.trash) ? state.trash : [],
+      trashRetentionDays: state.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
+    }),
+  },
+  {
+    version: 4,
+    description: 'Flujo de trabajo por proyecto',
+    // Work could not be marked as started before, so "pending" meant "not started".
+    // It becomes Backlog, which keeps every existing progress figure unchanged.
+    migrate: state => {
+      const toWorkflow = (raw: unknown) => isRecord(raw) && !Array.isArray(raw.workflow)
+        ? { ...raw, workflow: DEFAULT_WORKFLOW, tasks: pendingToBacklog(asArray(raw.tasks)) }
+        : raw;
+      return {
+        ...state,
+        projects: asArray(state.projects).map(toWorkflow),
+        trash: asArray(state.trash).map(item => {
+          if (!isRecord(item)) return item;
+          if (item.kind === 'project') return { ...item, project: toWorkflow(item.project) };
+          if (item.kind === 'task') return { ...item, task: pendingToBacklog([item.task])[0] };
+          return item;
+        }),
+      };
+    },
+  },
+  {
+    version: 5,
+    description: 'Fechas de inicio, vencimiento y recordatorios',
+    migrate: state => mapStateTasks(state, repairSchedule),
+  },
+  {
+    version: 6,
+    description: 'Responsables de tareas',
+    // Tasks had no assignees; nobody is assumed to be doing them
+    migrate: state => mapStateTasks(state, repairAssignees),
+  },
+  {
+    version: 7,
+    description: 'Etiquetas por proyecto',
+    // Free-text tags become normalized names; their definitions are rebuilt from the tasks on load
+    migrate: state => mapStateProjects(mapStateTasks(state, repairTaskTags), p => Array.isArray(p.tags) ? p : { ...p, tags: [] }),
+  },
+  {
+    version: 8,
+    description: 'Vistas guardadas',
+    migrate: state => mapStateProjects(state, p => ({ ...p, savedViews: repairSavedViews(p.savedViews, asString(p.createdBy) || 'unknown') })),
+  },
+  {
+    version: 9,
+    description: 'Dependencias entre tareas',
+    // Links to missing tasks, cycles and parent/subtask links are pruned per project on load
+    migrate: state => mapStateTasks(state, repairBlockedBy),
+  },
+  {
+    version: 10,
+    description: 'Tareas recurrentes',
+    migrate: state => mapStateTasks(state, repairRecurrence),
+  },
+  {
+    version: 11,
+    description: 'Plantillas',
+    migrate: state => ({ ...state, templates: repairTemplates(state.templates) }),
+  },
+  {
+    version: 12,
+    description: 'Registro de horas',
+    migrate: state => mapStateTasks(state, repairTimeTracking),
+  },
+  {
+    version: 13,
+    description: 'Costos y tipos de cambio',
+    migrate: state => ({
+      ...mapStateProjects(mapStateTasks(state, repairTaskCosts), repairProjectCurrency),
+      exchangeRates: repairExchangeRates(state.exchangeRates),
+    }),
+  },
+  {
+    version: 14,
+    description: 'Estado de destino en el historial',
+    // Status changes only recorded a label; the ones that still match a column get its id
+    migrate: state => backfillStateToStatus(state),
+  },
+  {
+    version: 15,
+    description: 'Reglas de progreso',
+    // Without a rule projects keep averaging their subtasks, as before
+    migrate: state => mapStateProjects(mapStateTasks(state, repairProgressFields), repairProgressRules),
+  },
+  {
+    version: 16,
+    description: 'Conversación con el asistente',
+    migrate: state => mapStateProjects(state, repairProjectChat),
+  },
+  {
+    version: 17,
+    description: 'Recordatorios por usuario',
+    // Whether a reminder was shown is kept on each device per user, not in the shared project
+    migrate: state => mapStateTasks(state, ({ reminderSentFor, ...task }) => task),
+  },
+];
+
+export interface LoadResult {
+  state: AppState;
+  migratedFrom: number;
+  quarantined: number; // Items moved to quarantine during this load
+}
+
+// --- HELPERS ---
+const isRecord = (value: unknown): value is RawRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+const asString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+const asNumber = (value: unknown): number | undefined => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+const PROJECT_ROLES: ProjectRole[] = ['owner', 'editor', 'commenter', 'viewer'];
+const ATTACHMENT_TYPES: Attachment['type'][] = ['image', 'document', 'audio', 'video', 'link'];
+const ACTIVITY_TYPES: ActivityLog['type'][] = ['comment', 'status_change', 'creation', 'attachment', 'ai_suggestion', 'deletion', 'restore', 'assignment', 'edit'];
+
+// Applies `update` to every project, live or in the trash
+const mapStateProjects = (state: RawRecord, update: (project: RawRecord) => RawRecord): RawRecord => ({
+  ...state,
+  projects: asArray(state.projects).map(p => isRecord(p) ? update(p) : p),
+  trash: asArray(state.trash).map(item => isRecord(item) && item.kind === 'project' && isRecord(item.project) ? { ...item, project: update(item.project) } : item),
+});
+
+// Applies `update` to every task at any depth (subtasks first), live or in the trash
+const mapStateTasks = (state: RawRecord, update: TaskFieldRepair): RawRecord => {
+  const walk = (tasks: unknown[]): unknown[] => tasks.map(t => isRecord(t)
+    ? update({ ...t, subtasks: walk(asArray(t.subtasks)) }, asString(t.createdBy) || 'unknown')
+    : t);
+  const migrated = mapStateProjects(state, p => ({ ...p, tasks: walk(asArray(p.tasks)) }));
+  return {
+    ...migrated,
+    trash: asArray(migrated.trash).map(item => isRecord(item) && item.kind === 'task' ? { ...item, task: walk([item.task])[0] } : item),
+  };
+};
+
+const pendingToBacklog = (tasks: unknown[]): unknown[] => tasks.map(task => isRecord(task)
+  ? { ...task, status: task.status === TaskStatus.PENDING ? TaskStatus.BACKLOG : task.status, subtasks: pendingToBacklog(asArray(task.subtasks)) }
+  : task);
+
+const backfillToStatus = (tasks: unknown[], workflow: WorkflowStatus[]): unknown[] => tasks.map(task => {
+  if (!isRecord(task)) return task;
+  const activity = asArray(task.activity).map(log => {
+    if (!isRecord(log) || log.type !== 'status_change' || typeof log.toStatus === 'string' || typeof log.content !== 'string') return log;
+    // Wording from before workflows, then "Estado: A → B"
+    if (log.content === 'Completó la tarea') return { ...log, toStatus: doneStatus(workflow).id };
+    if (log.content === 'Reabrió la tarea') return { ...log, toStatus: initialStatus(workflow).id };
+    const label = log.content.split('→')[1]?.trim();
+    const status = label ? workflow.find(s => s.label === label) : undefined;
+    return status ? { ...log, toStatus: status.id } : log;
+  });
+  return { ...task, activity, subtasks: backfillToStatus(asArray(task.subtasks), workflow) };
+});
+
+// Trashed tasks use the workflow of their project, which may itself be in the trash
+const backfillStateToStatus = (state: RawRecord): RawRecord => {
+  const migrated = mapStateProjects(state, p => ({ ...p, tasks: backfillToStatus(asArray(p.tasks), repairWorkflow(p.workflow)) }));
+  const projects = [...asArray(state.projects), ...asArray(state.trash).map(item => isRecord(item) && item.kind === 'project' ? item.project : null)].filter(isRecord);
+  const workflowOf = (projectId: unknown) => repairWorkflow(projects.find(p => p.id === projectId)?.workflow);
+  return {
+    ...migrated,
+    trash: asArray(migrated.trash).map(item => isRecord(item) && item.kind === 'task' && isRecord(item.task)
+      ? { ...item, task: backfillToStatus([item.task], workflowOf(item.projectId))[0] }
+      : item),
+  };
+};
+
+const collectContributors = (tasks: unknown[], into: Set<string>) => {
+  tasks.filter(isRecord).forEach(task => {
+    const createdBy = asString(task.createdBy);
+    if (createdBy) into.add(createdBy);
+    [...asArray(task.activity), ...asArray(task.attachments)].filter(isRecord).forEach(entry => {
+      const author = asString(entry.createdBy);
+      if (author) into.add(author);
+    });
+    collectContributors(asArray(task.subtasks), into);
+  });
+};
+
+// --- VALIDATION ---
+interface RepairContext {
+  projectId: string;
+  fallbackUser: string;
+  quarantine: QuarantinedItem[];
+}
+
+// Validates the optional fields one feature added to tasks; shared by its migration and by every load
+type TaskFieldRepair = (task: RawRecord, fallbackUser: string) => RawRecord;
+
+// Dates are local day keys ("YYYY-MM-DD"); anything else is dropped
+const repairSchedule: TaskFieldRepair = raw => {
+  const task = { ...raw };
+  (['startDate', 'dueDate'] as const).forEach(key => {
+    if (task[key] !== undefined && !(typeof task[key] === 'string' && DATE_KEY_PATTERN.test(task[key] as string))) delete task[key];
+  });
+  if (task.reminderDaysBefore !== undefined && asNumber(task.reminderDaysBefore) === undefined) delete task.reminderDaysBefore;
+  return task;
+};
+
+// A list of distinct user ids; always present
+const repairAssignees: TaskFieldRepair = raw => ({
+  ...raw,
+  assignees: [...new Set(asArray(raw.assignees).filter((id): id is string => typeof id === 'string'))],
+});
+
+// Normalized, non-empty names, each at most once regardless of case
+const repairTaskTags: TaskFieldRepair = raw => ({
+  ...raw,
+  tags: asArray(raw.tags)
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(normalizeTagName)
+    .reduce((acc: string[], tag) => !tag || acc.some(existing => sameTag(existing, tag)) ? acc : [...acc, tag], []),
+});
+
+// Distinct task ids; an empty list is not stored
+const repairBlockedBy: TaskFieldRepair = raw => {
+  const { blockedBy, ...task } = raw;
+  const ids = [...new Set(asArray(blockedBy).filter((id): id is string => typeof id === 'string'))];
+  return ids.length > 0 ? { ...task, blockedBy: ids } : task;
+};
+
+// A rule normalizeRecurrence accepts, and the cycles closed so far
+const repairRecurrence: TaskFieldRepair = (raw, fallbackUser) => {
+  const { recurrence, cycles, ...task } = raw;
+  const rule = normalizeRecurrence(recurrence);
+  const fixed: RawRecord = rule ? { ...task, recurrence: rule } : task;
+  if (cycles !== undefined) fixed.cycles = repairCycles(cycles, fallbackUser);
+  return fixed;
+};
+
+// A positive estimate, valid entries and at most one running timer per user
+const repairTimeTracking: TaskFieldRepair = (raw, fallbackUser) => {
+  const { estimateHours, timeEntries, runningTimers, ...task } = raw;
+  const fixed: RawRecord = { ...task };
+  const estimate = asNumber(estimateHours);
+  if (estimate !== undefined && estimate > 0) fixed.estimateHours = estimate;
+  if (timeEntries !== undefined) fixed.timeEntries = repairTimeEntries(timeEntries, fallbackUser);
+  const timers = repairTimers(runningTimers);
+  if (timers.length > 0) fixed.runningTimers = timers;
+  return fixed;
+};
+
+const repairTaskCosts: TaskFieldRepair = (raw, fallbackUser) => {
+  const { costs, ...task } = raw;
+  const lines = repairCosts(costs, fallbackUser);
+  return lines.length > 0 ? { ...task, costs: lines } : task;
+};
+
+// A weight other than the default 1, and a manual progress between 0 and 100
+const repairProgressFields: TaskFieldRepair = raw => {
+  const { weight, manualProgress, ...task } = raw;
+  const fixed: RawRecord = { ...task };
+  const normalized = normalizeWeight(asNumber(weight) ?? NaN);
+  if (normalized !== undefined) fixed.weight = normalized;
+  const manual = asNumber(manualProgress);
+  if (manual !== undefined && manual >= 0 && manual <= 100) fixed.manualProgress = manual;
+  return fixed;
+};
+
+// In version order; each runs on every task, after the migrations
+const TASK_FIELD_REPAIRS: TaskFieldRepair[] = [repairSchedule, repairAssignees, repairTaskTags, repairBlockedBy, repairRecurrence, repairTimeTracking, repairTaskCosts, repairProgressFields];
+
+// Same for the optional fields of projects
+type ProjectFieldRepair = (project: RawRecord) => RawRecord;
+
+const repairProjectCurrency: ProjectFieldRepair = raw => {
+  const { currency, ...project } = raw;
+  return isCurrency(currency) ? { ...project, currency } : project;
+};
+
+// Only a known strategy, and auto-complete only when turned on
+const repairProgressRules: ProjectFieldRepair = raw => {
+  const { rollup, autoCompleteParents, ...project } = raw;
+  const fixed: RawRecord = { ...project };
+  if (isRollupStrategy(rollup)) fixed.rollup = rollup;
+  if (autoCompleteParents === true) fixed.autoCompleteParents = true;
+  return fixed;
+};
+
+const repairProjectChat: ProjectFieldRepair = raw => {
+  const { chat, ...project } = raw;
+  const messages = repairChat(chat, asString(raw.createdBy) || 'unknown');
+  return messages.length > 0 ? { ...project, chat: messages } : project;
+};
+
+const PROJECT_FIELD_REPAIRS: ProjectFieldRepair[] = [repairProjectCurrency, repairProgressRules, repairProjectChat];
+
+const quarantineItem = (ctx: RepairContext, kind: QuarantinedItem['kind'], raw: unknown, reason: string) => {
+  ctx.quarantine.push({ id: generateId(), kind, projectId: ctx.projectId, reason, raw, quarantinedAt: Date.now() });
+};
+
+const repairAttachment = (raw: unknown, fallbackUser: string): Attachment | null => {
+  if (!isRecord(raw)) return null;
+  const url = asString(raw.url) || '';
+  const blobId = asString(raw.blobId);
+  if (!url && !blobId) return null;
+  const type = ATTACHMENT_TYPES.includes(raw.type as Attachment['type']) ? raw.type as Attachment['type'] : 'document';
+  return {
+    ...raw,
+    id: asString(raw.id) || generateId(),
+    name: asString(raw.name) || 'Adjunto',
+    type,
+    url,
+    createdAt: asNumber(raw.createdAt) || Date.now(),
+    createdBy: asString(raw.createdBy) || fallbackUser,
+  } as Attachment;
+};
+
+const repairActivity = (raw: unknown, fallbackUser: string): ActivityLog | null => {
+  if (!isRecord(raw) || typeof raw.content !== 'string') return null;
+  const type = ACTIVITY_TYPES.includes(raw.type as ActivityLog['type']) ? raw.type as ActivityLog['type'] : 'comment';
+  return {
+    ...raw,
+    id: asString(raw.id) || generateId(),
+    content: raw.content,
+    type,
+    timestamp: asNumber(raw.timestamp) || 0,
+    createdBy: asString(raw.createdBy) || fallbackUser,
+    toStatus: asString(raw.toStatus),
+  } as ActivityLog;
+};
+
+const repairCycles = (raw: unknown, fallbackUser: string): RecurrenceCycle[] => asArray(raw).filter(isRecord).map(c => ({
+  id: asString(c.id) || generateId(),
+  dueDate: typeof c.dueDate === 'string' && DATE_KEY_PATTERN.test(c.dueDate) ? c.dueDate : undefined,
+  completedAt: asNumber(c.completedAt) || 0,
+  completedBy: asString(c.completedBy) || fallbackUser,
+  checklist: asArray(c.checklist).filter(isRecord).map(item => ({
+    title: asString(item.title) || 'Sin título',
+    doneAt: asNumber(item.doneAt),
+    doneBy: asString(item.doneBy),
+  })),
+}));
+
+// Entries without a valid day or a positive duration cannot be reported on, so they are dropped
+const repairTimeEntries = (raw: unknown, fallbackUser: string): TimeEntry[] => asArray(raw).filter(isRecord).flatMap(e => {
+  const minutes = asNumber(e.minutes);
+  const date = asString(e.date);
+  if (!minutes || minutes <= 0 || !date || !DATE_KEY_PATTERN.test(date)) return [];
+  const entry: TimeEntry = {
+    id: asString(e.id) || generateId(),
+    userId: asString(e.userId) || fallbackUser,
+    date,
+    minutes: Math.min(Math.round(minutes), MAX_ENTRY_MINUTES),
+    source: e.source === 'timer' ? 'timer' : 'manual',
+    createdBy: asString(e.createdBy) || fallbackUser,
+    createdAt: asNumber(e.createdAt) || 0,
+  };
+  const note = asString(e.note);
+  if (note) entry.note = note;
+  return [entry];
+});
+
+const repairTimers = (raw: unknown): RunningTimer[] => {
+  const timers: RunningTimer[] = [];
+  asArray(raw).filter(isRecord).forEach(t => {
+    const userId = asString(t.userId);
+    const startedAt = asNumber(t.startedAt);
+    if (userId && startedAt && !timers.some(other => other.userId === userId)) timers.push({ userId, startedAt });
+  });
+  return timers;
+};
+
+const repairCosts = (raw: unknown, fallbackUser: string): CostLine[] => asArray(raw).filter(isRecord).flatMap(c => {
+  const amount = asNumber(c.amount);
+  if (amount === undefined || !isCurrency(c.currency)) return [];
+  return [{
+    id: asString(c.id) || generateId(),
+    kind: c.kind === 'actual' ? 'actual' : 'planned',
+    label: asString(c.label) || 'Sin concepto',
+    amount,
+    currency: c.currency,
+    createdBy: asString(c.createdBy) || fallbackUser,
+    createdAt: asNumber(c.createdAt) || 0,
+  }];
+});
+
+const repairTask = (raw: unknown, ctx: RepairContext): Task | null => {
+  if (!isRecord(raw)) {
+    quarantineItem(ctx, 'task', raw, 'La tarea no es un objeto');
+    return null;
+  }
+  const title = asString(raw.title);
+  if (title === undefined && typeof raw.id !== 'string') {
+    quarantineItem(ctx, 'task', raw, 'La tarea no tiene id ni título');
+    return null;
+  }
+
+  const createdBy = asString(raw.createdBy) || ctx.fallbackUser;
+  const fields = TASK_FIELD_REPAIRS.reduce((t, repair) => repair(t, createdBy), raw);
+  const task: Task = {
+    ...fields,
+    id: asString(raw.id) || generateId(),
+    title: title || 'Sin título',
+    status: asString(raw.status) || TaskStatus.BACKLOG, // Checked against the project workflow in repairProject
+    subtasks: asArray(raw.subtasks).map(sub => repairTask(sub, ctx)).filter((t): t is Task => t !== null),
+    attachments: asArray(raw.attachments).map(att => repairAttachment(att, createdBy)).filter((a): a is Attachment => a !== null),
+    activity: asArray(raw.activity).map(log => repairActivity(log, createdBy)).filter((l): l is ActivityLog => l !== null),
+    tags: fields.tags as string[],
+    createdBy,
+    assignees: fields.assignees as string[],
+  };
+
+  (['description', 'aiContext', 'suggestedSteps'] as const).forEach(key => {
+    if (task[key] !== undefined && typeof task[key] !== 'string') delete task[key];
+  });
+  if (task.expanded !== undefined && typeof task.expanded !== 'boolean') delete task.expanded;
+  return task;
+};
+
+const repairMembers = (raw: unknown, owner: string): ProjectMember[] => {
+  const members: ProjectMember[] = [];
+  asArray(raw).filter(isRecord).forEach(m => {
+    const userId = asString(m.userId);
+    if (!userId || members.some(existing => existing.userId === userId)) return;
+    const role = PROJECT_ROLES.includes(m.role as ProjectRole) ? m.role as ProjectRole : 'viewer';
+    members.push({ userId, role, addedAt: asNumber(m.addedAt) || Date.now() });
+  });
+  // A project must always have someone able to manage it
+  if (!members.some(m => m.role === 'owner')) {
+    const existing = members.find(m => m.userId === owner);
+    if (existing) existing.role = 'owner';
+    else members.unshift({ userId: owner, role: 'owner', addedAt: Date.now() });
+  }
+  return members;
+};
+
+const repairWorkflow = (raw: unknown): WorkflowStatus[] => {
+  const workflow = asArray(raw).filter(isRecord).map(s => ({
+    id: asString(s.id) || generateId(),
+    label: asString(s.label) || 'Sin nombre',
+    color: STATUS_COLORS.includes(s.color as StatusColor) ? s.color as StatusColor : 'slate',
+    progress: Math.min(100, Math.max(0, asNumber(s.progress) ?? 0)),
+  }));
+  return validateWorkflow(workflow) ? DEFAULT_WORKFLOW : workflow;
+};
+
+// Tags used by tasks but missing a definition get one, so every tag shows with a color
+const repairTags = (raw: unknown, tasks: Task[]): TagDefinition[] => {
+  const tags = asArray(raw).filter(isRecord).reduce((acc: TagDefinition[], t) => {
+    const name = normalizeTagName(asString(t.name) || '');
+    if (!name || findTag(acc, name)) return acc;
+    return [...acc, { name, color: STATUS_COLORS.includes(t.color as StatusColor) ? t.color as StatusColor : 'slate' }];
+  }, []);
+  return syncTagDefinitions(tags, tasks);
+};
+
+const TASK_SORTS: TaskSort[] = ['manual', 'due', 'title', 'status', 'created'];
+
+const repairSavedViews = (raw: unknown, fallbackUser: string): SavedView[] => asArray(raw).filter(isRecord)
+  .filter(v => typeof v.name === 'string' && v.name.trim() !== '')
+  .map(v => ({
+    id: asString(v.id) || generateId(),
+    name: v.name as string,
+    query: asString(v.query) || '',
+    tags: asArray(v.tags).filter((tag): tag is string => typeof tag === 'string'),
+    sort: TASK_SORTS.includes(v.sort as TaskSort) ? v.sort as TaskSort : 'manual',
+    createdBy: asString(v.createdBy) || fallbackUser,
+    createdAt: asNumber(v.createdAt) || Date.now(),
+  }));
+
+const repairChat = (raw: unknown, fallbackUser: string): ChatMessage[] => asArray(raw).filter(isRecord).flatMap(m => {
+  const content = asString(m.content);
+  if (!content || (m.role !== 'user' && m.role !== 'assistant')) return [];
+  const message: ChatMessage = {
+    id: asString(m.id) || generateId(),
+    role: m.role,
+    content,
+    persona: isPersona(m.persona) ? m.persona : 'consultant',
+    createdBy: asString(m.createdBy) || fallbackUser,
+    createdAt: asNumber(m.createdAt) || 0,
+  };
+  if (m.failed === true) message.failed = true;
+  return [message];
+}).slice(-MAX_CHAT_MESSAGES);
+
+const repairTemplateTask = (raw: RawRecord): TemplateTask => {
+  const node: TemplateTask = {
+    key: asString(raw.key) || generateId(),
+    title: asString(raw.title) || 'Sin título',
+    tags: asArray(raw.tags).filter((tag): tag is string => typeof tag === 'string'),
+    subtasks: asArray(raw.subtasks).filter(isRecord).map(repairTemplateTask),
+  };
+  const description = asString(raw.description);
+  const aiContext = asString(raw.aiContext);
+  const recurrence = normalizeRecurrence(raw.recurrence);
+  const blockedBy = asArray(raw.blockedBy).filter((key): key is string => typeof key === 'string');
+  if (description) node.description = description;
+  if (aiContext) node.aiContext = aiContext;
+  if (asNumber(raw.startOffset) !== undefined) node.startOffset = Math.round(raw.startOffset as number);
+  if (asNumber(raw.dueOffset) !== undefined) node.dueOffset = Math.round(raw.dueOffset as number);
+  if (recurrence) node.recurrence = recurrence;
+  if (blockedBy.length > 0) node.blockedBy = blockedBy;
+  return node;
+};
+
+const repairTemplates = (raw: unknown): TaskTemplate[] => asArray(raw).filter(isRecord)
+  .filter(t => typeof t.name === 'string' && t.name.trim() !== '')
+  .map(t => {
+    const template: TaskTemplate = {
+      id: asString(t.id) || generateId(),
+      name: t.name as string,
+      source: t.source === 'project' ? 'project' : 'task',
+      tags: repairTags(t.tags, []),
+      tasks: asArray(t.tasks).filter(isRecord).map(repairTemplateTask),
+      createdBy: asString(t.createdBy) || 'unknown',
+      createdAt: asNumber(t.createdAt) || Date.now(),
+    };
+    if (template.source === 'project') {
+      template.subtitle = asString(t.subtitle) || '';
+      template.workflow = repairWorkflow(t.workflow);
+    }
+    return template;
+  });
+
+const repairProject = (raw: unknown, quarantine: QuarantinedItem[]): Project | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string') {
+    quarantine.push({ id: generateId(), kind: 'project', reason: 'El proyecto no tiene id', raw, quarantinedAt: Date.now() });
+    return null;
+  }
+
+  const createdBy = asString(raw.createdBy) || 'unknown';
+  const ctx: RepairContext = { projectId: raw.id, fallbackUser: createdBy, quarantine };
+  const workflow = repairWorkflow(raw.workflow);
+  const tasks = pruneDependencies(remapStatuses(asArray(raw.tasks).map(t => repairTask(t, ctx)).filter((t): t is Task => t !== null), workflow));
+  const project: Project = {
+    ...PROJECT_FIELD_REPAIRS.reduce((p, repair) => repair(p), raw),
+    id: raw.id,
+    title: asString(raw.title) || 'Proyecto sin título',
+    subtitle: asString(raw.subtitle) || '',
+    createdAt: asNumber(raw.createdAt) || Date.now(),
+    createdBy,
+    tasks,
+    members: repairMembers(raw.members, createdBy),
+    workflow,
+    tags: repairTags(raw.tags, tasks),
+    savedViews: repairSavedViews(raw.savedViews, createdBy),
+  };
+  if (project.imageUrl !== undefined && typeof project.imageUrl !== 'string') delete project.imageUrl;
+  return project;
+};
+
+// Trash entries go through the same repairs as live content; broken ones are dropped
+const repairTrashItem = (raw: unknown): TrashItem | null => {
+  if (!isRecord(raw) || typeof raw.projectId !== 'string') return null;
+  const base = {
+    id: asString(raw.id) || generateId(),
+    projectId: raw.projectId,
+    parentId: asString(raw.parentId) || null,
+    index: asNumber(raw.index) || 0,
+    deletedAt: asNumber(raw.deletedAt) || Date.now(),
+    deletedBy: asString(raw.deletedBy) || 'unknown',
+  };
+  const scratch: QuarantinedItem[] = [];
+  if (raw.kind === 'task') {
+    const task = repairTask(raw.task, { projectId: raw.projectId, fallbackUser: base.deletedBy, quarantine: scratch });
+    return task ? { ...base, kind: 'task', task } : null;
+  }
+  if (raw.kind === 'attachment') {
+    const attachment = repairAttachment(raw.attachment, base.deletedBy);
+    return attachment ? { ...base, kind: 'attachment', attachment } : null;
+  }
+  if (raw.kind === 'project') {
+    const project = repairProject(raw.project, scratch);
+    return project ? { ...base, kind: 'project', project } : null;
+  }
+  return null;
+};
+
+// One positive rate per currency; the base currency is always 1 and is not stored
+const repairExchangeRates = (raw: unknown): ExchangeRate[] => {
+  const rates: ExchangeRate[] = [];
+  asArray(raw).filter(isRecord).forEach(r => {
+    const rate = asNumber(r.rate);
+    if (!isCurrency(r.currency) || r.currency === BASE_CURRENCY || !rate || rate <= 0 || rates.some(other => other.currency === r.currency)) return;
+    rates.push({ currency: r.currency, rate, updatedAt: asNumber(r.updatedAt) || 0, updatedBy: asString(r.updatedBy) || 'unknown' });
+  });
+  return rates;
+};
+
+export const validateAppState = (raw: RawRecord): { state: AppState; quarantined: number } => {
+  const previous = asArray(raw.quarantine).filter(isRecord) as unknown as QuarantinedItem[];
+  const found: QuarantinedItem[] = [];
+  const projects = asArray(raw.projects).map(p => repairProject(p, found)).filter((p): p is Project => p !== null);
+  const trash = asArray(raw.trash).map(repairTrashItem).filter((item): item is TrashItem => item !== null);
+  return {
+    state: {
+      ...raw,
+      schemaVersion: asNumber(raw.schemaVersion) || CURRENT_SCHEMA_VERSION,
+      projects,
+      quarantine: [...previous, ...found],
+      trash,
+      trashRetentionDays: asNumber(raw.trashRetentionDays) || DEFAULT_TRASH_RETENTION_DAYS,
+      templates: repairTemplates(raw.templates),
+      exchangeRates: repairExchangeRates(raw.exchangeRates),
+    },
+    quarantined: found.length,
+  };
+};
+
+// --- PIPELINE ---
+export const migrateAppState = (raw: unknown): RawRecord => {
+  let state: RawRecord = isRecord(raw) ? raw : { projects: [] };
+  const fromVersion = asNumber(state.schemaVersion) || 0;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Saved state has schema v${fromVersion}, newer than v${CURRENT_SCHEMA_VERSION}. Loading without migrating.`);
+    return state;
+  }
+  MIGRATIONS.filter(m => m.version > fromVersion).forEach(m => {
+    state = { ...m.migrate(state), schemaVersion: m.version };
+  });
+  return state;
+};
+
+/** Runs the migration chain and then repairs whatever the chain could not vouch for. */
+export const loadAppState = (raw: unknown): LoadResult => {
+  const migratedFrom = isRecord(raw) ? asNumber(raw.schemaVersion) || 0 : 0;
+  const { state, quarantined } = validateAppState(migrateAppState(raw));
+  return { state, migratedFrom, quarantined };
+};
+
+const USER_STATUSES: User['status'][] = ['active', 'invited', 'removed'];
+
+const repairCredential = (raw: unknown): User['credential'] => {
+  if (!isRecord(raw) || typeof raw.salt !== 'string' || typeof raw.hash !== 'string') return undefined;
+  return { kind: raw.kind === 'passphrase' ? 'passphrase' : 'pin', salt: raw.salt, hash: raw.hash };
+};
+
+const ACCOUNT_ROLES: User['accountRole'][] = ['admin', 'member'];
+
+/** Repairs a list of users; an unknown or missing role never grants admin. */
+export const repairUsers = (raw: unknown): User[] => asArray(raw).filter(isRecord).filter(u => typeof u.id === 'string' && typeof u.name === 'string').map(u => {
+  const user = {
+    ...u,
+    avatarColor: asString(u.avatarColor) || 'bg-gray-500',
+    accountRole: ACCOUNT_ROLES.includes(u.accountRole as User['accountRole']) ? u.accountRole : 'member',
+    status: USER_STATUSES.includes(u.status as User['status']) ? u.status : 'active',
+    credential: repairCredential(u.credential),
+  } as User;
+  if (!user.credential) delete user.credential;
+  return user;
+});
+
+/** Reads the users store: migrates it to USERS_SCHEMA_VERSION, then repairs it. */
+export const loadUsers = (raw: unknown): User[] | null => {
+  const version = isRecord(raw) ? asNumber(raw.schemaVersion) || 0 : 0;
+  let list = isRecord(raw) ? asArray(raw.users) : asArray(raw);
+  if (version < 1) {
+    // v1: users saved before accounts existed had full access, so they stay admins
+    list = list.map(u => isRecord(u) && u.accountRole === undefined ? { ...u, accountRole: 'admin' } : u);
+  }
+  const users = repairUsers(list);
+  return users.length > 0 ? users : null;
+};
+
+export const serializeUsers = (users: User[]): UsersStore => ({ schemaVersion: USERS_SCHEMA_VERSION, users });
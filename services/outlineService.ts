@@ -0,0 +1,91 @@
+import { Task, WorkflowStatus } from "../types";
+import { generateId } from "./idService";
+import { isTaskDone } from "./scheduleService";
+import { doneStatus, initialStatus } from "./workflowService";
+
+export const MAX_OUTLINE_TASKS = 500;
+const TAB_WIDTH = 4;
+const MAX_TITLE_LENGTH = 200;
+
+export interface OutlineNode {
+  title: string;
+  done: boolean;
+  children: OutlineNode[];
+}
+
+// --- HELPERS ---
+const indentWidth = (whitespace: string): number => Array.from(whitespace).reduce((width, char) => width + (char === '\t' ? TAB_WIDTH : 1), 0);
+
+export const countOutline = (nodes: OutlineNode[]): { total: number; done: number } => nodes.reduce((acc, node) => {
+  const inner = countOutline(node.children);
+  return { total: acc.total + 1 + inner.total, done: acc.done + (node.done ? 1 : 0) + inner.done };
+}, { total: 0, done: 0 });
+
+// --- PARSING ---
+const HEADING = /^(#{1,6})\s+(.*)$/;
+// Bullets (-, *, +, •), numbers (1. or 1)) and an optional [ ] / [x] checkbox. A number only
+// counts as a marker when whitespace follows it, so "3.5 kg de harina" keeps its text.
+const ITEM = /^(?:[-*+•]|\d+[.)](?=\s|$))?\s*(?:\[([ xX✓])\]\s*)?(.*)$/;
+
+/**
+ * Reads a Markdown checklist, a bulleted email list or plain indented text.
+ * Nesting follows indentation; Markdown headings contain what follows them,
+ * deeper headings nest under shallower ones. Blank lines are ignored.
+ */
+export const parseOutline = (text: string): OutlineNode[] => {
+  const roots: OutlineNode[] = [];
+  // Headings get negative depths so every list item nests below the latest one
+  const stack: { indent: number; node: OutlineNode }[] = [];
+
+  text.split(/\r?\n/).forEach(line => {
+    const raw = line.replace(/\s+$/, '');
+    if (!raw.trim()) return;
+    const leading = raw.match(/^\s*/)![0];
+    const content = raw.slice(leading.length);
+
+    const heading = content.match(HEADING);
+    let indent: number;
+    let node: OutlineNode;
+    if (heading) {
+      indent = heading[1].length - 10;
+      node = { title: heading[2].trim(), done: false, children: [] };
+    } else {
+      const item = content.match(ITEM)!;
+      indent = indentWidth(leading);
+      node = { title: item[2].trim(), done: !!item[1] && item[1] !== ' ', children: [] };
+    }
+    if (!node.title) return;
+    node.title = node.title.slice(0, MAX_TITLE_LENGTH);
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) parent.node.children.push(node);
+    else roots.push(node);
+    stack.push({ indent, node });
+  });
+
+  return roots;
+};
+
+// A parent is complete once all its items are; only leaves carry their own status
+export const outlineToTasks = (nodes: OutlineNode[], workflow: WorkflowStatus[], userId: string): Task[] => nodes.map(node => {
+  const subtasks = outlineToTasks(node.children, workflow, userId);
+  return {
+    id: generateId(),
+    title: node.title,
+    status: (node.done ? doneStatus(workflow) : initialStatus(workflow)).id,
+    subtasks,
+    attachments: [],
+    activity: [{ id: generateId(), type: 'creation', content: 'Creado desde un esquema pegado', timestamp: Date.now(), createdBy: userId }],
+    tags: [],
+    expanded: subtasks.length > 0,
+    createdBy: userId,
+    assignees: [],
+  };
+});
+
+// --- EXPORT ---
+export const tasksToMarkdown = (tasks: Task[], workflow: WorkflowStatus[], depth = 0): string => tasks.map(task => {
+  const line = `${'  '.repeat(depth)}- [${isTaskDone(task, workflow) ? 'x' : ' '}] ${task.title}`;
+  return task.subtasks.length > 0 ? `${line}\n${tasksToMarkdown(task.subtasks, workflow, depth + 1)}` : line;
+}).join('\n');
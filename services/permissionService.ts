@@ -0,0 +1,38 @@
+import { Project, ProjectRole } from "../types";
+
+export type ProjectAction = 'view' | 'comment' | 'edit' | 'manage';
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: 'Propietario',
+  editor: 'Editor',
+  commenter: 'Comentarista',
+  viewer: 'Lector',
+};
+
+const ROLE_RANK: Record<ProjectRole, number> = { viewer: 0, commenter: 1, editor: 2, owner: 3 };
+
+// Lowest role allowed to perform each action
+const REQUIRED_ROLE: Record<ProjectAction, ProjectRole> = {
+  view: 'viewer',
+  comment: 'commenter',
+  edit: 'editor',
+  manage: 'owner',
+};
+
+export const getProjectRole = (project: Project, userId: string): ProjectRole | null => {
+  return project.members.find(m => m.userId === userId)?.role || null;
+};
+
+export const canPerform = (project: Project, userId: string, action: ProjectAction): boolean => {
+  const role = getProjectRole(project, userId);
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[REQUIRED_ROLE[action]];
+};
+
+export const describeDenied = (action: ProjectAction): string => {
+  switch (action) {
+    case 'manage': return "Solo un propietario del proyecto puede hacer esto.";
+    case 'edit': return "Necesitas permiso de edición en este proyecto.";
+    case 'comment': return "Necesitas permiso para comentar en este proyecto.";
+    default: return "No tienes acceso a este proyecto.";
+  }
+};
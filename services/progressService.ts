@@ -0,0 +1,106 @@
+import { ActivityLog, DEFAULT_WORKFLOW, Project, RollupStrategy, Task, WorkflowStatus } from "../types";
+import { generateId } from "./idService";
+import { isTaskDone } from "./scheduleService";
+import { doneStatus, findStatus, getWorkflow, initialStatus, isDoneStatus } from "./workflowService";
+
+export const MAX_TASK_WEIGHT = 100;
+
+export const ROLLUP_OPTIONS: { strategy: RollupStrategy; label: string; description: string }[] = [
+  { strategy: 'average', label: 'Promedio', description: 'Cada subtarea pesa lo mismo.' },
+  { strategy: 'weighted', label: 'Ponderado', description: 'Cada subtarea pesa según su esfuerzo (1 si no tiene).' },
+  { strategy: 'leaves', label: 'Por tareas finales', description: 'Cuenta cada tarea sin subtareas, a cualquier profundidad.' },
+  { strategy: 'manual', label: 'Manual', description: 'Las tareas con subtareas usan el progreso que se les asigne; sin él, el promedio.' },
+];
+
+const STRATEGIES = ROLLUP_OPTIONS.map(option => option.strategy);
+
+export interface ProgressRules {
+  workflow: WorkflowStatus[];
+  rollup: RollupStrategy;
+}
+
+// --- HELPERS ---
+export const isRollupStrategy = (value: unknown): value is RollupStrategy => STRATEGIES.includes(value as RollupStrategy);
+
+export const getProgressRules = (project?: Pick<Project, 'workflow' | 'rollup'>): ProgressRules => ({
+  workflow: getWorkflow(project),
+  rollup: project?.rollup || 'average',
+});
+
+export const getTaskWeight = (task: Task): number => task.weight ?? 1;
+
+export const normalizeWeight = (value: number): number | undefined => {
+  if (!Number.isFinite(value) || value <= 0) return undefined;
+  const weight = Math.min(Math.round(value * 100) / 100, MAX_TASK_WEIGHT);
+  return weight === 1 ? undefined : weight; // 1 is the default, so it is not stored
+};
+
+const collectLeaves = (tasks: Task[]): Task[] => tasks.flatMap(t => t.subtasks.length === 0 ? [t] : collectLeaves(t.subtasks));
+
+// Unrounded, so nested averages do not accumulate rounding
+const combine = (tasks: Task[], rules: ProgressRules): number => {
+  if (tasks.length === 0) return 0;
+  switch (rules.rollup) {
+    case 'weighted': {
+      const total = tasks.reduce((sum, t) => sum + getTaskWeight(t), 0);
+      return total > 0 ? tasks.reduce((sum, t) => sum + rawProgress(t, rules) * getTaskWeight(t), 0) / total : 0;
+    }
+    case 'leaves': {
+      const leaves = collectLeaves(tasks);
+      return leaves.reduce((sum, leaf) => sum + findStatus(rules.workflow, leaf.status).progress, 0) / leaves.length;
+    }
+    default:
+      return tasks.reduce((sum, t) => sum + rawProgress(t, rules), 0) / tasks.length;
+  }
+};
+
+const rawProgress = (task: Task, rules: ProgressRules): number => {
+  if (task.subtasks.length === 0) return findStatus(rules.workflow, task.status).progress;
+  if (rules.rollup === 'manual' && task.manualProgress !== undefined) return task.manualProgress;
+  return combine(task.subtasks, rules);
+};
+
+// --- PROGRESS ---
+// Leaves contribute the progress of their workflow status; parents roll up their subtasks by the project's rule
+export const getTaskProgress = (task: Task, rules: ProgressRules = { workflow: DEFAULT_WORKFLOW, rollup: 'average' }): number => {
+  return Math.round(rawProgress(task, rules));
+};
+
+// The project is one more parent over its top-level tasks; it has no manual value of its own
+export const getProjectProgress = (project: Project): number => Math.round(combine(project.tasks, getProgressRules(project)));
+
+// --- AUTO-COMPLETE ---
+/**
+ * With `autoCompleteParents`, moves every parent to the done status once all its
+ * subtasks are done and back to the first open one when any is not. Each change
+ * is logged on the parent; untouched branches keep their identity.
+ */
+export const syncParentStatuses = (project: Project, userId: string): Project => {
+  if (!project.autoCompleteParents) return project;
+  const workflow = getWorkflow(project);
+  const done = doneStatus(workflow);
+  const open = initialStatus(workflow);
+  let changed = false;
+
+  const sync = (tasks: Task[]): Task[] => tasks.map(t => {
+    if (t.subtasks.length === 0) return t;
+    const subtasks = sync(t.subtasks);
+    const task = subtasks.some((sub, i) => sub !== t.subtasks[i]) ? { ...t, subtasks } : t;
+    const shouldBeDone = isTaskDone(task, workflow);
+    if (shouldBeDone === isDoneStatus(workflow, task.status)) return task;
+    const to = shouldBeDone ? done : open;
+    const log: ActivityLog = {
+      id: generateId(),
+      type: 'status_change',
+      content: shouldBeDone ? 'Completada automáticamente: todas sus subtareas están hechas' : 'Reabierta automáticamente: tiene subtareas pendientes',
+      timestamp: Date.now(),
+      createdBy: userId,
+      toStatus: to.id,
+    };
+    changed = true;
+    return { ...task, status: to.id, activity: [...task.activity, log] };
+  });
+
+  const tasks = sync(project.tasks);
+  return changed ? { ...project, tasks } : project;
+};
@@ -0,0 +1,321 @@
+import { Attachment, Task, User, WorkflowStatus } from "../types";
+import { DATE_KEY_PATTERN, addDays, getDueState, getTaskSchedule, isTaskDone, toDateKey } from "./scheduleService";
+import { sameTag } from "./tagService";
+import { findStatus } from "./workflowService";
+
+/*
+ * Search syntax:
+ *   landed cost            every word must appear (title, description, comments, attachment names, AI context)
+ *   "landed cost"          exact phrase
+ *   status:pending         every status that is not done (also status:open); status:done, or a status by id or label
+ *   tag:proveedores        task tag
+ *   assignee:leticia       assignee by name; assignee:me, assignee:none
+ *   due:<2026-11-01        due date; accepts < <= > >= =, today, overdue, none, +N (days from today)
+ *   start:>=2026-10-01     start date, same values as due
+ *   has:audio              attachment type, or attachment / comment / due / tag / assignee / subtasks / description / blockers
+ *   a OR b, NOT a, -a, ( ) grouping; terms side by side mean AND
+ *   nota: http://x         a prefix that is not a field, or a URL, is plain text
+ */
+
+export type QueryComparator = '=' | '<' | '<=' | '>' | '>=';
+
+export type QueryNode =
+  | { kind: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { kind: 'not'; node: QueryNode }
+  | { kind: 'text'; value: string }
+  | { kind: 'field'; field: QueryField; comparator: QueryComparator; value: string };
+
+export type QueryField = 'status' | 'tag' | 'assignee' | 'due' | 'start' | 'has';
+
+export interface ParsedQuery {
+  root: QueryNode | null; // null for an empty query
+  error: string | null;
+  terms: string[]; // Folded text terms outside NOT, used for highlighting
+}
+
+export interface QueryEnv {
+  workflow: WorkflowStatus[];
+  users: User[];
+  currentUserId: string;
+  today?: string;
+}
+
+// Spanish aliases so the syntax reads naturally in the app's language
+const FIELD_ALIASES: Record<string, QueryField> = {
+  status: 'status', estado: 'status',
+  tag: 'tag', etiqueta: 'tag',
+  assignee: 'assignee', responsable: 'assignee',
+  due: 'due', vence: 'due',
+  start: 'start', inicio: 'start',
+  has: 'has', tiene: 'has',
+};
+
+const HAS_ATTACHMENT_TYPES: Record<string, Attachment['type']> = {
+  audio: 'audio', image: 'image', imagen: 'image', video: 'video', document: 'document', documento: 'document', link: 'link', enlace: 'link',
+};
+const HAS_FLAGS: Record<string, (task: Task) => boolean> = {
+  attachment: t => t.attachments.length > 0,
+  comment: t => t.activity.some(a => a.type === 'comment'),
+  due: t => !!getTaskSchedule(t).dueDate,
+  tag: t => t.tags.length > 0,
+  assignee: t => t.assignees.length > 0,
+  subtasks: t => t.subtasks.length > 0,
+  description: t => !!t.description?.trim(),
+  blockers: t => (t.blockedBy || []).length > 0,
+};
+const HAS_ALIASES: Record<string, string> = { adjunto: 'attachment', comentario: 'comment', fecha: 'due', etiqueta: 'tag', responsable: 'assignee', subtareas: 'subtasks', descripcion: 'description', bloqueos: 'blockers' };
+
+const DATE_KEYWORDS = ['today', 'hoy', 'overdue', 'vencida', 'none', 'ninguna'];
+
+// --- HELPERS ---
+// Case and accent insensitive, so "diseno" finds "Diseño"
+export const foldText = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// --- TOKENIZER ---
+type Token =
+  | { kind: 'open' | 'close' | 'and' | 'or' | 'not' }
+  | { kind: 'word'; value: string; quoted: boolean };
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) { i++; continue; }
+    if (char === '(' || char === ')') { tokens.push({ kind: char === '(' ? 'open' : 'close' }); i++; continue; }
+    if (char === '-' && i + 1 < input.length && !/[\s()]/.test(input[i + 1])) { tokens.push({ kind: 'not' }); i++; continue; }
+
+    // A word runs until whitespace or a parenthesis; quoted parts may contain both
+    const quoted = char === '"'; // A leading quote makes the whole word literal text
+    let value = '';
+    let hasQuotes = false;
+    while (i < input.length && !/[\s()]/.test(input[i])) {
+      if (input[i] === '"') {
+        const end = input.indexOf('"', i + 1);
+        value += input.slice(i + 1, end === -1 ? input.length : end);
+        i = end === -1 ? input.length : end + 1;
+        hasQuotes = true;
+      } else {
+        value += input[i++];
+      }
+    }
+    if (!hasQuotes && (value === 'AND' || value === 'OR' || value === 'NOT')) tokens.push({ kind: value.toLowerCase() as 'and' | 'or' | 'not' });
+    else tokens.push({ kind: 'word', value, quoted });
+  }
+  return tokens;
+};
+
+// --- PARSER ---
+class QuerySyntaxError extends Error {}
+
+const parseDateValue = (field: QueryField, raw: string): { comparator: QueryComparator; value: string } => {
+  const match = raw.match(/^(<=|>=|<|>|=)?(.*)$/)!;
+  const comparator = (match[1] || '=') as QueryComparator;
+  const value = foldText(match[2]);
+  if (DATE_KEY_PATTERN.test(value) || /^[+-]\d+$/.test(value)) return { comparator, value };
+  if (comparator === '=' && DATE_KEYWORDS.includes(value)) return { comparator, value };
+  throw new QuerySyntaxError(`Fecha no válida en "${field}:${raw}". Usa AAAA-MM-DD, today, overdue, none o +N días.`);
+};
+
+const parseWord = (token: Extract<Token, { kind: 'word' }>): QueryNode => {
+  const match = token.quoted ? null : token.value.match(/^([a-zA-Z]+):(.*)$/);
+  const field = match && !match[2].startsWith('//') ? FIELD_ALIASES[match[1].toLowerCase()] : undefined;
+  // Quoted phrases, URLs and prefixes that are not fields ("Nota: revisar") are plain text
+  if (!match || !field) return { kind: 'text', value: foldText(token.value) };
+
+  if (!match[2]) throw new QuerySyntaxError(`Falta un valor después de "${match[1]}:".`);
+  if (field === 'due' || field === 'start') return { kind: 'field', field, ...parseDateValue(field, match[2]) };
+
+  const value = foldText(match[2]);
+  if (field === 'has' && !HAS_ATTACHMENT_TYPES[value] && !HAS_FLAGS[HAS_ALIASES[value] || value]) {
+    throw new QuerySyntaxError(`"has:${match[2]}" no existe. Prueba con audio, image, video, document, link, attachment, comment, due, tag, assignee, subtasks o blockers.`);
+  }
+  return { kind: 'field', field, comparator: '=', value };
+};
+
+const buildTree = (tokens: Token[]): QueryNode | null => {
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const parseOr = (): QueryNode => {
+    let node = parseAnd();
+    while (peek()?.kind === 'or') {
+      position++;
+      node = { kind: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): QueryNode => {
+    let node = parseUnary();
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'close') {
+      if (peek().kind === 'and') position++;
+      node = { kind: 'and', left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (!token) throw new QuerySyntaxError('La búsqueda termina con un operador sin término.');
+    position++;
+    if (token.kind === 'not') return { kind: 'not', node: parseUnary() };
+    if (token.kind === 'open') {
+      const node = parseOr();
+      if (peek()?.kind !== 'close') throw new QuerySyntaxError('Falta cerrar un paréntesis.');
+      position++;
+      return node;
+    }
+    if (token.kind === 'word') return parseWord(token);
+    if (token.kind === 'close') throw new QuerySyntaxError('Hay un ")" sin su "(".');
+    throw new QuerySyntaxError(`"${token.kind.toUpperCase()}" necesita un término antes.`);
+  };
+
+  if (tokens.length === 0) return null;
+  const root = parseOr();
+  if (position < tokens.length) throw new QuerySyntaxError('Hay un ")" sin su "(".');
+  return root;
+};
+
+const collectTerms = (node: QueryNode | null, into: string[] = []): string[] => {
+  if (!node || node.kind === 'not' || node.kind === 'field') return into;
+  if (node.kind === 'text') {
+    if (node.value) into.push(node.value);
+    return into;
+  }
+  collectTerms(node.left, into);
+  collectTerms(node.right, into);
+  return into;
+};
+
+export const parseQuery = (input: string): ParsedQuery => {
+  try {
+    const root = buildTree(tokenize(input));
+    return { root, error: null, terms: collectTerms(root) };
+  } catch (e) {
+    if (!(e instanceof QuerySyntaxError)) throw e;
+    return { root: null, error: e.message, terms: [] };
+  }
+};
+
+// --- EVALUATION ---
+const searchableText = (task: Task): string => foldText([
+  task.title,
+  task.description || '',
+  task.aiContext || '',
+  ...task.activity.filter(a => a.type === 'comment').map(a => a.content),
+  ...task.attachments.map(a => a.name),
+].join('\n'));
+
+const compareDates = (date: string | undefined, comparator: QueryComparator, value: string, today: string): boolean => {
+  if (value === 'none' || value === 'ninguna') return !date;
+  if (!date) return false;
+  const target = value === 'today' || value === 'hoy' ? today : /^[+-]\d+$/.test(value) ? addDays(today, Number(value)) : value;
+  switch (comparator) {
+    case '<': return date < target;
+    case '<=': return date <= target;
+    case '>': return date > target;
+    case '>=': return date >= target;
+    default: return date === target;
+  }
+};
+
+const matchesField = (task: Task, node: Extract<QueryNode, { kind: 'field' }>, env: QueryEnv, today: string): boolean => {
+  const { value } = node;
+  switch (node.field) {
+    case 'status': {
+      if (value === 'done' || value === 'completada') return isTaskDone(task, env.workflow);
+      // Pending covers every column that is not done, custom ones included, not only the PENDING status
+      if (value === 'open' || value === 'abierta' || value === 'pending' || value === 'pendiente') return !isTaskDone(task, env.workflow);
+      const status = findStatus(env.workflow, task.status);
+      return foldText(status.id) === value || foldText(status.label).startsWith(value);
+    }
+    case 'tag':
+      return task.tags.some(tag => sameTag(foldText(tag), value));
+    case 'assignee':
+      if (value === 'none' || value === 'nadie') return task.assignees.length === 0;
+      if (value === 'me' || value === 'yo') return task.assignees.includes(env.currentUserId);
+      return task.assignees.some(id => id === value || foldText(env.users.find(u => u.id === id)?.name || '').startsWith(value));
+    case 'due':
+      if (value === 'overdue' || value === 'vencida') return getDueState(task, env.workflow, today) === 'overdue';
+      return compareDates(getTaskSchedule(task).dueDate, node.comparator, value, today);
+    case 'start':
+      return compareDates(getTaskSchedule(task).startDate, node.comparator, value, today);
+    case 'has': {
+      const type = HAS_ATTACHMENT_TYPES[value];
+      if (type) return task.attachments.some(a => a.type === type);
+      return HAS_FLAGS[HAS_ALIASES[value] || value](task);
+    }
+  }
+};
+
+export const matchesQuery = (task: Task, node: QueryNode, env: QueryEnv): boolean => {
+  const today = env.today || toDateKey(new Date());
+  const evaluate = (n: QueryNode): boolean => {
+    switch (n.kind) {
+      case 'and': return evaluate(n.left) && evaluate(n.right);
+      case 'or': return evaluate(n.left) || evaluate(n.right);
+      case 'not': return !evaluate(n.node);
+      case 'text': return searchableText(task).includes(n.value);
+      case 'field': return matchesField(task, n, env, today);
+    }
+  };
+  return evaluate(node);
+};
+
+/** Keeps matching tasks and the ancestors that lead to them, expanded so every match is visible. */
+export const filterTasksByQuery = (tasks: Task[], query: ParsedQuery, env: QueryEnv): Task[] => {
+  if (!query.root) return tasks;
+  const root = query.root;
+  const filter = (list: Task[]): Task[] => list.reduce((acc: Task[], task) => {
+    const childMatches = filter(task.subtasks);
+    if (matchesQuery(task, root, env) || childMatches.length > 0) acc.push({ ...task, subtasks: childMatches, expanded: true });
+    return acc;
+  }, []);
+  return filter(tasks);
+};
+
+// --- HIGHLIGHTING ---
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Splits `text` into matching and non-matching runs of the folded terms. */
+export const splitHighlights = (text: string, terms: string[]): TextSegment[] => {
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+  // Fold character by character so positions line up with the original text
+  const chars = Array.from(text);
+  const folded = chars.map(foldText);
+  const haystack = folded.join('');
+  const offsets: number[] = [];
+  folded.reduce((offset, f) => { offsets.push(offset); return offset + f.length; }, 0);
+
+  const marked = new Array(chars.length).fill(false);
+  terms.forEach(term => {
+    let from = haystack.indexOf(term);
+    while (from !== -1) {
+      const to = from + term.length;
+      offsets.forEach((offset, index) => { if (offset >= from && offset < to) marked[index] = true; });
+      from = haystack.indexOf(term, to);
+    }
+  });
+
+  return chars.reduce((segments: TextSegment[], char, index) => {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[index]) last.text += char;
+    else segments.push({ text: char, match: marked[index] });
+    return segments;
+  }, []);
+};
+
+// Where a task matched outside its title and description, to hint at hidden matches
+export const describeHiddenMatches = (task: Task, terms: string[]): string[] => {
+  if (terms.length === 0) return [];
+  const has = (text: string) => terms.some(term => foldText(text).includes(term));
+  const places: string[] = [];
+  if (task.activity.some(a => a.type === 'comment' && has(a.content))) places.push('comentarios');
+  if (task.attachments.some(a => has(a.name))) places.push('adjuntos');
+  if (task.aiContext && has(task.aiContext)) places.push('contexto IA');
+  return places;
+};
@@ -0,0 +1,165 @@
+import { ActivityLog, Project, RecurrenceCycle, RecurrenceFrequency, RecurrenceRule, Task, WorkflowStatus } from "../types";
+import { generateId } from "./idService";
+import { WEEKDAY_LABELS, addDays, daysBetween, formatDateKey, getTaskSchedule, isTaskDone, parseDateKey, shiftTaskDates, startOfWeek, toDateKey } from "./scheduleService";
+import { getWorkflow, initialStatus } from "./workflowService";
+
+export const MAX_RECURRENCE_INTERVAL = 365;
+
+export const RECURRENCE_OPTIONS: { frequency: RecurrenceFrequency; label: string }[] = [
+  { frequency: 'daily', label: 'Diaria' },
+  { frequency: 'weekly', label: 'Semanal' },
+  { frequency: 'monthly', label: 'Mensual' },
+  { frequency: 'after_completion', label: 'Tras completarla' },
+];
+
+const FREQUENCIES = RECURRENCE_OPTIONS.map(option => option.frequency);
+
+// --- HELPERS ---
+// 0 = Monday, like WEEKDAY_LABELS
+const weekdayIndex = (key: string): number => (parseDateKey(key).getDay() + 6) % 7;
+
+const collectLeaves = (tasks: Task[]): Task[] => tasks.flatMap(t => t.subtasks.length === 0 ? [t] : collectLeaves(t.subtasks));
+
+/** Clamps a rule from the editor or from storage into a valid one, or undefined if it cannot be. */
+export const normalizeRecurrence = (raw: unknown): RecurrenceRule | undefined => {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const { frequency, interval, weekdays } = raw as Partial<RecurrenceRule>;
+  if (!FREQUENCIES.includes(frequency as RecurrenceFrequency)) return undefined;
+  const rule: RecurrenceRule = {
+    frequency: frequency as RecurrenceFrequency,
+    interval: typeof interval === 'number' && Number.isFinite(interval) ? Math.min(Math.max(Math.round(interval), 1), MAX_RECURRENCE_INTERVAL) : 1,
+  };
+  if (rule.frequency === 'weekly' && Array.isArray(weekdays)) {
+    const days = [...new Set(weekdays.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6))].sort((a, b) => a - b);
+    if (days.length > 0) rule.weekdays = days;
+  }
+  return rule;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const n = rule.interval;
+  switch (rule.frequency) {
+    case 'daily': return n === 1 ? 'Cada día' : `Cada ${n} días`;
+    case 'weekly': {
+      const base = n === 1 ? 'Cada semana' : `Cada ${n} semanas`;
+      return rule.weekdays?.length ? `${base}: ${rule.weekdays.map(d => WEEKDAY_LABELS[d]).join(', ')}` : base;
+    }
+    case 'monthly': return n === 1 ? 'Cada mes' : `Cada ${n} meses`;
+    case 'after_completion': return n === 1 ? '1 día después de completarla' : `${n} días después de completarla`;
+  }
+};
+
+// --- NEXT OCCURRENCE ---
+const addMonths = (key: string, months: number): string => {
+  const date = parseDateKey(key);
+  const day = date.getDate();
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+  return toDateKey(new Date(date.getFullYear(), date.getMonth() + months, Math.min(day, lastDay)));
+};
+
+// The first listed weekday after `key` in a week that is a multiple of `interval` weeks away
+const nextWeekday = (key: string, rule: RecurrenceRule): string => {
+  const weekdays = rule.weekdays!;
+  for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++) {
+    const candidate = addDays(key, offset);
+    const weeksApart = daysBetween(startOfWeek(key), startOfWeek(candidate)) / 7;
+    if (weekdays.includes(weekdayIndex(candidate)) && weeksApart % rule.interval === 0) return candidate;
+  }
+  return addDays(key, 7 * rule.interval);
+};
+
+const step = (key: string, rule: RecurrenceRule): string => {
+  switch (rule.frequency) {
+    case 'daily': return addDays(key, rule.interval);
+    case 'weekly': return rule.weekdays?.length ? nextWeekday(key, rule) : addDays(key, 7 * rule.interval);
+    case 'monthly': return addMonths(key, rule.interval);
+    case 'after_completion': return addDays(key, rule.interval);
+  }
+};
+
+/**
+ * Calendar rules step from the occurrence being closed and skip the ones already
+ * missed, so a late audit does not leave another overdue one behind it.
+ * 'after_completion' always counts from the day the task is completed.
+ */
+export const nextOccurrence = (rule: RecurrenceRule, dueDate: string | undefined, today = toDateKey(new Date())): string => {
+  if (rule.frequency === 'after_completion' || !dueDate) return step(today, rule);
+  let next = step(dueDate, rule);
+  while (next <= today) next = step(next, rule);
+  return next;
+};
+
+// --- ROLLING OVER ---
+const lastCompletion = (task: Task): ActivityLog | undefined => [...task.activity].reverse().find(a => a.type === 'status_change');
+
+const resetTree = (tasks: Task[], workflow: WorkflowStatus[], days: number): Task[] => tasks.map(t => ({
+  ...t,
+  ...shiftTaskDates(t, days),
+  status: t.subtasks.length === 0 ? initialStatus(workflow).id : t.status,
+  subtasks: resetTree(t.subtasks, workflow, days),
+}));
+
+/**
+ * Closes the current cycle of a completed recurring task: records it, moves the
+ * dates to the next occurrence and puts the task and its checklist back to pending.
+ */
+export const rollOverTask = (task: Task, workflow: WorkflowStatus[], userId: string, today = toDateKey(new Date())): Task => {
+  const rule = task.recurrence!;
+  const dueDate = getTaskSchedule(task).dueDate;
+  const next = nextOccurrence(rule, dueDate, today);
+  const cycle: RecurrenceCycle = {
+    id: generateId(),
+    dueDate,
+    completedAt: Date.now(),
+    completedBy: userId,
+    checklist: collectLeaves(task.subtasks).map(leaf => {
+      const done = lastCompletion(leaf);
+      return { title: leaf.title, doneAt: done?.timestamp, doneBy: done?.createdBy };
+    }),
+  };
+  const log: ActivityLog = {
+    id: generateId(),
+    type: 'status_change',
+    content: `Ciclo cerrado${dueDate ? ` (${formatDateKey(dueDate)})` : ''}. Próxima: ${formatDateKey(next)}`,
+    timestamp: Date.now(),
+    createdBy: userId,
+  };
+
+  // Without any date yet, the task's own due date starts the series
+  const days = dueDate ? daysBetween(dueDate, next) : 0;
+  return {
+    ...task,
+    ...(dueDate ? shiftTaskDates(task, days) : { dueDate: next }),
+    status: initialStatus(workflow).id,
+    subtasks: resetTree(task.subtasks, workflow, days),
+    cycles: [...(task.cycles || []), cycle],
+    activity: [...task.activity, log],
+  };
+};
+
+/**
+ * Rolls over recurring tasks completed by a change to `changedIds`: the changed
+ * tasks, anything inside them and any ancestor whose checklist they finished.
+ * Inner recurring tasks roll first, which keeps their parent open.
+ */
+export const advanceRecurringTasks = (project: Project, changedIds: string[], userId: string, today = toDateKey(new Date())): { project: Project; rolled: Task[] } => {
+  const workflow = getWorkflow(project);
+  const changed = new Set(changedIds);
+  const rolled: Task[] = [];
+  const walk = (tasks: Task[], insideChanged: boolean): { tasks: Task[]; touched: boolean } => {
+    let anyTouched = false;
+    const next = tasks.map(t => {
+      const inner = walk(t.subtasks, insideChanged || changed.has(t.id));
+      const touched = inner.touched || insideChanged || changed.has(t.id);
+      anyTouched = anyTouched || touched;
+      const task = inner.touched ? { ...t, subtasks: inner.tasks } : t;
+      if (!touched || !task.recurrence || !isTaskDone(task, workflow)) return task;
+      const result = rollOverTask(task, workflow, userId, today);
+      rolled.push(result);
+      return result;
+    });
+    return { tasks: next, touched: anyTouched };
+  };
+  const result = walk(project.tasks, false);
+  return { project: rolled.length > 0 ? { ...project, tasks: result.tasks } : project, rolled };
+};
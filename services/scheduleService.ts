@@ -0,0 +1,167 @@
+import { DEFAULT_WORKFLOW, Project, Task, WorkflowStatus } from "../types";
+import { getWorkflow, isDoneStatus } from "./workflowService";
+
+// Dates are stored as local calendar days ("YYYY-MM-DD") so they do not shift across time zones
+export const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+export const DUE_SOON_DAYS = 2;
+const REMINDER_HOUR = 9; // Reminders fire from this local hour on the reminder day
+
+export const REMINDER_OPTIONS: { days: number; label: string }[] = [
+  { days: 0, label: 'El mismo día' },
+  { days: 1, label: '1 día antes' },
+  { days: 3, label: '3 días antes' },
+  { days: 7, label: '1 semana antes' },
+];
+
+export type DueState = 'overdue' | 'due_soon' | 'upcoming' | 'none';
+
+export interface TaskSchedule {
+  startDate?: string;
+  dueDate?: string;
+  rolledUp: boolean; // True when the dates come from subtasks
+}
+
+// --- DATES ---
+export const toDateKey = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const daysBetween = (from: string, to: string): number => {
+  return Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / (24 * 60 * 60 * 1000));
+};
+
+export const formatDateKey = (key: string): string => {
+  return parseDateKey(key).toLocaleDateString('es', { day: 'numeric', month: 'short' });
+};
+
+export const addDays = (key: string, days: number): string => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+export const listDays = (from: string, count: number): string[] => Array.from({ length: count }, (_, i) => addDays(from, i));
+
+// Weeks start on Monday
+export const startOfWeek = (key: string): string => addDays(key, -((parseDateKey(key).getDay() + 6) % 7));
+
+// Six full weeks covering the month of `key`, as shown in a month calendar
+export const getMonthGrid = (key: string): string[] => {
+  const first = parseDateKey(key);
+  first.setDate(1);
+  return listDays(startOfWeek(toDateKey(first)), 42);
+};
+
+export const WEEKDAY_LABELS = ['Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb', 'Dom'];
+
+// Moves a task's own dates by whole days, keeping the span between them
+export const shiftTaskDates = (task: Pick<Task, 'startDate' | 'dueDate'>, days: number): Pick<Task, 'startDate' | 'dueDate'> => ({
+  startDate: task.startDate ? addDays(task.startDate, days) : undefined,
+  dueDate: task.dueDate ? addDays(task.dueDate, days) : undefined,
+});
+
+// --- ROLL-UP ---
+export const isTaskDone = (task: Task, workflow: WorkflowStatus[] = DEFAULT_WORKFLOW): boolean => {
+  if (task.subtasks.length === 0) return isDoneStatus(workflow, task.status);
+  return task.subtasks.every(sub => isTaskDone(sub, workflow));
+};
+
+/**
+ * Leaves use their own dates. Parents span their subtasks, like getTaskProgress
+ * rolls up completion: the earliest start and the latest due date below them.
+ * A parent whose subtasks have no dates falls back to its own.
+ */
+export const getTaskSchedule = (task: Task): TaskSchedule => {
+  const own: TaskSchedule = { startDate: task.startDate, dueDate: task.dueDate, rolledUp: false };
+  if (task.subtasks.length === 0) return own;
+
+  const children = task.subtasks.map(getTaskSchedule);
+  const starts = children.map(c => c.startDate).filter((d): d is string => !!d).sort();
+  const dues = children.map(c => c.dueDate).filter((d): d is string => !!d).sort();
+  if (starts.length === 0 && dues.length === 0) return own;
+  return {
+    startDate: starts[0] || task.startDate,
+    dueDate: dues[dues.length - 1] || task.dueDate,
+    rolledUp: true,
+  };
+};
+
+export const getDueState = (task: Task, workflow: WorkflowStatus[] = DEFAULT_WORKFLOW, today = toDateKey(new Date())): DueState => {
+  const { dueDate } = getTaskSchedule(task);
+  if (!dueDate || isTaskDone(task, workflow)) return 'none';
+  const remaining = daysBetween(today, dueDate);
+  if (remaining < 0) return 'overdue';
+  if (remaining <= DUE_SOON_DAYS) return 'due_soon';
+  return 'upcoming';
+};
+
+// --- REMINDERS ---
+export interface DueReminder {
+  projectId: string;
+  task: Task;
+}
+
+// Task id → due date its reminder was shown for, kept per user on each device
+export type SentReminders = Record<string, string>;
+
+const reminderTime = (task: Task): number | null => {
+  if (!task.dueDate || task.reminderDaysBefore === undefined) return null;
+  const day = parseDateKey(task.dueDate);
+  day.setDate(day.getDate() - task.reminderDaysBefore);
+  day.setHours(REMINDER_HOUR, 0, 0, 0);
+  return day.getTime();
+};
+
+// Reminders are armed per due date, so moving the date re-arms them
+export const collectDueReminders = (projects: Project[], sent: SentReminders = {}, now = Date.now()): DueReminder[] => {
+  const due: DueReminder[] = [];
+  const walk = (project: Project, tasks: Task[]) => tasks.forEach(task => {
+    const at = reminderTime(task);
+    if (at !== null && at <= now && sent[task.id] !== task.dueDate && !isTaskDone(task, getWorkflow(project))) due.push({ projectId: project.id, task });
+    walk(project, task.subtasks);
+  });
+  projects.forEach(p => walk(p, p.tasks));
+  return due;
+};
+
+/** Records `due` as shown; entries whose task is gone or has another due date are dropped. */
+export const markRemindersSent = (sent: SentReminders, due: DueReminder[], projects: Project[]): SentReminders => {
+  const dueDates = new Map<string, string | undefined>();
+  const walk = (tasks: Task[]) => tasks.forEach(t => { dueDates.set(t.id, t.dueDate); walk(t.subtasks); });
+  projects.forEach(p => walk(p.tasks));
+  const kept = Object.fromEntries(Object.entries(sent).filter(([taskId, dueDate]) => dueDates.get(taskId) === dueDate));
+  due.forEach(({ task }) => { if (task.dueDate) kept[task.id] = task.dueDate; });
+  return kept;
+};
+
+export const describeReminder = (task: Task, today = toDateKey(new Date())): string => {
+  if (!task.dueDate) return '';
+  const remaining = daysBetween(today, task.dueDate);
+  if (remaining < 0) return `Venció hace ${-remaining} día(s)`;
+  if (remaining === 0) return 'Vence hoy';
+  return remaining === 1 ? 'Vence mañana' : `Vence en ${remaining} días`;
+};
+
+// --- NOTIFICATIONS ---
+export const notificationsSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Installed PWAs must notify through their service worker registration when there is one
+export const showNotification = async (title: string, body: string, tag: string): Promise<void> => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const options: NotificationOptions = { body, tag };
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) await registration.showNotification(title, options);
+  else new Notification(title, options);
+};
@@ -0,0 +1,232 @@
+import { AppState, Attachment, Task, User } from "../types";
+import { loadAppState } from "./migrationService";
+
+// Keys used by every adapter. The localStorage adapter prefixes them, which
+// makes it read the legacy `proyectate_app_state` / `proyectate_users` entries as-is.
+export const STATE_KEY = 'app_state';
+export const USERS_KEY = 'users';
+export const SESSION_KEY = 'session';
+export const VIEW_PREFS_KEY = 'view_prefs'; // Per-device UI choices, e.g. the view used for each project
+export const REMINDERS_KEY = 'reminders_sent'; // Per-device, by user id: reminders already shown (SentReminders)
+
+const LOCAL_PREFIX = 'proyectate_';
+const LOCAL_BLOB_PREFIX = 'proyectate_blob_';
+
+const DB_NAME = 'proyectate';
+const DB_VERSION = 1;
+const KV_STORE = 'kv';
+const BLOB_STORE = 'blobs';
+
+/**
+ * Persistence backend used by the app. JSON documents (state, users) and binary
+ * attachments are stored separately so large files never bloat the state document.
+ */
+export interface StorageAdapter {
+  name: string;
+  getItem: <T>(key: string) => Promise<T | null>;
+  setItem: <T>(key: string, value: T) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  putBlob: (id: string, blob: Blob) => Promise<void>;
+  getBlob: (id: string) => Promise<Blob | null>;
+  deleteBlob: (id: string) => Promise<void>;
+  listBlobIds: () => Promise<string[]>;
+}
+
+// --- HELPERS ---
+export const isQuotaError = (error: unknown): boolean => {
+  if (!(error instanceof DOMException)) return false;
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22;
+};
+
+export const describeStorageError = (error: unknown): string => {
+  if (isQuotaError(error)) {
+    return "Sin espacio de almacenamiento: los últimos cambios no se guardaron. Elimina adjuntos grandes o libera espacio en el dispositivo.";
+  }
+  return "No se pudieron guardar los cambios en este dispositivo.";
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// --- INDEXEDDB ---
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(KV_STORE)) db.createObjectStore(KV_STORE);
+      if (!db.objectStoreNames.contains(BLOB_STORE)) db.createObjectStore(BLOB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createIndexedDBAdapter = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) dbPromise = openDatabase();
+    return dbPromise;
+  };
+
+  // Resolves once the transaction commits, so quota errors (reported on abort) reach the caller.
+  const run = async <T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await getDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = operation(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onabort = () => reject(tx.error || request.error);
+      tx.onerror = () => reject(tx.error || request.error);
+    });
+  };
+
+  return {
+    name: 'indexeddb',
+    getItem: async <T>(key: string) => {
+      const value = await run<T | undefined>(KV_STORE, 'readonly', store => store.get(key));
+      return value === undefined ? null : value;
+    },
+    setItem: async <T>(key: string, value: T) => { await run(KV_STORE, 'readwrite', store => store.put(value, key)); },
+    removeItem: async (key) => { await run(KV_STORE, 'readwrite', store => store.delete(key)); },
+    putBlob: async (id, blob) => { await run(BLOB_STORE, 'readwrite', store => store.put(blob, id)); },
+    getBlob: async (id) => {
+      const blob = await run<Blob | undefined>(BLOB_STORE, 'readonly', store => store.get(id));
+      return blob || null;
+    },
+    deleteBlob: async (id) => { await run(BLOB_STORE, 'readwrite', store => store.delete(id)); },
+    listBlobIds: async () => {
+      const db = await getDb();
+      const keys = await requestToPromise(db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE).getAllKeys());
+      return keys.map(String);
+    },
+  };
+};
+
+// --- LOCALSTORAGE (fallback when IndexedDB is unavailable) ---
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  name: 'localstorage',
+  getItem: async <T>(key: string) => {
+    const saved = localStorage.getItem(LOCAL_PREFIX + key);
+    return saved ? JSON.parse(saved) as T : null;
+  },
+  setItem: async <T>(key: string, value: T) => { localStorage.setItem(LOCAL_PREFIX + key, JSON.stringify(value)); },
+  removeItem: async (key) => { localStorage.removeItem(LOCAL_PREFIX + key); },
+  putBlob: async (id, blob) => { localStorage.setItem(LOCAL_BLOB_PREFIX + id, await blobToDataUrl(blob)); },
+  getBlob: async (id) => {
+    const dataUrl = localStorage.getItem(LOCAL_BLOB_PREFIX + id);
+    return dataUrl ? dataUrlToBlob(dataUrl) : null;
+  },
+  deleteBlob: async (id) => { localStorage.removeItem(LOCAL_BLOB_PREFIX + id); },
+  listBlobIds: async () => {
+    const ids: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(LOCAL_BLOB_PREFIX)) ids.push(key.slice(LOCAL_BLOB_PREFIX.length));
+    }
+    return ids;
+  },
+});
+
+export const createStorageAdapter = (): StorageAdapter => {
+  if (typeof indexedDB !== 'undefined') return createIndexedDBAdapter();
+  return createLocalStorageAdapter();
+};
+
+// --- ATTACHMENTS ---
+const mapTaskAttachments = async (tasks: Task[], mapper: (att: Attachment) => Promise<Attachment>): Promise<Task[]> => {
+  return Promise.all(tasks.map(async task => ({
+    ...task,
+    attachments: await Promise.all(task.attachments.map(mapper)),
+    subtasks: await mapTaskAttachments(task.subtasks, mapper),
+  })));
+};
+
+// Moves inline base64 attachments (`data:` URLs) out of the state and into the blob store.
+export const extractInlineAttachments = async (state: AppState, adapter: StorageAdapter): Promise<AppState> => {
+  const extract = async (att: Attachment): Promise<Attachment> => {
+    if (att.blobId || !att.url.startsWith('data:')) return att;
+    const blob = await dataUrlToBlob(att.url);
+    await adapter.putBlob(att.id, blob);
+    return { ...att, url: '', blobId: att.id, mimeType: blob.type };
+  };
+  return {
+    ...state,
+    projects: await Promise.all(state.projects.map(async p => ({ ...p, tasks: await mapTaskAttachments(p.tasks, extract) }))),
+  };
+};
+
+export const collectBlobIds = (state: Pick<AppState, 'projects' | 'trash'>): Set<string> => {
+  const ids = new Set<string>();
+  const walk = (tasks: Task[]) => tasks.forEach(t => {
+    t.attachments.forEach(att => { if (att.blobId) ids.add(att.blobId); });
+    walk(t.subtasks);
+  });
+  state.projects.forEach(p => walk(p.tasks));
+  // Trashed content keeps its blobs until the trash entry is purged
+  state.trash.forEach(item => {
+    if (item.kind === 'project') walk(item.project.tasks);
+    else if (item.kind === 'task') walk([item.task]);
+    else if (item.attachment.blobId) ids.add(item.attachment.blobId);
+  });
+  return ids;
+};
+
+// Deletes blobs no attachment points to anymore (e.g. after a task subtree was deleted).
+export const pruneOrphanBlobs = async (state: AppState, adapter: StorageAdapter): Promise<void> => {
+  const referenced = collectBlobIds(state);
+  const stored = await adapter.listBlobIds();
+  await Promise.all(stored.filter(id => !referenced.has(id)).map(id => adapter.deleteBlob(id)));
+};
+
+// --- MIGRATION ---
+/**
+ * Copies data saved by older versions (whole state in localStorage, attachments inline)
+ * into the given adapter. The legacy state is migrated and repaired first, so a save
+ * with missing arrays cannot break the attachment walk. Runs only while the adapter
+ * is still empty; the legacy keys are removed to free the localStorage quota only
+ * once every copy was written and read back. If the adapter already held data, the
+ * legacy keys are kept.
+ */
+export const migrateLegacyStorage = async (adapter: StorageAdapter): Promise<boolean> => {
+  if (adapter.name === 'localstorage') return false;
+
+  const legacyState = localStorage.getItem(LOCAL_PREFIX + STATE_KEY);
+  const legacyUsers = localStorage.getItem(LOCAL_PREFIX + USERS_KEY);
+  if (!legacyState && !legacyUsers) return false;
+
+  let stateCopied = !legacyState;
+  if (legacyState && !(await adapter.getItem<AppState>(STATE_KEY))) {
+    const { state } = loadAppState(JSON.parse(legacyState));
+    await adapter.setItem(STATE_KEY, await extractInlineAttachments(state, adapter));
+    stateCopied = !!(await adapter.getItem<AppState>(STATE_KEY));
+  }
+  let usersCopied = !legacyUsers;
+  if (legacyUsers && !(await adapter.getItem<User[]>(USERS_KEY))) {
+    await adapter.setItem(USERS_KEY, JSON.parse(legacyUsers) as User[]);
+    usersCopied = !!(await adapter.getItem<User[]>(USERS_KEY));
+  }
+
+  if (!stateCopied || !usersCopied) return false;
+  localStorage.removeItem(LOCAL_PREFIX + STATE_KEY);
+  localStorage.removeItem(LOCAL_PREFIX + USERS_KEY);
+  return true;
+};
@@ -0,0 +1,115 @@
+import { Project, StatusColor, Task, TagDefinition } from "../types";
+import { STATUS_COLORS } from "./workflowService";
+
+// Tags are stored on tasks by name; names compare case-insensitively
+export const MAX_TAG_LENGTH = 32;
+
+// --- HELPERS ---
+export const normalizeTagName = (name: string): string => name.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+
+export const sameTag = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+export const findTag = (tags: TagDefinition[], name: string): TagDefinition | undefined => tags.find(t => sameTag(t.name, name));
+
+export const getProjectTags = (project?: Pick<Project, 'tags'>): TagDefinition[] => project?.tags || [];
+
+const dedupeTags = (names: string[]): string[] => names.reduce((acc: string[], name) => {
+  return acc.some(existing => sameTag(existing, name)) ? acc : [...acc, name];
+}, []);
+
+const collectTaskTags = (tasks: Task[], into: string[] = []): string[] => {
+  tasks.forEach(t => {
+    into.push(...t.tags);
+    collectTaskTags(t.subtasks, into);
+  });
+  return into;
+};
+
+const mapAllTasks = (tasks: Task[], updater: (t: Task) => Task): Task[] => tasks.map(t => updater({ ...t, subtasks: mapAllTasks(t.subtasks, updater) }));
+
+// Spread new tags across the palette instead of starting every one on the same color
+const nextTagColor = (tags: TagDefinition[]): StatusColor => STATUS_COLORS[tags.length % STATUS_COLORS.length];
+
+// --- DEFINITIONS ---
+/** Adds a definition for every tag used in `tasks` that the project does not define yet. */
+export const syncTagDefinitions = (tags: TagDefinition[], tasks: Task[]): TagDefinition[] => {
+  return dedupeTags(collectTaskTags(tasks)).reduce((acc, name) => {
+    return findTag(acc, name) ? acc : [...acc, { name, color: nextTagColor(acc) }];
+  }, tags);
+};
+
+export const mergeTagDefinitions = (primary: TagDefinition[], secondary: TagDefinition[]): TagDefinition[] => {
+  return [...primary, ...secondary.filter(t => !findTag(primary, t.name))];
+};
+
+export const setTagColor = (project: Project, name: string, color: StatusColor): Project => ({
+  ...project,
+  tags: getProjectTags(project).map(t => sameTag(t.name, name) ? { ...t, color } : t),
+});
+
+// --- TASKS ---
+export const setTaskTags = (project: Project, taskId: string, names: string[]): Project => {
+  const defined = getProjectTags(project);
+  // Reuse the spelling of an existing definition so "UI" and "ui" stay one tag
+  const tags = dedupeTags(names.map(normalizeTagName).filter(Boolean).map(name => findTag(defined, name)?.name || name));
+  const update = (tasks: Task[]): Task[] => tasks.map(t => t.id === taskId ? { ...t, tags } : { ...t, subtasks: update(t.subtasks) });
+  const updated = update(project.tasks);
+  return { ...project, tasks: updated, tags: syncTagDefinitions(defined, updated) };
+};
+
+/**
+ * Renames a tag on every task of the project. Renaming onto another existing tag
+ * merges both: tasks keep a single copy and the target keeps its color.
+ */
+export const renameTag = (project: Project, from: string, to: string): Project => {
+  const name = normalizeTagName(to);
+  const source = findTag(getProjectTags(project), from);
+  if (!name || !source) return project;
+  const target = findTag(getProjectTags(project), name);
+  const merging = !!target && target !== source;
+  const finalName = merging ? target!.name : name;
+
+  const tasks = mapAllTasks(project.tasks, t => t.tags.some(tag => sameTag(tag, from))
+    ? { ...t, tags: dedupeTags(t.tags.map(tag => sameTag(tag, from) ? finalName : tag)) }
+    : t);
+  const tags = merging
+    ? getProjectTags(project).filter(t => t !== source)
+    : getProjectTags(project).map(t => t === source ? { ...t, name: finalName } : t);
+  return { ...project, tasks, tags };
+};
+
+export const deleteTag = (project: Project, name: string): Project => ({
+  ...project,
+  tasks: mapAllTasks(project.tasks, t => t.tags.some(tag => sameTag(tag, name)) ? { ...t, tags: t.tags.filter(tag => !sameTag(tag, name)) } : t),
+  tags: getProjectTags(project).filter(t => !sameTag(t.name, name)),
+});
+
+export const countTagUsage = (tasks: Task[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  collectTaskTags(tasks).forEach(name => {
+    const key = name.toLowerCase();
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return counts;
+};
+
+// --- FILTERING ---
+/**
+ * Keeps tasks carrying every selected tag, plus the ancestors needed to reach them.
+ * Children of a match that lack the tags are dropped, as in `filterTasksByQuery`, so
+ * the tag chips and a `#tag` search show the same tree.
+ */
+export const filterTasksByTags = (tasks: Task[], selected: string[]): Task[] => {
+  if (selected.length === 0) return tasks;
+  return tasks.reduce((acc: Task[], task) => {
+    const match = selected.every(name => task.tags.some(tag => sameTag(tag, name)));
+    const childMatches = filterTasksByTags(task.subtasks, selected);
+    if (match || childMatches.length > 0) acc.push({ ...task, subtasks: childMatches, expanded: true });
+    return acc;
+  }, []);
+};
+
+export const suggestTags = (tags: TagDefinition[], query: string, exclude: string[]): TagDefinition[] => {
+  const q = normalizeTagName(query).toLowerCase();
+  return tags.filter(t => !exclude.some(name => sameTag(name, t.name)) && t.name.toLowerCase().includes(q)).slice(0, 8);
+};
@@ -0,0 +1,154 @@
+import { Project, TagDefinition, Task, TaskTemplate, TemplateTask, WorkflowStatus } from "../types";
+import { generateId } from "./idService";
+import { addDays, daysBetween, toDateKey } from "./scheduleService";
+import { getProjectTags, normalizeTagName, sameTag, syncTagDefinitions } from "./tagService";
+import { initialStatus } from "./workflowService";
+
+export const MAX_PLACEHOLDER_LENGTH = 40;
+
+// {{producto}}, {{ nombre del cliente }}
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export interface PlaceholderReplacement {
+  text: string; // Literal text in the source, e.g. "Lavanda"
+  name: string; // Variable it becomes, e.g. "producto"
+}
+
+// --- HELPERS ---
+const flattenTemplate = (tasks: TemplateTask[]): TemplateTask[] => tasks.flatMap(t => [t, ...flattenTemplate(t.subtasks)]);
+
+const flattenTasks = (tasks: Task[]): Task[] => tasks.flatMap(t => [t, ...flattenTasks(t.subtasks)]);
+
+export const countTemplateTasks = (template: TaskTemplate): number => flattenTemplate(template.tasks).length;
+
+export const templateHasDates = (template: TaskTemplate): boolean => flattenTemplate(template.tasks).some(t => t.startOffset !== undefined || t.dueOffset !== undefined);
+
+export const normalizePlaceholderName = (name: string): string => name.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim().slice(0, MAX_PLACEHOLDER_LENGTH);
+
+// --- PLACEHOLDERS ---
+/** Variables of a template in order of first appearance, the subtitle first. */
+export const listPlaceholders = (template: TaskTemplate): string[] => {
+  const texts = [
+    template.subtitle || '',
+    ...flattenTemplate(template.tasks).flatMap(t => [t.title, t.description || '', t.aiContext || '', ...t.tags]),
+  ];
+  const names: string[] = [];
+  texts.forEach(text => {
+    for (const match of text.matchAll(PLACEHOLDER)) {
+      if (!names.includes(match[1])) names.push(match[1]);
+    }
+  });
+  return names;
+};
+
+// Unfilled variables stay visible so the gap is obvious in the new tasks
+export const fillPlaceholders = (text: string, values: Record<string, string>): string => {
+  return text.replace(PLACEHOLDER, (whole, name: string) => values[name]?.trim() || whole);
+};
+
+const insertPlaceholders = (text: string, replacements: PlaceholderReplacement[]): string => {
+  return replacements.reduce((result, { text: literal, name }) => literal ? result.split(literal).join(`{{${name}}}`) : result, text);
+};
+
+export const countOccurrences = (tasks: Task[], literal: string): number => {
+  if (!literal) return 0;
+  return flattenTasks(tasks).reduce((count, t) => count + [t.title, t.description || '', t.aiContext || '', ...t.tags]
+    .reduce((sum, text) => sum + text.split(literal).length - 1, 0), 0);
+};
+
+// --- SAVING ---
+/**
+ * Copies the structure of `tasks` without activity, attachments, people or status.
+ * Dates become offsets from the earliest date in the subtree, so the template
+ * can start on any day.
+ */
+export const createTemplate = (
+  name: string,
+  source: { kind: 'project'; project: Project } | { kind: 'task'; project: Project; task: Task },
+  replacements: PlaceholderReplacement[],
+  userId: string
+): TaskTemplate => {
+  const tasks = source.kind === 'project' ? source.project.tasks : [source.task];
+  const all = flattenTasks(tasks);
+  const keys = new Set(all.map(t => t.id));
+  const dates = all.flatMap(t => [t.startDate, t.dueDate]).filter((d): d is string => !!d).sort();
+  const anchor = dates[0];
+  const fill = (text: string) => insertPlaceholders(text, replacements);
+
+  const toTemplateTask = (t: Task): TemplateTask => {
+    const node: TemplateTask = {
+      key: t.id,
+      title: fill(t.title),
+      tags: t.tags.map(fill),
+      subtasks: t.subtasks.map(toTemplateTask),
+    };
+    if (t.description) node.description = fill(t.description);
+    if (t.aiContext) node.aiContext = fill(t.aiContext);
+    if (anchor && t.startDate) node.startOffset = daysBetween(anchor, t.startDate);
+    if (anchor && t.dueDate) node.dueOffset = daysBetween(anchor, t.dueDate);
+    if (t.recurrence) node.recurrence = t.recurrence;
+    const blockedBy = t.blockedBy?.filter(id => keys.has(id));
+    if (blockedBy?.length) node.blockedBy = blockedBy;
+    return node;
+  };
+
+  const usedTags = getProjectTags(source.project).filter(def => all.some(t => t.tags.some(tag => sameTag(tag, def.name))));
+  const template: TaskTemplate = {
+    id: generateId(),
+    name,
+    source: source.kind,
+    tags: usedTags.map(def => ({ ...def, name: fill(def.name) })),
+    tasks: tasks.map(toTemplateTask),
+    createdBy: userId,
+    createdAt: Date.now(),
+  };
+  if (source.kind === 'project') {
+    template.subtitle = fill(source.project.subtitle);
+    template.workflow = source.project.workflow;
+  }
+  return template;
+};
+
+// --- USING ---
+/**
+ * Builds fresh tasks from a template: new ids, the workflow's first status,
+ * dates counted from `startDate` and dependencies pointing at the new copies.
+ */
+export const instantiateTemplate = (
+  template: TaskTemplate,
+  values: Record<string, string>,
+  workflow: WorkflowStatus[],
+  userId: string,
+  startDate = toDateKey(new Date())
+): { tasks: Task[]; tags: TagDefinition[] } => {
+  const ids = new Map(flattenTemplate(template.tasks).map(t => [t.key, generateId()]));
+  const fill = (text: string) => fillPlaceholders(text, values);
+
+  const toTask = (node: TemplateTask): Task => {
+    const subtasks = node.subtasks.map(toTask);
+    const task: Task = {
+      id: ids.get(node.key)!,
+      title: fill(node.title),
+      status: initialStatus(workflow).id,
+      subtasks,
+      attachments: [],
+      activity: [{ id: generateId(), type: 'creation', content: `Creado desde la plantilla "${template.name}"`, timestamp: Date.now(), createdBy: userId }],
+      tags: [...new Set(node.tags.map(tag => normalizeTagName(fill(tag))).filter(Boolean))],
+      expanded: subtasks.length > 0,
+      createdBy: userId,
+      assignees: [],
+    };
+    if (node.description) task.description = fill(node.description);
+    if (node.aiContext) task.aiContext = fill(node.aiContext);
+    if (node.startOffset !== undefined) task.startDate = addDays(startDate, node.startOffset);
+    if (node.dueOffset !== undefined) task.dueDate = addDays(startDate, node.dueOffset);
+    if (node.recurrence) task.recurrence = node.recurrence;
+    const blockedBy = node.blockedBy?.map(key => ids.get(key)).filter((id): id is string => !!id);
+    if (blockedBy?.length) task.blockedBy = blockedBy;
+    return task;
+  };
+
+  const tasks = template.tasks.map(toTask);
+  const tags = template.tags.map(def => ({ ...def, name: normalizeTagName(fill(def.name)) })).filter(def => def.name);
+  return { tasks, tags: syncTagDefinitions(tags, tasks) };
+};
@@ -0,0 +1,151 @@
+import { ActivityLog, Project, Task, TimeEntry } from "../types";
+import { generateId } from "./idService";
+import { addDays, toDateKey } from "./scheduleService";
+
+export const MAX_ENTRY_MINUTES = 24 * 60; // A forgotten timer logs at most one day
+
+// --- HELPERS ---
+const logEntry = (content: string, userId: string): ActivityLog => ({
+  id: generateId(), content, type: 'edit', timestamp: Date.now(), createdBy: userId,
+});
+
+const mapTask = (tasks: Task[], taskId: string, updater: (t: Task) => Task): Task[] => tasks.map(t => {
+  if (t.id === taskId) return updater(t);
+  return { ...t, subtasks: mapTask(t.subtasks, taskId, updater) };
+});
+
+const flattenTasks = (tasks: Task[]): Task[] => tasks.flatMap(t => [t, ...flattenTasks(t.subtasks)]);
+
+// --- DURATIONS ---
+export const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+/**
+ * Reads what people type in a time field: "1:30", "1,5" or "1.5" (hours),
+ * "90m", "2h", "1h 30m", "1h30". Returns null for anything else or for zero.
+ */
+export const parseDuration = (text: string): number | null => {
+  const value = text.trim().toLowerCase().replace(',', '.');
+  let minutes: number | null = null;
+  const clock = value.match(/^(\d+):([0-5]\d)$/);
+  // After hours the minutes may drop their unit: "1h30"
+  const units = value.match(/^(?:(\d+(?:\.\d+)?)\s*h(?:oras?|rs?)?)?\s*(?:(\d+)\s*(m(?:in)?)?)?$/);
+  if (clock) minutes = Number(clock[1]) * 60 + Number(clock[2]);
+  else if (/^\d+(?:\.\d+)?$/.test(value)) minutes = Number(value) * 60;
+  else if (units && (units[1] || (units[2] && units[3]))) minutes = Number(units[1] || 0) * 60 + Number(units[2] || 0);
+  if (minutes === null || !Number.isFinite(minutes)) return null;
+  const rounded = Math.round(minutes);
+  return rounded > 0 ? rounded : null;
+};
+
+// --- ROLL-UP ---
+export const getOwnMinutes = (task: Task): number => (task.timeEntries || []).reduce((sum, entry) => sum + entry.minutes, 0);
+
+// Time can be logged on parents too, so they add their own entries to their subtasks'
+export const getTrackedMinutes = (task: Task): number => {
+  return getOwnMinutes(task) + task.subtasks.reduce((sum, sub) => sum + getTrackedMinutes(sub), 0);
+};
+
+/** Leaves use their own estimate; parents add up their subtasks', falling back to their own when none have one. */
+export const getEstimatedHours = (task: Task): number => {
+  if (task.subtasks.length === 0) return task.estimateHours || 0;
+  const fromSubtasks = task.subtasks.reduce((sum, sub) => sum + getEstimatedHours(sub), 0);
+  return fromSubtasks > 0 ? fromSubtasks : task.estimateHours || 0;
+};
+
+export const findRunningTimer = (task: Task, userId: string) => task.runningTimers?.find(timer => timer.userId === userId);
+
+export const hasRunningTimer = (task: Task): boolean => (task.runningTimers || []).length > 0;
+
+// --- LOGGING ---
+export const startTimer = (project: Project, taskId: string, userId: string, now = Date.now()): Project => ({
+  ...project,
+  tasks: mapTask(project.tasks, taskId, t => findRunningTimer(t, userId)
+    ? t
+    : { ...t, runningTimers: [...(t.runningTimers || []), { userId, startedAt: now }] }),
+});
+
+/** Turns the user's running timer into a time entry on the day it was started. */
+export const stopTimer = (project: Project, taskId: string, userId: string, now = Date.now()): Project => ({
+  ...project,
+  tasks: mapTask(project.tasks, taskId, t => {
+    const timer = findRunningTimer(t, userId);
+    if (!timer) return t;
+    const minutes = Math.min(Math.max(Math.round((now - timer.startedAt) / 60000), 1), MAX_ENTRY_MINUTES);
+    const entry: TimeEntry = {
+      id: generateId(), userId, date: toDateKey(new Date(timer.startedAt)), minutes, source: 'timer', createdBy: userId, createdAt: now,
+    };
+    const runningTimers = (t.runningTimers || []).filter(other => other.userId !== userId);
+    return {
+      ...t,
+      runningTimers: runningTimers.length > 0 ? runningTimers : undefined,
+      timeEntries: [...(t.timeEntries || []), entry],
+      activity: [...t.activity, logEntry(`Cronómetro: ${formatMinutes(minutes)}`, userId)],
+    };
+  }),
+});
+
+export const addTimeEntry = (
+  project: Project,
+  taskId: string,
+  entry: Pick<TimeEntry, 'userId' | 'date' | 'minutes' | 'note'>,
+  userName: string,
+  loggedBy: string
+): Project => {
+  const created: TimeEntry = { ...entry, id: generateId(), source: 'manual', createdBy: loggedBy, createdAt: Date.now() };
+  if (!created.note) delete created.note;
+  return {
+    ...project,
+    tasks: mapTask(project.tasks, taskId, t => ({
+      ...t,
+      timeEntries: [...(t.timeEntries || []), created],
+      activity: [...t.activity, logEntry(`Registró ${formatMinutes(entry.minutes)} de ${userName}`, loggedBy)],
+    })),
+  };
+};
+
+export const removeTimeEntry = (project: Project, taskId: string, entryId: string, userId: string): Project => ({
+  ...project,
+  tasks: mapTask(project.tasks, taskId, t => {
+    const entry = t.timeEntries?.find(e => e.id === entryId);
+    if (!entry) return t;
+    return {
+      ...t,
+      timeEntries: t.timeEntries!.filter(e => e.id !== entryId),
+      activity: [...t.activity, logEntry(`Quitó ${formatMinutes(entry.minutes)} registrados`, userId)],
+    };
+  }),
+});
+
+// --- REPORTS ---
+export interface WeeklyTimeRow {
+  userId: string;
+  days: number[]; // Minutes per day, Monday first
+  total: number;
+  projects: { projectId: string; title: string; minutes: number }[];
+}
+
+/** Minutes per person and weekday for the week starting on `weekStart` (a Monday), busiest first. */
+export const weeklyTimeReport = (projects: Project[], weekStart: string): WeeklyTimeRow[] => {
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const rows = new Map<string, WeeklyTimeRow>();
+  projects.forEach(project => flattenTasks(project.tasks).forEach(task => (task.timeEntries || []).forEach(entry => {
+    const day = days.indexOf(entry.date);
+    if (day === -1) return;
+    const row = rows.get(entry.userId) || { userId: entry.userId, days: days.map(() => 0), total: 0, projects: [] };
+    row.days[day] += entry.minutes;
+    row.total += entry.minutes;
+    const perProject = row.projects.find(p => p.projectId === project.id);
+    if (perProject) perProject.minutes += entry.minutes;
+    else row.projects.push({ projectId: project.id, title: project.title, minutes: entry.minutes });
+    rows.set(entry.userId, row);
+  })));
+  return [...rows.values()]
+    .map(row => ({ ...row, projects: row.projects.sort((a, b) => b.minutes - a.minutes) }))
+    .sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,264 @@
+import { ActivityLog, Attachment, CostLine, CURRENT_SCHEMA_VERSION, Project, Task, TimeEntry, User } from "../types";
+import { mergeChats } from "./assistantService";
+import { pruneDependencies } from "./dependencyService";
+import { generateId } from "./idService";
+import { loadAppState, repairUsers } from "./migrationService";
+import { StorageAdapter, blobToDataUrl, collectBlobIds, dataUrlToBlob } from "./storageService";
+import { getProjectTags, mergeTagDefinitions, syncTagDefinitions } from "./tagService";
+import { getSavedViews } from "./viewService";
+import { getWorkflow, remapStatuses } from "./workflowService";
+
+export const BUNDLE_FORMAT = 'proyectate-bundle';
+
+/** Self-contained backup of one or all projects, including attachment content. */
+export interface ExportBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  exportedBy: string; // User ID
+  scope: 'project' | 'all';
+  projects: Project[];
+  users: User[];
+  blobs: Record<string, string>; // blobId -> data URL
+}
+
+export type ImportAction = 'create' | 'replace' | 'merge' | 'skip';
+export type ConflictPolicy = 'incoming' | 'local'; // Which side wins when both have a different value
+
+export interface TaskChange {
+  id: string;
+  title: string;
+  fields: string[];
+}
+
+export interface ImportPreview {
+  added: TaskChange[];
+  removed: TaskChange[];
+  changed: TaskChange[]; // Present on both sides with different values
+  unchanged: number;
+}
+
+export interface ImportPlan {
+  project: Project; // Resulting project after the import
+  preview: ImportPreview;
+}
+
+// --- HELPERS ---
+// Fields that are merged structurally instead of compared
+const STRUCTURAL_KEYS = new Set(['id', 'subtasks', 'activity', 'attachments', 'timeEntries', 'costs', 'expanded']);
+
+const emptyPreview = (): ImportPreview => ({ added: [], removed: [], changed: [], unchanged: 0 });
+
+const indexTasks = (tasks: Task[], index = new Map<string, Task>()): Map<string, Task> => {
+  tasks.forEach(t => { index.set(t.id, t); indexTasks(t.subtasks, index); });
+  return index;
+};
+
+const flattenTasks = (tasks: Task[]): Task[] => tasks.flatMap(t => [t, ...flattenTasks(t.subtasks)]);
+
+const diffTaskFields = (local: Task, incoming: Task): string[] => {
+  const keys = new Set([...Object.keys(local), ...Object.keys(incoming)]);
+  return [...keys].filter(key => !STRUCTURAL_KEYS.has(key)
+    && JSON.stringify(local[key as keyof Task]) !== JSON.stringify(incoming[key as keyof Task]));
+};
+
+const unionById = <T extends { id: string }>(local: T[], incoming: T[]): T[] => {
+  const known = new Set(local.map(item => item.id));
+  return [...local, ...incoming.filter(item => !known.has(item.id))];
+};
+
+// --- EXPORT ---
+export const createExportBundle = async (
+  projects: Project[],
+  users: User[],
+  adapter: StorageAdapter,
+  exportedBy: string,
+  scope: ExportBundle['scope']
+): Promise<ExportBundle> => {
+  const blobs: Record<string, string> = {};
+  for (const id of collectBlobIds({ projects, trash: [] })) {
+    const blob = await adapter.getBlob(id);
+    if (blob) blobs[id] = await blobToDataUrl(blob);
+  }
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    exportedBy,
+    scope,
+    projects,
+    users,
+    blobs,
+  };
+};
+
+export const downloadBundle = (bundle: ExportBundle, name: string) => {
+  const slug = name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const date = new Date(bundle.exportedAt).toISOString().slice(0, 10);
+  const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `proyectate-${slug || 'backup'}-${date}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- IMPORT ---
+/**
+ * Parses a bundle (or a plain AppState backup) and runs its projects through the
+ * same migration and repair pipeline used when loading saved state.
+ */
+export const parseBundle = (text: string): ExportBundle => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error("El archivo no es un JSON válido.");
+  }
+  if (typeof raw !== 'object' || raw === null || !Array.isArray((raw as { projects?: unknown }).projects)) {
+    throw new Error("El archivo no contiene proyectos de Proyectate.");
+  }
+
+  const data = raw as Partial<ExportBundle>;
+  const { state } = loadAppState({ schemaVersion: data.schemaVersion, projects: data.projects });
+  if (state.projects.length === 0) throw new Error("El archivo no contiene proyectos válidos.");
+
+  const blobs: Record<string, string> = {};
+  Object.entries(data.blobs || {}).forEach(([id, value]) => {
+    if (typeof value === 'string' && value.startsWith('data:')) blobs[id] = value;
+  });
+
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: state.schemaVersion,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : Date.now(),
+    exportedBy: typeof data.exportedBy === 'string' ? data.exportedBy : '',
+    scope: state.projects.length === 1 && data.scope === 'project' ? 'project' : 'all',
+    projects: state.projects,
+    users: repairUsers(data.users),
+    blobs,
+  };
+};
+
+/**
+ * Writes the bundle's attachment content to the blob store. An id already taken by a
+ * different local blob gets a new key; the returned map (bundle id -> new id) is applied
+ * to the incoming projects with `rekeyBlobIds` before they are planned.
+ */
+export const importBundleBlobs = async (bundle: ExportBundle, adapter: StorageAdapter): Promise<Record<string, string>> => {
+  const stored = new Set(await adapter.listBlobIds());
+  const rekeyed: Record<string, string> = {};
+  for (const [id, dataUrl] of Object.entries(bundle.blobs)) {
+    let key = id;
+    if (stored.has(id)) {
+      const existing = await adapter.getBlob(id);
+      if (existing && await blobToDataUrl(existing) === dataUrl) continue; // Same content, e.g. a re-imported backup
+      do key = generateId(); while (stored.has(key));
+      rekeyed[id] = key;
+    }
+    await adapter.putBlob(key, await dataUrlToBlob(dataUrl));
+    stored.add(key);
+  }
+  return rekeyed;
+};
+
+const rekeyTaskBlobs = (tasks: Task[], rekeyed: Record<string, string>): Task[] => tasks.map(t => ({
+  ...t,
+  attachments: t.attachments.map(att => att.blobId && rekeyed[att.blobId] ? { ...att, blobId: rekeyed[att.blobId] } : att),
+  subtasks: rekeyTaskBlobs(t.subtasks, rekeyed),
+}));
+
+export const rekeyBlobIds = (project: Project, rekeyed: Record<string, string>): Project =>
+  Object.keys(rekeyed).length > 0 ? { ...project, tasks: rekeyTaskBlobs(project.tasks, rekeyed) } : project;
+
+/**
+ * Merges task trees by Task.id. Tasks found on both sides keep their local
+ * position; activity, attachments, logged time and costs are unioned and the conflict
+ * policy decides the remaining fields. Incoming-only tasks are appended under their parent.
+ */
+export const mergeTaskTrees = (local: Task[], incoming: Task[], policy: ConflictPolicy): { tasks: Task[]; preview: ImportPreview } => {
+  const preview = emptyPreview();
+  const localIndex = indexTasks(local);
+  const incomingIndex = indexTasks(incoming);
+
+  // Incoming subtrees can contain tasks that already exist locally elsewhere; those are merged in place
+  const pruneKnown = (tasks: Task[]): Task[] => tasks.filter(t => !localIndex.has(t.id)).map(t => {
+    preview.added.push({ id: t.id, title: t.title, fields: [] });
+    return { ...t, subtasks: pruneKnown(t.subtasks) };
+  });
+
+  const mergeList = (localList: Task[], incomingList: Task[]): Task[] => {
+    const merged = localList.map(l => {
+      const match = incomingIndex.get(l.id);
+      if (!match) return { ...l, subtasks: mergeList(l.subtasks, []) };
+
+      const fields = diffTaskFields(l, match);
+      if (fields.length > 0) preview.changed.push({ id: l.id, title: l.title, fields });
+      else preview.unchanged++;
+
+      const base = fields.length > 0 && policy === 'incoming' ? match : l;
+      const timeEntries = unionById<TimeEntry>(l.timeEntries || [], match.timeEntries || []);
+      const costs = unionById<CostLine>(l.costs || [], match.costs || []);
+      return {
+        ...base,
+        timeEntries: timeEntries.length > 0 ? timeEntries : undefined,
+        costs: costs.length > 0 ? costs : undefined,
+        activity: unionById<ActivityLog>(l.activity, match.activity).sort((a, b) => a.timestamp - b.timestamp),
+        attachments: unionById<Attachment>(l.attachments, match.attachments),
+        subtasks: mergeList(l.subtasks, match.subtasks),
+        expanded: l.expanded,
+      };
+    });
+    return [...merged, ...pruneKnown(incomingList)];
+  };
+
+  return { tasks: mergeList(local, incoming), preview };
+};
+
+const previewReplace = (local: Task[], incoming: Task[]): ImportPreview => {
+  const preview = emptyPreview();
+  const localIndex = indexTasks(local);
+  const incomingIndex = indexTasks(incoming);
+  flattenTasks(incoming).forEach(t => {
+    const existing = localIndex.get(t.id);
+    if (!existing) preview.added.push({ id: t.id, title: t.title, fields: [] });
+    else {
+      const fields = diffTaskFields(existing, t);
+      if (fields.length > 0) preview.changed.push({ id: t.id, title: t.title, fields });
+      else preview.unchanged++;
+    }
+  });
+  flattenTasks(local).filter(t => !incomingIndex.has(t.id)).forEach(t => preview.removed.push({ id: t.id, title: t.title, fields: [] }));
+  return preview;
+};
+
+export const planProjectImport = (
+  action: Exclude<ImportAction, 'skip'>,
+  incoming: Project,
+  target: Project | undefined,
+  existingIds: Set<string>,
+  policy: ConflictPolicy
+): ImportPlan => {
+  if (action === 'create' || !target) {
+    const preview = emptyPreview();
+    flattenTasks(incoming.tasks).forEach(t => preview.added.push({ id: t.id, title: t.title, fields: [] }));
+    return { project: { ...incoming, id: existingIds.has(incoming.id) ? generateId() : incoming.id }, preview };
+  }
+
+  // Membership is managed per device; importing content never changes who has access
+  if (action === 'replace') {
+    return { project: { ...incoming, id: target.id, members: target.members }, preview: previewReplace(target.tasks, incoming.tasks) };
+  }
+
+  // Merged tasks may come from a workflow with other columns
+  const { tasks, preview } = mergeTaskTrees(target.tasks, incoming.tasks, policy);
+  const base = policy === 'incoming' ? { ...target, ...incoming } : { ...incoming, ...target };
+  const other = policy === 'incoming' ? target : incoming;
+  const tags = syncTagDefinitions(mergeTagDefinitions(getProjectTags(base), getProjectTags(other)), tasks);
+  const savedViews = [...getSavedViews(base), ...getSavedViews(other).filter(v => !getSavedViews(base).some(existing => existing.id === v.id))];
+  const project: Project = { ...base, id: target.id, tasks: pruneDependencies(remapStatuses(tasks, getWorkflow(base))), members: target.members, tags, savedViews };
+  const chat = mergeChats(target.chat, incoming.chat);
+  if (chat) project.chat = chat;
+  else delete project.chat;
+  return { project, preview };
+};
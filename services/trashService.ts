@@ -0,0 +1,140 @@
+import { ActivityLog, Attachment, Project, Task, TrashItem } from "../types";
+import { pruneDependencies } from "./dependencyService";
+import { generateId } from "./idService";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- HELPERS ---
+interface TaskLocation {
+  task: Task;
+  parent: Task | null; // null for root tasks
+  index: number;
+}
+
+const locateTask = (tasks: Task[], taskId: string, parent: Task | null = null): TaskLocation | null => {
+  for (let index = 0; index < tasks.length; index++) {
+    const task = tasks[index];
+    if (task.id === taskId) return { task, parent, index };
+    const found = locateTask(task.subtasks, taskId, task);
+    if (found) return found;
+  }
+  return null;
+};
+
+const containsTask = (tasks: Task[], taskId: string): boolean => locateTask(tasks, taskId) !== null;
+
+const mapTask = (tasks: Task[], taskId: string, updater: (t: Task) => Task): Task[] => tasks.map(t => {
+  if (t.id === taskId) return updater(t);
+  return { ...t, subtasks: mapTask(t.subtasks, taskId, updater) };
+});
+
+const insertAt = <T,>(list: T[], item: T, index: number): T[] => {
+  const position = Math.min(Math.max(index, 0), list.length);
+  return [...list.slice(0, position), item, ...list.slice(position)];
+};
+
+const logEntry = (content: string, type: ActivityLog['type'], userId: string): ActivityLog => ({
+  id: generateId(), content, type, timestamp: Date.now(), createdBy: userId,
+});
+
+const withLog = (tasks: Task[], taskId: string | null, log: ActivityLog): Task[] => {
+  if (!taskId) return tasks;
+  return mapTask(tasks, taskId, t => ({ ...t, activity: [...t.activity, log] }));
+};
+
+export const describeTrashItem = (item: TrashItem): string => {
+  if (item.kind === 'project') return item.project.title;
+  if (item.kind === 'task') return item.task.title;
+  return item.attachment.name;
+};
+
+// --- SOFT DELETE ---
+/** Removes a task from the tree and returns the trash entry that can put it back. */
+export const trashTask = (project: Project, taskId: string, userId: string): { project: Project; item: TrashItem } | null => {
+  const location = locateTask(project.tasks, taskId);
+  if (!location) return null;
+  const { task, parent, index } = location;
+
+  const remove = (tasks: Task[]): Task[] => tasks.filter(t => t.id !== taskId).map(t => ({ ...t, subtasks: remove(t.subtasks) }));
+  // Links to the removed tasks go too; the trashed copy keeps its own for a restore
+  const tasks = withLog(pruneDependencies(remove(project.tasks)), parent?.id || null, logEntry(`Eliminó la subtarea "${task.title}"`, 'deletion', userId));
+  return {
+    project: { ...project, tasks },
+    item: { id: generateId(), kind: 'task', projectId: project.id, parentId: parent?.id || null, index, deletedAt: Date.now(), deletedBy: userId, task },
+  };
+};
+
+export const trashAttachment = (project: Project, taskId: string, attachmentId: string, userId: string): { project: Project; item: TrashItem } | null => {
+  const location = locateTask(project.tasks, taskId);
+  const index = location ? location.task.attachments.findIndex(a => a.id === attachmentId) : -1;
+  if (!location || index === -1) return null;
+  const attachment = location.task.attachments[index];
+
+  const tasks = mapTask(project.tasks, taskId, t => ({
+    ...t,
+    attachments: t.attachments.filter(a => a.id !== attachmentId),
+    activity: [...t.activity, logEntry(`Eliminó el adjunto "${attachment.name}"`, 'deletion', userId)],
+  }));
+  return {
+    project: { ...project, tasks },
+    item: { id: generateId(), kind: 'attachment', projectId: project.id, parentId: taskId, index, deletedAt: Date.now(), deletedBy: userId, attachment },
+  };
+};
+
+export const trashProject = (projects: Project[], projectId: string, userId: string): TrashItem | null => {
+  const index = projects.findIndex(p => p.id === projectId);
+  if (index === -1) return null;
+  return { id: generateId(), kind: 'project', projectId, parentId: null, index, deletedAt: Date.now(), deletedBy: userId, project: projects[index] };
+};
+
+// --- RESTORE ---
+/**
+ * An item is live when its content is back in place, e.g. after an undo.
+ * Live items are hidden from the trash and dropped on restore.
+ */
+export const isTrashItemLive = (item: TrashItem, projects: Project[]): boolean => {
+  const project = projects.find(p => p.id === item.projectId);
+  if (item.kind === 'project') return !!project;
+  if (!project) return false;
+  if (item.kind === 'task') return containsTask(project.tasks, item.task.id);
+  const owner = locateTask(project.tasks, item.parentId || '');
+  return !!owner && owner.task.attachments.some(a => a.id === item.attachment.id);
+};
+
+/**
+ * Puts a task or attachment back where it was. A task whose parent is gone is
+ * restored at the root; an attachment needs its task, so null is returned without it.
+ */
+export const restoreIntoProject = (project: Project, item: TrashItem, userId: string): Project | null => {
+  if (item.kind === 'task') {
+    const parent = item.parentId ? locateTask(project.tasks, item.parentId) : null;
+    const log = logEntry(`Restauró la subtarea "${item.task.title}"`, 'restore', userId);
+    if (!parent) return { ...project, tasks: pruneDependencies(insertAt(project.tasks, item.task, item.parentId ? project.tasks.length : item.index)) };
+    const tasks = mapTask(project.tasks, parent.task.id, t => ({ ...t, subtasks: insertAt(t.subtasks, item.task, item.index) }));
+    return { ...project, tasks: pruneDependencies(withLog(tasks, parent.task.id, log)) };
+  }
+  if (item.kind === 'attachment') {
+    if (!item.parentId || !containsTask(project.tasks, item.parentId)) return null;
+    const tasks = mapTask(project.tasks, item.parentId, t => ({
+      ...t,
+      attachments: insertAt<Attachment>(t.attachments, item.attachment, item.index),
+      activity: [...t.activity, logEntry(`Restauró el adjunto "${item.attachment.name}"`, 'restore', userId)],
+    }));
+    return { ...project, tasks };
+  }
+  return null;
+};
+
+// --- RETENTION ---
+export const purgeExpiredTrash = (trash: TrashItem[], retentionDays: number, now = Date.now()): { kept: TrashItem[]; purged: number } => {
+  const cutoff = now - retentionDays * DAY_MS;
+  const kept = trash.filter(item => item.deletedAt >= cutoff);
+  return { kept, purged: trash.length - kept.length };
+};
+
+export const daysUntilPurge = (item: TrashItem, retentionDays: number, now = Date.now()): number => {
+  return Math.max(0, Math.ceil((item.deletedAt + retentionDays * DAY_MS - now) / DAY_MS));
+};
@@ -0,0 +1,106 @@
+import { Project, SavedView, Task, TaskSort, User } from "../types";
+import { generateId } from "./idService";
+import { QueryEnv, filterTasksByQuery, matchesQuery, parseQuery } from "./queryService";
+import { getTaskSchedule } from "./scheduleService";
+import { filterTasksByTags, sameTag } from "./tagService";
+import { findStatus, getWorkflow } from "./workflowService";
+
+export const SORT_OPTIONS: { sort: TaskSort; label: string }[] = [
+  { sort: 'manual', label: 'Orden manual' },
+  { sort: 'due', label: 'Vencimiento' },
+  { sort: 'title', label: 'Título' },
+  { sort: 'status', label: 'Estado' },
+  { sort: 'created', label: 'Más recientes' },
+];
+
+// Built-in views every project has; ids are prefixed so they never clash with saved ones
+export const SMART_FILTERS: SavedView[] = [
+  { id: 'smart:mine', name: 'Mis pendientes', query: 'assignee:me status:open', tags: [], sort: 'due', createdBy: 'system', createdAt: 0 },
+  { id: 'smart:overdue', name: 'Vencidas', query: 'due:overdue', tags: [], sort: 'due', createdBy: 'system', createdAt: 0 },
+  { id: 'smart:blocked', name: 'Bloqueadas', query: 'status:blocked', tags: [], sort: 'manual', createdBy: 'system', createdAt: 0 },
+  { id: 'smart:unassigned', name: 'Sin asignar', query: 'assignee:none status:open NOT has:subtasks', tags: [], sort: 'manual', createdBy: 'system', createdAt: 0 },
+  { id: 'smart:no-description', name: 'Sin descripción', query: 'NOT has:description', tags: [], sort: 'manual', createdBy: 'system', createdAt: 0 },
+];
+
+export const isSmartFilter = (view: SavedView): boolean => view.id.startsWith('smart:');
+
+// --- HELPERS ---
+export const createSavedView = (name: string, query: string, tags: string[], sort: TaskSort, userId: string): SavedView => ({
+  id: generateId(), name, query: query.trim(), tags, sort, createdBy: userId, createdAt: Date.now(),
+});
+
+export const getSavedViews = (project?: Pick<Project, 'savedViews'>): SavedView[] => project?.savedViews || [];
+
+export const projectQueryEnv = (project: Project, users: User[], currentUserId: string): QueryEnv => ({
+  workflow: getWorkflow(project), users, currentUserId,
+});
+
+/** True when the current filters are exactly those of `view`, so its chip shows as active. */
+export const isViewActive = (view: SavedView, query: string, tags: string[], sort: TaskSort): boolean => {
+  return view.query === query.trim()
+    && view.sort === sort
+    && view.tags.length === tags.length
+    && view.tags.every(tag => tags.some(t => sameTag(t, tag)));
+};
+
+// --- SORTING ---
+const sortKey = (task: Task, sort: TaskSort, project: Project): string | number => {
+  switch (sort) {
+    case 'due': return getTaskSchedule(task).dueDate || '9999-99-99'; // Undated tasks go last
+    case 'title': return task.title.toLowerCase();
+    case 'status': return getWorkflow(project).indexOf(findStatus(getWorkflow(project), task.status));
+    case 'created': return -(task.activity.find(a => a.type === 'creation')?.timestamp || 0);
+    default: return 0;
+  }
+};
+
+// Sorts siblings at every level; the stored order is untouched, so 'manual' returns it as is
+export const sortTaskTree = (tasks: Task[], sort: TaskSort, project: Project): Task[] => {
+  if (sort === 'manual') return tasks;
+  return [...tasks]
+    .map(t => ({ ...t, subtasks: sortTaskTree(t.subtasks, sort, project) }))
+    .sort((a, b) => {
+      const ka = sortKey(a, sort, project);
+      const kb = sortKey(b, sort, project);
+      return typeof ka === 'string' ? ka.localeCompare(kb as string, 'es') : ka - (kb as number);
+    });
+};
+
+// --- APPLYING VIEWS ---
+export const applyViewFilters = (project: Project, query: string, tags: string[], sort: TaskSort, env: QueryEnv): Task[] => {
+  const filtered = filterTasksByTags(filterTasksByQuery(project.tasks, parseQuery(query), env), tags);
+  return sortTaskTree(filtered, sort, project);
+};
+
+export interface ViewMatch {
+  project: Project;
+  task: Task;
+  path: string[]; // Titles of the parent tasks
+}
+
+/**
+ * Tasks matching a view themselves, not the ancestors kept to reach them.
+ * A view with a broken query matches nothing rather than everything.
+ */
+export const collectViewMatches = (project: Project, view: SavedView, env: QueryEnv): ViewMatch[] => {
+  const parsed = parseQuery(view.query);
+  if (parsed.error) return [];
+  const matches = (task: Task) => (!parsed.root || matchesQuery(task, parsed.root, env))
+    && view.tags.every(name => task.tags.some(tag => sameTag(tag, name)));
+  const walk = (tasks: Task[], path: string[]): ViewMatch[] => sortTaskTree(tasks, view.sort, project).flatMap(task => [
+    ...(matches(task) ? [{ project, task, path }] : []),
+    ...walk(task.subtasks, [...path, task.title]),
+  ]);
+  return walk(project.tasks, []);
+};
+
+// Views saved in different projects with the same name and filters act as one on dashboards
+export const listDashboardViews = (projects: Project[]): SavedView[] => {
+  const key = (v: SavedView) => [v.name.toLowerCase(), v.query, [...v.tags].map(t => t.toLowerCase()).sort().join(','), v.sort].join('|');
+  const seen = new Set<string>();
+  return [...SMART_FILTERS, ...projects.flatMap(getSavedViews)].filter(view => {
+    if (seen.has(key(view))) return false;
+    seen.add(key(view));
+    return true;
+  });
+};
@@ -0,0 +1,50 @@
+import { ActivityLog, DEFAULT_WORKFLOW, Project, StatusColor, Task, WorkflowStatus } from "../types";
+import { generateId } from "./idService";
+
+export const STATUS_COLORS: StatusColor[] = ['slate', 'indigo', 'violet', 'amber', 'rose', 'emerald', 'cyan'];
+
+// --- HELPERS ---
+export const getWorkflow = (project?: Pick<Project, 'workflow'>): WorkflowStatus[] => {
+  return project?.workflow?.length ? project.workflow : DEFAULT_WORKFLOW;
+};
+
+// The first open status is where new and reopened tasks go
+export const initialStatus = (workflow: WorkflowStatus[]): WorkflowStatus => workflow.find(s => s.progress < 100) || workflow[0];
+
+export const doneStatus = (workflow: WorkflowStatus[]): WorkflowStatus => workflow.find(s => s.progress >= 100) || workflow[workflow.length - 1];
+
+// Unknown ids (e.g. a status deleted on another device) read as the initial status
+export const findStatus = (workflow: WorkflowStatus[], id: string): WorkflowStatus => workflow.find(s => s.id === id) || initialStatus(workflow);
+
+export const isDoneStatus = (workflow: WorkflowStatus[], id: string): boolean => findStatus(workflow, id).progress >= 100;
+
+export const createStatus = (label: string, color: StatusColor = 'cyan'): WorkflowStatus => ({ id: generateId(), label, color, progress: 50 });
+
+export const validateWorkflow = (workflow: WorkflowStatus[]): string | null => {
+  if (workflow.some(s => !s.label.trim())) return "Todas las columnas necesitan un nombre.";
+  if (new Set(workflow.map(s => s.id)).size !== workflow.length) return "Hay columnas repetidas.";
+  if (workflow.some(s => !Number.isFinite(s.progress) || s.progress < 0 || s.progress > 100)) return "El progreso de cada columna debe estar entre 0 y 100.";
+  if (!workflow.some(s => s.progress < 100)) return "Debe haber al menos una columna abierta (progreso menor a 100).";
+  if (!workflow.some(s => s.progress >= 100)) return "Debe haber al menos una columna que complete la tarea (progreso 100).";
+  return null;
+};
+
+export const remapStatuses = (tasks: Task[], workflow: WorkflowStatus[]): Task[] => {
+  const known = new Set(workflow.map(s => s.id));
+  const fallback = initialStatus(workflow).id;
+  return tasks.map(t => ({ ...t, status: known.has(t.status) ? t.status : fallback, subtasks: remapStatuses(t.subtasks, workflow) }));
+};
+
+// Sets a task's status and records the transition in its activity
+export const applyTaskStatus = (project: Project, taskId: string, statusId: string, userId: string): Project => {
+  const workflow = getWorkflow(project);
+  const update = (tasks: Task[]): Task[] => tasks.map(t => {
+    if (t.id !== taskId) return { ...t, subtasks: update(t.subtasks) };
+    const from = findStatus(workflow, t.status);
+    const to = findStatus(workflow, statusId);
+    if (from.id === to.id) return t;
+    const log: ActivityLog = { id: generateId(), type: 'status_change', content: `Estado: ${from.label} → ${to.label}`, timestamp: Date.now(), createdBy: userId, toStatus: to.id };
+    return { ...t, status: to.id, activity: [...t.activity, log] };
+  });
+  return { ...project, tasks: update(project.tasks) };
+};
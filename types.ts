@@ -1,27 +1,69 @@
+// Built-in workflow status ids. Projects can add their own, so Task.status is a plain string.
 export enum TaskStatus {
-  PENDING = 'PENDING',
+  BACKLOG = 'BACKLOG',
+  PENDING = 'PENDING', // Shown as "En Progreso"
+  IN_REVIEW = 'IN_REVIEW',
+  BLOCKED = 'BLOCKED',
   COMPLETED = 'COMPLETED',
 }
 
+export type StatusColor = 'slate' | 'indigo' | 'violet' | 'amber' | 'rose' | 'emerald' | 'cyan';
+
+// One column of a project's workflow
+export interface WorkflowStatus {
+  id: string;
+  label: string;
+  color: StatusColor;
+  progress: number; // 0-100, what a leaf task in this status adds to progress; 100 means done
+}
+
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { id: TaskStatus.BACKLOG, label: 'Backlog', color: 'slate', progress: 0 },
+  { id: TaskStatus.PENDING, label: 'En Progreso', color: 'indigo', progress: 25 },
+  { id: TaskStatus.IN_REVIEW, label: 'En Revisión', color: 'violet', progress: 75 },
+  { id: TaskStatus.BLOCKED, label: 'Bloqueada', color: 'rose', progress: 25 },
+  { id: TaskStatus.COMPLETED, label: 'Completada', color: 'emerald', progress: 100 },
+];
+
+export type CredentialKind = 'pin' | 'passphrase';
+
+export interface UserCredential {
+  kind: CredentialKind;
+  salt: string;
+  hash: string; // PBKDF2-SHA256 of the secret, never the secret itself
+}
+
 export interface User {
   id: string;
   name: string;
   avatarColor: string;
   avatarUrl?: string; // New: Profile picture
+  accountRole: 'admin' | 'member'; // Admins manage the team
+  status: 'active' | 'invited' | 'removed'; // Removed users are kept so history still resolves
+  credential?: UserCredential;
+  inviteCode?: string; // Set while status is 'invited'
+  createdAt?: number;
 }
 
-export const USERS: User[] = [
+export const AVATAR_COLORS = ['bg-rose-500', 'bg-blue-500', 'bg-emerald-500', 'bg-amber-500', 'bg-violet-500', 'bg-cyan-500', 'bg-pink-500', 'bg-lime-500'];
+
+// Seed for first runs; afterwards users are managed in the app and persisted
+export const SEED_USERS: User[] = [
   { 
     id: 'u-leticia', 
     name: 'Leticia', 
     avatarColor: 'bg-rose-500',
-    avatarUrl: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?q=80&w=150&auto=format&fit=crop' 
+    avatarUrl: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?q=80&w=150&auto=format&fit=crop',
+    accountRole: 'admin',
+    status: 'active',
   },
   { 
     id: 'u-daniel', 
     name: 'Daniel', 
     avatarColor: 'bg-blue-500',
-    avatarUrl: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?q=80&w=150&auto=format&fit=crop'
+    avatarUrl: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?q=80&w=150&auto=format&fit=crop',
+    accountRole: 'admin',
+    status: 'active',
   },
 ];
 
@@ -29,7 +71,9 @@ export interface Attachment {
   id: string;
   name: string;
   type: 'image' | 'document' | 'audio' | 'video' | 'link';
-  url: string;
+  url: string; // Empty when the content lives in the blob store
+  blobId?: string; // Key of the binary content in the storage adapter
+  mimeType?: string;
   createdAt: number;
   createdBy: string; // User ID
 }
@@ -37,28 +81,148 @@ export interface Attachment {
 export interface ActivityLog {
   id: string;
   content: string;
-  type: 'comment' | 'status_change' | 'creation' | 'attachment' | 'ai_suggestion';
+  type: 'comment' | 'status_change' | 'creation' | 'attachment' | 'ai_suggestion' | 'deletion' | 'restore' | 'assignment' | 'edit';
   timestamp: number;
   createdBy: string; // User ID
+  toStatus?: string; // On status_change: the WorkflowStatus id the task moved to
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'after_completion';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days, weeks or months; days after completion for 'after_completion'
+  weekdays?: number[]; // Weekly only; 0 = Monday, matching WEEKDAY_LABELS
+}
+
+// One closed cycle of a recurring task, kept when the task rolls over to the next one
+export interface RecurrenceCycle {
+  id: string;
+  dueDate?: string; // Occurrence that was closed
+  completedAt: number;
+  completedBy: string; // User ID
+  checklist: { title: string; doneAt?: number; doneBy?: string }[]; // Subtasks as they were closed
+}
+
+// Effort logged on a task, by the timer or by hand
+export interface TimeEntry {
+  id: string;
+  userId: string; // Who did the work; may differ from who logged it
+  date: string; // Local day the work was done ("YYYY-MM-DD")
+  minutes: number;
+  note?: string;
+  source: 'timer' | 'manual';
+  createdBy: string; // User ID
+  createdAt: number;
+}
+
+export interface RunningTimer {
+  userId: string; // One running timer per user and task
+  startedAt: number;
+}
+
+// How a parent's progress comes from its subtasks (and a project's from its top-level tasks)
+export type RollupStrategy = 'average' | 'weighted' | 'leaves' | 'manual';
+
+// Voices of the project assistant; 'consultant' is the general one
+export type AIPersona = 'consultant' | 'investor' | 'technical' | 'calculator';
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  persona: AIPersona; // The one selected when it was asked
+  createdBy: string; // User ID; for answers, who asked
+  createdAt: number;
+  failed?: boolean; // Error notice shown in place of an answer; never sent back as history
+}
+
+export type Currency = 'UYU' | 'USD' | 'EUR';
+
+// Money planned for (budget) or spent on a task, in the currency it was paid in
+export interface CostLine {
+  id: string;
+  kind: 'planned' | 'actual';
+  label: string;
+  amount: number;
+  currency: Currency;
+  createdBy: string; // User ID
+  createdAt: number;
+}
+
+// Maintained by hand; amounts are converted through the base currency (UYU)
+export interface ExchangeRate {
+  currency: Currency;
+  rate: number; // UYU per unit of `currency`
+  updatedAt: number;
+  updatedBy: string; // User ID
 }
 
 export interface Task {
   id: string;
   title: string;
   description?: string;
-  status: TaskStatus;
+  status: string; // WorkflowStatus id of the project
   subtasks: Task[]; // Recursive
   attachments: Attachment[];
   activity: ActivityLog[];
   tags: string[]; 
   expanded?: boolean;
   createdBy: string; // User ID
+  assignees: string[]; // User IDs doing the work; independent of who created the task
+  blockedBy?: string[]; // IDs of tasks in the same project that must be done first
+  recurrence?: RecurrenceRule; // Completing the task rolls it over to its next occurrence
+  cycles?: RecurrenceCycle[]; // Oldest first
+
+  // Time tracking; parents add up their subtasks like getTaskProgress
+  estimateHours?: number;
+  timeEntries?: TimeEntry[];
+  runningTimers?: RunningTimer[];
+  costs?: CostLine[]; // Parents add up their subtasks' costs too
+
+  // Progress roll-up, see Project.rollup
+  weight?: number; // Relative effort under the weighted rule; 1 when unset
+  manualProgress?: number; // 0-100; a parent's progress under the manual rule
+
+  // Scheduling; dates are local calendar days ("YYYY-MM-DD")
+  startDate?: string;
+  dueDate?: string;
+  reminderDaysBefore?: number; // Unset means no reminder
   
   // AI Integration
   aiContext?: string; // Hidden context for the AI
   suggestedSteps?: string; // AI generated suggestions
 }
 
+// Project-level tag; tasks reference it by name in Task.tags
+export interface TagDefinition {
+  name: string;
+  color: StatusColor;
+}
+
+export type TaskSort = 'manual' | 'due' | 'title' | 'status' | 'created';
+
+// Named combination of search query, tag filter and sort, shared with the project's members
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string; // Query language of the search box
+  tags: string[];
+  sort: TaskSort;
+  createdBy: string; // User ID
+  createdAt: number;
+}
+
+export type ProjectViewMode = 'tree' | 'kanban' | 'calendar' | 'timeline';
+
+export type ProjectRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+export interface ProjectMember {
+  userId: string;
+  role: ProjectRole;
+  addedAt: number;
+}
+
 export interface Project {
   id: string;
   title: string;
@@ -67,13 +231,95 @@ export interface Project {
   createdBy: string; // User ID
   tasks: Task[];
   imageUrl?: string; // New: Project cover/logo
+  members: ProjectMember[]; // Only members can see the project
+  workflow: WorkflowStatus[]; // Ordered Kanban columns
+  tags: TagDefinition[];
+  savedViews: SavedView[];
+  currency?: Currency; // Budget totals are shown in it; UYU when unset
+  rollup?: RollupStrategy; // 'average' when unset
+  autoCompleteParents?: boolean; // Parents follow their subtasks: done when all are, reopened when one is not
+  chat?: ChatMessage[]; // Assistant conversation, shared by the members; oldest first
+}
+
+// A task inside a template: content and structure only, no people, status or history
+export interface TemplateTask {
+  key: string; // Stable within the template; links blockedBy between its tasks
+  title: string; // May contain {{placeholders}}, like description, aiContext and tags
+  description?: string;
+  tags: string[];
+  aiContext?: string;
+  startOffset?: number; // Days after the date the template is used
+  dueOffset?: number;
+  recurrence?: RecurrenceRule;
+  blockedBy?: string[]; // Keys of other tasks in the same template
+  subtasks: TemplateTask[];
+}
+
+// Reusable structure saved from a project or a task subtree; shared by everyone on the device
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  source: 'project' | 'task';
+  subtitle?: string; // Project templates only
+  workflow?: WorkflowStatus[]; // Project templates only
+  tags: TagDefinition[]; // Colors of the tags used by its tasks
+  tasks: TemplateTask[];
+  createdBy: string; // User ID
+  createdAt: number;
+}
+
+// Something the loader could not repair; kept so no data is silently dropped
+export interface QuarantinedItem {
+  id: string;
+  kind: 'task' | 'project';
+  projectId?: string;
+  reason: string;
+  raw: unknown;
+  quarantinedAt: number;
+}
+
+interface TrashItemBase {
+  id: string;
+  projectId: string;
+  parentId: string | null; // Parent task of a task, owning task of an attachment
+  index: number; // Position among its siblings when it was deleted
+  deletedAt: number;
+  deletedBy: string; // User ID
+}
+
+// Soft-deleted content, restorable until the retention period purges it
+export type TrashItem =
+  | TrashItemBase & { kind: 'task'; task: Task }
+  | TrashItemBase & { kind: 'attachment'; attachment: Attachment }
+  | TrashItemBase & { kind: 'project'; project: Project };
+
+// Bump together with a new migration in services/migrationService.ts
+export const CURRENT_SCHEMA_VERSION = 17;
+
+// The users store is versioned on its own; a bare array is version 0
+export const USERS_SCHEMA_VERSION = 1;
+
+export interface UsersStore {
+  schemaVersion: number;
+  users: User[];
 }
 
 export interface AppState {
+  schemaVersion: number;
   projects: Project[];
+  quarantine?: QuarantinedItem[];
+  trash: TrashItem[];
+  trashRetentionDays: number;
+  templates: TaskTemplate[];
+  exchangeRates: ExchangeRate[];
 }
 
 export const INITIAL_APP_STATE: AppState = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  trash: [],
+  trashRetentionDays: 30,
+  templates: [],
+  exchangeRates: [],
   projects: [
     {
       id: 'p-1',
@@ -82,7 +328,14 @@ export const INITIAL_APP_STATE: AppState = {
       createdAt: Date.now(),
       createdBy: 'u-leticia',
       imageUrl: 'https://images.unsplash.com/photo-1602143407151-011141950039?q=80&w=600&auto=format&fit=crop', // Essential Oils aesthetic
-      tasks: [] 
+      tasks: [],
+      workflow: DEFAULT_WORKFLOW,
+      tags: [],
+      savedViews: [],
+      members: [
+        { userId: 'u-leticia', role: 'owner', addedAt: Date.now() },
+        { userId: 'u-daniel', role: 'owner', addedAt: Date.now() },
+      ]
     }
   ]
 };
\ No newline at end of file